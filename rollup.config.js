@@ -43,7 +43,7 @@ export default [
     plugins: [
       ...commonPlugins,
       typescript({
-        tsconfig: "./tsconfig.json",
+        tsconfig: "./tsconfig.build.json",
         declaration: false,
         outDir: "dist/esm",
         rootDir: "src",
@@ -70,7 +70,7 @@ export default [
     plugins: [
       ...commonPlugins,
       typescript({
-        tsconfig: "./tsconfig.json",
+        tsconfig: "./tsconfig.build.json",
         declaration: false,
         outDir: "dist/cjs",
         rootDir: "src",
@@ -95,7 +95,7 @@ export default [
     external,
     plugins: [
       typescript({
-        tsconfig: "./tsconfig.json",
+        tsconfig: "./tsconfig.build.json",
         declaration: true,
         declarationMap: true,
         emitDeclarationOnly: true,
@@ -122,7 +122,7 @@ export default [
       }),
       commonjs(),
       typescript({ 
-        tsconfig: "./tsconfig.json",
+        tsconfig: "./tsconfig.build.json",
         declaration: false,
       }),
       terser({
@@ -157,7 +157,7 @@ export default [
       }),
       commonjs(),
       typescript({ 
-        tsconfig: "./tsconfig.json",
+        tsconfig: "./tsconfig.build.json",
         declaration: false,
       }),
       filesize(),
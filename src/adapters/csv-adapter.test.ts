@@ -0,0 +1,96 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { CsvAdapter, CsvParser } from './csv-adapter.js';
+import { PipeFitter } from '../core/pipefitter.js';
+import { AdapterError } from '../core/errors.js';
+import { FNode } from '../core/fnode.js';
+import { StreamSource } from '../core/stream.js';
+import { load } from '../test-helpers.js';
+
+function parse(csv: string, options = {}): FNode {
+  return load(CsvAdapter.string(csv, options)).data;
+}
+
+function roundTrip(csv: string, options = {}): string {
+  return new PipeFitter().from(CsvAdapter.string(csv, options)).to(CsvAdapter.stringify(options)) as string;
+}
+
+test('parses quoted fields with delimiters, escaped quotes and line breaks', () => {
+  const data = parse('name,note\n"Smith, J","say ""hi""\nthere"\n');
+  const fields = data.children![0].children!;
+
+  assert.deepEqual(fields.map(field => [field.name, field.value]), [
+    ['name', 'Smith, J'],
+    ['note', 'say "hi"\nthere']
+  ]);
+});
+
+test('parses custom delimiters, CRLF line endings and a byte order mark', () => {
+  const data = parse('﻿a;b\r\n1;2\r\n', { delimiter: ';' });
+
+  assert.equal(data.children!.length, 1);
+  assert.deepEqual(data.children![0].children!.map(field => [field.name, field.value]), [['a', '1'], ['b', '2']]);
+});
+
+test('parser accepts input split across arbitrary chunks', () => {
+  const parser = new CsvParser();
+  const records = [...parser.push('a,"b'), ...parser.push('""c"\r'), ...parser.push('\n1,2'), ...parser.end()];
+
+  assert.deepEqual(records, [['a', 'b"c'], ['1', '2']]);
+});
+
+test('rejects an unterminated quoted field', () => {
+  assert.throws(() => parse('a\n"open\n'), AdapterError);
+});
+
+test('rejects text after a closing quote', () => {
+  assert.throws(() => parse('a\n"x"y\n'), /Unexpected character after closing quote on line 2/);
+});
+
+test('rejects multi-character delimiters', () => {
+  assert.throws(() => new CsvParser({ delimiter: '::' }), AdapterError);
+});
+
+test('round-trips quoting, empty fields and missing values', () => {
+  assert.equal(roundTrip('a,b,c\n"x,y",,"q""r"\n'), 'a,b,c\r\n"x,y",,"q""r"\r\n');
+});
+
+test('keeps one column per occurrence of a duplicate header', () => {
+  assert.equal(roundTrip('a,a,b\n1,2,3\n'), 'a,a,b\r\n1,2,3\r\n');
+});
+
+test('keeps the header row of a file without data rows', () => {
+  assert.equal(roundTrip('a,b\n'), 'a,b\r\n');
+});
+
+test('writes rows without a header line when headers is false', () => {
+  assert.equal(roundTrip('1,2\n3,4\n', { headers: false }), '1,2\r\n3,4\r\n');
+});
+
+test('writes the union of field names as headers, leaving missing values empty', () => {
+  const rows = new PipeFitter()
+    .from(CsvAdapter.string('a,b\n1,2\n'))
+    .map(message => ({
+      ...message,
+      data: {
+        ...message.data,
+        children: [...message.data.children!, { ...message.data.children![0], children: [{ ...message.data.children![0].children![0], name: 'c' }] }]
+      }
+    }))
+    .to(CsvAdapter.output());
+
+  assert.deepEqual(rows, [['a', 'b', 'c'], ['1', '2', ''], ['', '', '1']]);
+});
+
+test('streams rows from a string or from chunks split mid-field', async () => {
+  const rows = async (source: StreamSource<string>) => {
+    const values: unknown[][] = [];
+    for await (const row of CsvAdapter.stream(source).stream()) {
+      values.push(row.children!.map(field => [field.name, field.value]));
+    }
+    return values;
+  };
+
+  assert.deepEqual(await rows('a,b\n1,2\n'), [[['a', '1'], ['b', '2']]]);
+  assert.deepEqual(await rows(['a,b\n1,"x', '\ny"\n3,4']), [[['a', '1'], ['b', 'x\ny']], [['a', '3'], ['b', '4']]]);
+});
@@ -0,0 +1,492 @@
+// src/adapters/csv-adapter.ts
+import { InputAdapter, OutputAdapter } from '../core/adapter.js';
+import { Message } from '../core/message.js';
+import { FNode, FNodeType, documentElement } from '../core/fnode.js';
+import { AdapterError } from '../core/errors.js';
+import { formatValue } from '../core/typed-values.js';
+import {
+  StreamSource,
+  StreamInputAdapter,
+  StreamOutputAdapter,
+  WritableSink,
+  decodeText,
+  writeToSink
+} from '../core/stream.js';
+
+/**
+ * CSV adapter options
+ */
+export interface CsvAdapterOptions {
+  /** Field delimiter (default ",") */
+  delimiter?: string;
+  /** Quote character (default '"') */
+  quote?: string;
+  /** Treat the first row as column names (default true), or supply names explicitly */
+  headers?: boolean | string[];
+  /** Skip blank lines when parsing (default true) */
+  skipEmptyLines?: boolean;
+  /** Line terminator used when writing (default "\r\n" per RFC 4180) */
+  newline?: string;
+  /** Prefix written output with a UTF-8 byte order mark */
+  bom?: boolean;
+  /** Quote every field when writing, not only those that need it */
+  quoteAll?: boolean;
+}
+
+const BOM = '\uFEFF';
+
+enum ParserState {
+  FIELD_START,
+  UNQUOTED,
+  QUOTED,
+  QUOTE_IN_QUOTED
+}
+
+/**
+ * Incremental RFC 4180 parser
+ * Accepts text in arbitrary chunks and returns completed records as they become available
+ */
+export class CsvParser {
+  private readonly delimiter: string;
+  private readonly quote: string;
+  private readonly skipEmptyLines: boolean;
+
+  private state = ParserState.FIELD_START;
+  private field = '';
+  private record: string[] = [];
+  private started = false;
+  private skipLineFeed = false;
+  private line = 1;
+  private recordLine = 1;
+
+  constructor(options: CsvAdapterOptions = {}) {
+    this.delimiter = options.delimiter ?? ',';
+    this.quote = options.quote ?? '"';
+    this.skipEmptyLines = options.skipEmptyLines ?? true;
+
+    if (this.delimiter.length !== 1 || this.quote.length !== 1) {
+      throw new AdapterError('CSV delimiter and quote must be single characters', {
+        delimiter: this.delimiter,
+        quote: this.quote
+      });
+    }
+    if (this.delimiter === this.quote || this.delimiter === '\n' || this.delimiter === '\r') {
+      throw new AdapterError('CSV delimiter must differ from the quote character and line breaks', {
+        delimiter: this.delimiter
+      });
+    }
+  }
+
+  /**
+   * Consume a chunk of text and return the records it completed
+   */
+  push(chunk: string): string[][] {
+    const records: string[][] = [];
+
+    for (let i = 0; i < chunk.length; i++) {
+      const ch = chunk[i];
+
+      if (!this.started) {
+        this.started = true;
+        if (ch === BOM) continue;
+      }
+
+      if (this.skipLineFeed) {
+        this.skipLineFeed = false;
+        if (ch === '\n') continue;
+      }
+
+      switch (this.state) {
+        case ParserState.FIELD_START:
+          if (ch === this.quote) {
+            this.state = ParserState.QUOTED;
+          } else if (ch === this.delimiter) {
+            this.endField();
+          } else if (ch === '\r' || ch === '\n') {
+            this.endRecord(ch, records);
+          } else {
+            this.field += ch;
+            this.state = ParserState.UNQUOTED;
+          }
+          break;
+
+        case ParserState.UNQUOTED:
+          if (ch === this.delimiter) {
+            this.endField();
+          } else if (ch === '\r' || ch === '\n') {
+            this.endRecord(ch, records);
+          } else {
+            this.field += ch;
+          }
+          break;
+
+        case ParserState.QUOTED:
+          if (ch === this.quote) {
+            this.state = ParserState.QUOTE_IN_QUOTED;
+          } else {
+            if (ch === '\n' || (ch === '\r' && chunk[i + 1] !== '\n')) this.line++;
+            this.field += ch;
+          }
+          break;
+
+        case ParserState.QUOTE_IN_QUOTED:
+          if (ch === this.quote) {
+            this.field += ch;
+            this.state = ParserState.QUOTED;
+          } else if (ch === this.delimiter) {
+            this.endField();
+          } else if (ch === '\r' || ch === '\n') {
+            this.endRecord(ch, records);
+          } else {
+            throw new AdapterError(`Unexpected character after closing quote on line ${this.line}`, {
+              line: this.line,
+              character: ch
+            });
+          }
+          break;
+      }
+    }
+
+    return records;
+  }
+
+  /**
+   * Signal end of input and return the final record, if any
+   */
+  end(): string[][] {
+    if (this.state === ParserState.QUOTED) {
+      throw new AdapterError(`Unterminated quoted field starting on line ${this.recordLine}`, {
+        line: this.recordLine
+      });
+    }
+
+    const records: string[][] = [];
+    if (this.record.length > 0 || this.field !== '' || this.state !== ParserState.FIELD_START) {
+      this.endRecord('', records);
+    }
+    return records;
+  }
+
+  private endField(): void {
+    this.record.push(this.field);
+    this.field = '';
+    this.state = ParserState.FIELD_START;
+  }
+
+  private endRecord(terminator: string, records: string[][]): void {
+    const blank = this.record.length === 0 && this.field === '' && this.state === ParserState.FIELD_START;
+
+    this.endField();
+    if (!(blank && this.skipEmptyLines)) {
+      records.push(this.record);
+    }
+    this.record = [];
+
+    if (terminator === '\r') this.skipLineFeed = true;
+    if (terminator) this.line++;
+    this.recordLine = this.line;
+  }
+}
+
+/**
+ * Build column names for a row, falling back to positional names
+ */
+function columnName(headers: string[], index: number): string {
+  return headers[index] || `column${index + 1}`;
+}
+
+/**
+ * Convert a parsed record into a CSV row FNode
+ */
+export function csvRecordToFNode(record: string[], headers: string[]): FNode {
+  return {
+    type: FNodeType.RECORD,
+    name: 'row',
+    children: record.map((value, index) => ({
+      type: FNodeType.FIELD,
+      name: columnName(headers, index),
+      value
+    }))
+  };
+}
+
+/**
+ * CSV string input adapter - parses CSV text into COLLECTION → RECORD(row) → FIELD
+ */
+class CsvStringInputAdapter implements InputAdapter {
+  constructor(
+    private csvString: string,
+    private options: CsvAdapterOptions = {}
+  ) {}
+
+  handle(message: Message): Message {
+    const parser = new CsvParser(this.options);
+    const records = [...parser.push(this.csvString), ...parser.end()];
+
+    const headerOption = this.options.headers ?? true;
+    let headers: string[] = [];
+    if (Array.isArray(headerOption)) {
+      headers = headerOption;
+    } else if (headerOption && records.length > 0) {
+      headers = records.shift()!;
+    }
+
+    const rows = records.map(record => csvRecordToFNode(record, headers));
+
+    return {
+      ...message,
+      data: {
+        type: FNodeType.COLLECTION,
+        name: 'root',
+        children: rows
+      },
+      metadata: {
+        ...message.metadata,
+        source: {
+          format: 'text/csv',
+          adapter: 'CsvStringInputAdapter',
+          processedAt: new Date().toISOString()
+        },
+        csv: {
+          headers,
+          delimiter: this.options.delimiter ?? ',',
+          rowCount: rows.length
+        }
+      }
+    };
+  }
+}
+
+/**
+ * CSV streaming input adapter - yields one row FNode per record as text arrives
+ */
+class CsvStreamInputAdapter implements StreamInputAdapter {
+  constructor(
+    private source: StreamSource<string | Uint8Array>,
+    private options: CsvAdapterOptions = {}
+  ) {}
+
+  async *stream(): AsyncIterable<FNode> {
+    const parser = new CsvParser(this.options);
+    const headerOption = this.options.headers ?? true;
+    let headers: string[] | null = Array.isArray(headerOption) ? headerOption : headerOption ? null : [];
+
+    const toRows = function* (records: string[][]): Iterable<FNode> {
+      for (const record of records) {
+        if (headers === null) {
+          headers = record;
+        } else {
+          yield csvRecordToFNode(record, headers);
+        }
+      }
+    };
+
+    for await (const chunk of decodeText(this.source)) {
+      yield* toRows(parser.push(chunk));
+    }
+    yield* toRows(parser.end());
+  }
+}
+
+/**
+ * Records to write as rows; a parsed XML document's rows are the records under its element
+ */
+function findRows(data: FNode): FNode[] {
+  const element = documentElement(data);
+  if (element === data && data.type === FNodeType.RECORD) return [data];
+  return element.children?.filter(child => child.type === FNodeType.RECORD) || [];
+}
+
+function fieldsOf(row: FNode): FNode[] {
+  return row.children?.filter(child =>
+    child.type === FNodeType.FIELD || child.type === FNodeType.VALUE
+  ) || [];
+}
+
+/**
+ * Column names in first-seen order; a name repeated within a row keeps one column per occurrence
+ */
+function collectHeaders(rows: FNode[]): string[] {
+  const headers: string[] = [];
+  const columns = new Map<string, number>();
+  for (const row of rows) {
+    const occurrences = new Map<string, number>();
+    for (const field of fieldsOf(row)) {
+      const occurrence = (occurrences.get(field.name) ?? 0) + 1;
+      occurrences.set(field.name, occurrence);
+      if (occurrence > (columns.get(field.name) ?? 0)) {
+        columns.set(field.name, occurrence);
+        headers.push(field.name);
+      }
+    }
+  }
+  return headers;
+}
+
+/**
+ * Lay out a row's values in header order; the n-th column of a repeated name takes the
+ * n-th field of that name
+ */
+function rowValues(row: FNode, headers: string[]): string[] {
+  const fields = new Map<string, FNode[]>();
+  for (const field of fieldsOf(row)) {
+    fields.set(field.name, [...(fields.get(field.name) || []), field]);
+  }
+
+  const used = new Map<string, number>();
+  return headers.map(header => {
+    const occurrence = used.get(header) ?? 0;
+    used.set(header, occurrence + 1);
+    return formatValue(fields.get(header)?.[occurrence]?.value);
+  });
+}
+
+/**
+ * CSV output adapter - converts FNode rows to a two-dimensional array of strings
+ */
+class CsvOutputAdapter implements OutputAdapter {
+  constructor(private options: CsvAdapterOptions = {}) {}
+
+  handle(message: Message): string[][] {
+    const rows = findRows(message.data);
+    const headerOption = this.options.headers ?? true;
+
+    if (headerOption === false) {
+      return rows.map(row => fieldsOf(row).map(field => formatValue(field.value)));
+    }
+
+    // Without rows, the headers read by CsvAdapter.string() keep a header-only file intact
+    const headers = Array.isArray(headerOption)
+      ? headerOption
+      : rows.length > 0 ? collectHeaders(rows) : message.metadata.csv?.headers ?? [];
+    return [headers, ...rows.map(row => rowValues(row, headers))];
+  }
+}
+
+/**
+ * CSV string output adapter - serializes FNode rows as RFC 4180 text
+ */
+class CsvStringOutputAdapter implements OutputAdapter {
+  constructor(private options: CsvAdapterOptions = {}) {}
+
+  handle(message: Message): string {
+    const rows = new CsvOutputAdapter(this.options).handle(message);
+    const newline = this.options.newline ?? '\r\n';
+    const text = rows.map(row => formatCsvRecord(row, this.options)).join(newline);
+
+    return (this.options.bom ? BOM : '') + (text ? text + newline : '');
+  }
+}
+
+/**
+ * CSV streaming output adapter - writes each row to a sink as it arrives.
+ * Without explicit headers, the first row's field names become the header line.
+ * end() resolves to the number of rows written.
+ */
+class CsvStreamOutputAdapter implements StreamOutputAdapter<number> {
+  private headers: string[] | null = null;
+  private rowCount = 0;
+
+  constructor(
+    private sink: WritableSink,
+    private options: CsvAdapterOptions = {}
+  ) {}
+
+  async write(message: Message): Promise<void> {
+    for (const row of findRows(message.data)) {
+      if (this.headers === null) {
+        await this.writeHeaders(collectHeaders([row]));
+      }
+
+      const values = this.headers!.length > 0
+        ? rowValues(row, this.headers!)
+        : fieldsOf(row).map(field => formatValue(field.value));
+
+      await this.writeLine(formatCsvRecord(values, this.options));
+      this.rowCount++;
+    }
+  }
+
+  async end(): Promise<number> {
+    if (this.headers === null && Array.isArray(this.options.headers)) {
+      await this.writeHeaders([]);
+    }
+    return this.rowCount;
+  }
+
+  private async writeHeaders(firstRowHeaders: string[]): Promise<void> {
+    const headerOption = this.options.headers ?? true;
+    this.headers = Array.isArray(headerOption) ? headerOption : headerOption ? firstRowHeaders : [];
+
+    if (this.options.bom) {
+      await writeToSink(this.sink, BOM);
+    }
+    if (headerOption !== false) {
+      await this.writeLine(formatCsvRecord(this.headers, this.options));
+    }
+  }
+
+  private writeLine(line: string): Promise<void> {
+    return writeToSink(this.sink, line + (this.options.newline ?? '\r\n'));
+  }
+}
+
+/**
+ * Format a single record as a CSV line, quoting fields where required
+ */
+export function formatCsvRecord(record: string[], options: CsvAdapterOptions = {}): string {
+  const delimiter = options.delimiter ?? ',';
+  const quote = options.quote ?? '"';
+
+  return record.map(value => {
+    const needsQuotes = options.quoteAll ||
+      value.includes(delimiter) ||
+      value.includes(quote) ||
+      value.includes('\n') ||
+      value.includes('\r');
+
+    return needsQuotes
+      ? quote + value.split(quote).join(quote + quote) + quote
+      : value;
+  }).join(delimiter);
+}
+
+/**
+ * Main CsvAdapter class with static factory methods
+ */
+export class CsvAdapter {
+  /**
+   * Create input adapter from CSV string
+   */
+  static string(csvString: string, options?: CsvAdapterOptions): InputAdapter {
+    return new CsvStringInputAdapter(csvString, options);
+  }
+
+  /**
+   * Create streaming input adapter from text or byte chunks (e.g. a Node Readable)
+   */
+  static stream(source: StreamSource<string | Uint8Array>, options?: CsvAdapterOptions): StreamInputAdapter {
+    return new CsvStreamInputAdapter(source, options);
+  }
+
+  /**
+   * Create output adapter that returns rows as string arrays
+   */
+  static output(options?: CsvAdapterOptions): OutputAdapter {
+    return new CsvOutputAdapter(options);
+  }
+
+  /**
+   * Create output adapter that returns CSV string
+   */
+  static stringify(options?: CsvAdapterOptions): OutputAdapter {
+    return new CsvStringOutputAdapter(options);
+  }
+
+  /**
+   * Create streaming output adapter that writes CSV lines to a sink
+   */
+  static writer(sink: WritableSink, options?: CsvAdapterOptions): StreamOutputAdapter<number> {
+    return new CsvStreamOutputAdapter(sink, options);
+  }
+}
@@ -1,2 +1,12 @@
 // src/adapters/index.ts
-export { JsonAdapter, JsonAdapterOptions } from './json-adapter.js';
\ No newline at end of file
+export {
+  JsonAdapter,
+  JsonAdapterOptions,
+  JsonTypedValues,
+  JsonReferences,
+  JsonConversionOptions
+} from './json-adapter.js';
+export { CsvAdapter, CsvAdapterOptions } from './csv-adapter.js';
+export { XmlAdapter, XmlAdapterOptions } from './xml-adapter.js';
+export { YamlAdapter, YamlAdapterOptions } from './yaml-adapter.js';
+export { NdjsonAdapter, NdjsonAdapterOptions } from './ndjson-adapter.js';
@@ -1,17 +1,306 @@
 // src/adapters/json-adapter.ts
 import { InputAdapter, OutputAdapter } from '../core/adapter.js';
 import { Message } from '../core/message.js';
-import { FNode, FNodeType, createFNode, Primitive } from '../core/fnode.js';
+import { FNode, FNodeType, createFNode, Primitive, dataChildren, documentElement, objectFields } from '../core/fnode.js';
 import { createMessageFromFNode } from '../core/message.js';
+import { formatValue, inferValueType, isTypedValue, valueTypeOf, parseValue } from '../core/typed-values.js';
+import { sameNode } from '../core/graph.js';
+import { FormatError, GraphError } from '../core/errors.js';
+
+/**
+ * How typed values (timestamps, bigints, decimals, bytes) cross the JSON boundary
+ * - native: as Date, bigint and Uint8Array values; decimals stay digit strings
+ * - string: as ISO 8601 strings, digit strings and base64
+ * - extended: as Extended JSON wrappers ($date, $numberLong, $numberDecimal, $binary),
+ *   which input adapters also read back
+ */
+export type JsonTypedValues = 'native' | 'string' | 'extended';
+
+/**
+ * How shared and cyclic nodes cross the JSON boundary
+ * - error: shared nodes are written in full wherever they occur; a cycle fails with a GraphError
+ * - ref: a node already written becomes {"$ref": id} when it has an id (written as "$id"),
+ *   otherwise {"$ref": "#/json/pointer"}; input adapters resolve both back to shared nodes
+ */
+export type JsonReferences = 'error' | 'ref';
+
+/**
+ * Options shared by jsonToFNode and fnodeToJson
+ */
+export interface JsonConversionOptions {
+  /** Typed value representation (default 'native' for objects, 'string' for JSON text) */
+  typedValues?: JsonTypedValues;
+  
+  /** Shared and cyclic node handling (default 'error') */
+  references?: JsonReferences;
+}
 
 /**
  * JSON adapter options
  */
-export interface JsonAdapterOptions {
+export interface JsonAdapterOptions extends JsonConversionOptions {
   pretty?: boolean;
   indent?: number;
-  replacer?: (key: string, value: any) => any;
-  reviver?: (key: string, value: any) => any;
+  replacer?: (key: string, value: unknown) => unknown;
+  reviver?: (key: string, value: unknown) => unknown;
+}
+
+/**
+ * A {"$ref"} object waiting for its target, resolved once the whole input is read
+ */
+interface PendingReference {
+  container: FNode[];
+  index: number;
+  name: string;
+  ref: string;
+}
+
+/**
+ * Convert a JavaScript value to FNode. An object reached twice (shared or cyclic)
+ * becomes one shared node rather than being copied.
+ */
+export function jsonToFNode(data: unknown, name: string = 'root', options: JsonConversionOptions = {}): FNode {
+  const converted = new Map<object, FNode>();
+  const ids = new Map<string, FNode>();
+  const pending: PendingReference[] = [];
+
+  const convert = (value: unknown, key: string, container?: FNode[]): FNode => {
+    if (value === null) {
+      return createFNode(FNodeType.VALUE, key, null);
+    }
+
+    if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+      return createFNode(FNodeType.VALUE, key, value as Primitive);
+    }
+
+    if (value instanceof ArrayBuffer) {
+      return convert(new Uint8Array(value), key);
+    }
+    if (ArrayBuffer.isView(value) && !(value instanceof Uint8Array)) {
+      return convert(new Uint8Array(value.buffer, value.byteOffset, value.byteLength), key);
+    }
+    if (isTypedValue(value)) {
+      return createFNode(FNodeType.VALUE, key, value, inferValueType(value));
+    }
+
+    if (typeof value !== 'object') {
+      return createFNode(FNodeType.VALUE, key, String(value));
+    }
+
+    if (options.typedValues === 'extended') {
+      const typed = fromExtendedJson(value, key);
+      if (typed) return typed;
+    }
+
+    if (options.references === 'ref' && container && isReference(value)) {
+      pending.push({ container, index: container.length, name: key, ref: value.$ref });
+      return createFNode(FNodeType.VALUE, key, null);
+    }
+
+    const existing = converted.get(value);
+    if (existing) return aliasOf(existing, key);
+
+    // Children are filled into the registered node's array, so a cycle back to it (or
+    // an alias under another name) shares them
+    const children: FNode[] = [];
+    const node: FNode = Array.isArray(value)
+      ? { type: FNodeType.COLLECTION, name: key, children }
+      : { type: FNodeType.RECORD, name: key, children };
+    converted.set(value, node);
+
+    const entries: Array<[string, unknown]> = Array.isArray(value)
+      ? value.map((item, index) => [index.toString(), item])
+      : Object.entries(value);
+    for (const [childKey, child] of entries) {
+      if (options.references === 'ref' && childKey === '$id' && !Array.isArray(value)) {
+        node.id = String(child);
+        if (!ids.has(node.id)) ids.set(node.id, node);
+        continue;
+      }
+      children.push(convert(child, childKey, children));
+    }
+    return node;
+  };
+
+  const root = convert(data, name);
+
+  for (const reference of pending) {
+    const target = reference.ref.startsWith('#') ? resolvePointer(root, reference.ref) : ids.get(reference.ref);
+    if (!target) {
+      throw new FormatError(`Unresolvable JSON reference "${reference.ref}"`, { ref: reference.ref });
+    }
+    reference.container[reference.index] = aliasOf(target, reference.name);
+  }
+  return root;
+}
+
+function isReference(value: object): value is { $ref: string } {
+  return !Array.isArray(value) && typeof (value as { $ref?: unknown }).$ref === 'string' && Object.keys(value).length === 1;
+}
+
+/**
+ * The node itself when the name matches; otherwise a renamed copy sharing its id, children
+ * and attributes
+ */
+function aliasOf(node: FNode, name: string): FNode {
+  return node.name === name ? node : { ...node, name };
+}
+
+/**
+ * Find the node at a JSON Pointer ("#/items/0/owner") below the root
+ */
+function resolvePointer(root: FNode, pointer: string): FNode | undefined {
+  let current: FNode | undefined = root;
+  for (const segment of pointer.substring(1).split('/').slice(1)) {
+    const key = decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~');
+    const children: FNode[] = current?.children ? dataChildren(current) : [];
+    current = current?.type === FNodeType.COLLECTION ? children[Number(key)] : children.find(child => child.name === key);
+    if (!current) return undefined;
+  }
+  return current;
+}
+
+/**
+ * Convert FNode to a JavaScript value. XML elements read as plain data: attributes become
+ * `@name` keys, text beside attributes `#text`, and repeated child elements one array.
+ */
+export function fnodeToJson(node: FNode, options: JsonConversionOptions = {}): unknown {
+  const typedValues = options.typedValues ?? 'native';
+  const references = options.references ?? 'error';
+
+  // Containers are identified by their children array, which aliases share
+  const identity = (current: FNode): object => current.children ?? current;
+  const ancestors: FNode[] = [];
+  const written = new Map<object | string, string>();
+
+  const convert = (current: FNode, pointer: string): unknown => {
+    const container = current.type === FNodeType.COLLECTION || current.type === FNodeType.RECORD;
+
+    if (container) {
+      const ref = written.get(identity(current)) ?? (current.id !== undefined ? written.get(`id:${current.id}`) : undefined);
+      if (references === 'ref' && ref !== undefined) return { $ref: ref };
+
+      if (ancestors.some(ancestor => identity(ancestor) === identity(current) || sameNode(ancestor, current))) {
+        throw new GraphError(`Cycle at "${pointer || '/'}"; use references: 'ref' to write it as a $ref`, { path: pointer || '/' });
+      }
+    }
+
+    // Handle primitive values
+    if (current.type === FNodeType.VALUE) {
+      return jsonValue(current, typedValues);
+    }
+
+    // Handle collections (arrays)
+    if (current.type === FNodeType.COLLECTION) {
+      if (!current.children) return [];
+      return within(current, pointer, () =>
+        dataChildren(current).map((child, index) => convert(child, `${pointer}/${index}`))
+      );
+    }
+
+    // Handle records (objects); XML attributes become "@name" keys and repeated elements arrays
+    if (current.type === FNodeType.RECORD || current.attributes?.length) {
+      return within(current, pointer, () => {
+        const obj: Record<string, unknown> = {};
+        if (references === 'ref' && current.id !== undefined) obj.$id = current.id;
+
+        for (const { name, nodes } of objectFields(current)) {
+          const path = `${pointer}/${escapePointer(name)}`;
+          obj[name] = nodes.length > 1
+            ? nodes.map((child, index) => convert(child, `${path}/${index}`))
+            : convert(nodes[0], path);
+        }
+        return obj;
+      });
+    }
+
+    // Handle fields (object properties)
+    if (current.type === FNodeType.FIELD) {
+      if (current.children && current.children.length > 0) {
+        return convert(current.children[0], pointer);
+      }
+      return jsonValue(current, typedValues);
+    }
+
+    // Default case
+    return jsonValue(current, typedValues);
+  };
+
+  // Records the container as written (by $id when it carries one) while converting below it
+  const within = <T>(current: FNode, pointer: string, body: () => T): T => {
+    const ref = current.type === FNodeType.RECORD && current.id !== undefined ? current.id : `#${pointer}`;
+    written.set(identity(current), ref);
+    if (current.id !== undefined) written.set(`id:${current.id}`, ref);
+
+    ancestors.push(current);
+    try {
+      return body();
+    } finally {
+      ancestors.pop();
+    }
+  };
+
+  // A parsed XML document is written as its element, keyed by the element's name
+  const element = documentElement(node);
+  if (element !== node) {
+    return { [element.name]: convert(element, `/${escapePointer(element.name)}`) };
+  }
+
+  return convert(node, '');
+}
+
+function escapePointer(name: string): string {
+  return name.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+/**
+ * A leaf value in the requested typed value representation
+ */
+function jsonValue(node: FNode, typedValues: JsonTypedValues): unknown {
+  const value = node.value;
+  if (typedValues === 'native' || value === null || value === undefined) return value;
+
+  if (typedValues === 'string') {
+    return isTypedValue(value) ? formatValue(value) : value;
+  }
+
+  switch (valueTypeOf(node)) {
+    case 'timestamp': return { $date: formatValue(value) };
+    case 'bigint': return { $numberLong: formatValue(value) };
+    case 'decimal': return { $numberDecimal: formatValue(value) };
+    case 'bytes': return { $binary: { base64: formatValue(value), subType: '00' } };
+    default: return value;
+  }
+}
+
+/**
+ * Read an Extended JSON wrapper as a typed value node
+ */
+function fromExtendedJson(data: object, name: string): FNode | undefined {
+  if (Array.isArray(data)) return undefined;
+
+  const keys = Object.keys(data);
+  if (keys.length !== 1) return undefined;
+
+  const wrapped = (data as Record<string, unknown>)[keys[0]];
+  switch (keys[0]) {
+    case '$date': {
+      // Canonical form nests the epoch milliseconds as { $numberLong }
+      const epoch = typeof wrapped === 'object' && wrapped !== null ? Number((wrapped as { $numberLong?: unknown }).$numberLong) : undefined;
+      const value = epoch !== undefined ? new Date(epoch) : parseValue(String(wrapped), 'timestamp');
+      return createFNode(FNodeType.VALUE, name, value, 'timestamp');
+    }
+    case '$numberLong':
+      return createFNode(FNodeType.VALUE, name, parseValue(String(wrapped), 'bigint'), 'bigint');
+    case '$numberDecimal':
+      return createFNode(FNodeType.VALUE, name, String(wrapped), 'decimal');
+    case '$binary': {
+      const base64 = typeof wrapped === 'object' && wrapped !== null ? (wrapped as { base64?: unknown }).base64 : wrapped;
+      return createFNode(FNodeType.VALUE, name, parseValue(String(base64), 'bytes'), 'bytes');
+    }
+    default:
+      return undefined;
+  }
 }
 
 /**
@@ -19,12 +308,12 @@ export interface JsonAdapterOptions {
  */
 class JsonInputAdapter implements InputAdapter {
   constructor(
-    private data: any,
+    private data: unknown,
     private options: JsonAdapterOptions = {}
   ) {}
 
   handle(message: Message): Message {
-    const fnode = this.convertToFNode(this.data);
+    const fnode = jsonToFNode(this.data, 'root', this.options);
     return {
       ...message,
       data: fnode,
@@ -38,40 +327,6 @@ class JsonInputAdapter implements InputAdapter {
       }
     };
   }
-
-  private convertToFNode(data: any, name: string = 'root'): FNode {
-    if (data === null) {
-      return createFNode(FNodeType.VALUE, name, null);
-    }
-
-    if (typeof data === 'string' || typeof data === 'number' || typeof data === 'boolean') {
-      return createFNode(FNodeType.VALUE, name, data as Primitive);
-    }
-
-    if (Array.isArray(data)) {
-      const children = data.map((item, index) => 
-        this.convertToFNode(item, index.toString())
-      );
-      return {
-        type: FNodeType.COLLECTION,
-        name,
-        children
-      };
-    }
-
-    if (typeof data === 'object') {
-      const children = Object.entries(data).map(([key, value]) =>
-        this.convertToFNode(value, key)
-      );
-      return {
-        type: FNodeType.RECORD,
-        name,
-        children
-      };
-    }
-
-    return createFNode(FNodeType.VALUE, name, String(data));
-  }
 }
 
 /**
@@ -80,8 +335,11 @@ class JsonInputAdapter implements InputAdapter {
 class JsonOutputAdapter implements OutputAdapter {
   constructor(private options: JsonAdapterOptions = {}) {}
 
-  handle(message: Message): any {
-    const result = this.convertFromFNode(message.data);
+  handle(message: Message): unknown {
+    const result = fnodeToJson(message.data, {
+      ...this.options,
+      typedValues: this.options.typedValues ?? (this.options.pretty ? 'string' : 'native')
+    });
     
     if (this.options.pretty) {
       return JSON.stringify(result, this.options.replacer, this.options.indent || 2);
@@ -89,42 +347,6 @@ class JsonOutputAdapter implements OutputAdapter {
     
     return result;
   }
-
-  private convertFromFNode(node: FNode): any {
-    // Handle primitive values
-    if (node.type === FNodeType.VALUE) {
-      return node.value;
-    }
-
-    // Handle collections (arrays)
-    if (node.type === FNodeType.COLLECTION) {
-      if (!node.children) return [];
-      return node.children.map(child => this.convertFromFNode(child));
-    }
-
-    // Handle records (objects)
-    if (node.type === FNodeType.RECORD) {
-      if (!node.children) return {};
-      const obj: Record<string, any> = {};
-      
-      for (const child of node.children) {
-        obj[child.name] = this.convertFromFNode(child);
-      }
-      
-      return obj;
-    }
-
-    // Handle fields (object properties)
-    if (node.type === FNodeType.FIELD) {
-      if (node.children && node.children.length > 0) {
-        return this.convertFromFNode(node.children[0]);
-      }
-      return node.value;
-    }
-
-    // Default case
-    return node.value;
-  }
 }
 
 /**
@@ -154,7 +376,7 @@ class JsonStringOutputAdapter implements OutputAdapter {
   constructor(private options: JsonAdapterOptions = {}) {}
 
   handle(message: Message): string {
-    const outputAdapter = new JsonOutputAdapter(this.options);
+    const outputAdapter = new JsonOutputAdapter({ ...this.options, typedValues: this.options.typedValues ?? 'string' });
     const result = outputAdapter.handle(message);
     
     if (typeof result === 'string') {
@@ -172,7 +394,7 @@ export class JsonAdapter {
   /**
    * Create input adapter from JavaScript object
    */
-  static object(data: any, options?: JsonAdapterOptions): InputAdapter {
+  static object(data: unknown, options?: JsonAdapterOptions): InputAdapter {
     return new JsonInputAdapter(data, options);
   }
 
@@ -210,14 +432,14 @@ export class JsonAdapter {
   /**
    * Create input adapter with custom reviver function
    */
-  static parse(jsonString: string, reviver?: (key: string, value: any) => any): InputAdapter {
+  static parse(jsonString: string, reviver?: (key: string, value: unknown) => unknown): InputAdapter {
     return new JsonStringInputAdapter(jsonString, { reviver });
   }
 
   /**
    * Create output adapter with custom replacer function
    */
-  static serialize(replacer?: (key: string, value: any) => any, space?: number): OutputAdapter {
+  static serialize(replacer?: (key: string, value: unknown) => unknown, space?: number): OutputAdapter {
     return new JsonStringOutputAdapter({ 
       replacer, 
       indent: space,
@@ -0,0 +1,75 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { NdjsonAdapter, NdjsonLineError } from './ndjson-adapter.js';
+import { JsonAdapter } from './json-adapter.js';
+import { PipeFitter } from '../core/pipefitter.js';
+import { AdapterError } from '../core/errors.js';
+import { FNode } from '../core/fnode.js';
+import { Message } from '../core/message.js';
+import { load } from '../test-helpers.js';
+
+function loadNdjson(ndjson: string, options = {}): Message {
+  return load(NdjsonAdapter.string(ndjson, options));
+}
+
+async function collect(source: AsyncIterable<FNode>): Promise<unknown[]> {
+  const items: unknown[] = [];
+  for await (const node of source) {
+    items.push(new PipeFitter().from(node).to(JsonAdapter.output()));
+  }
+  return items;
+}
+
+test('reads one item per non-blank line', () => {
+  const message = loadNdjson('{"a":1}\r\n\n[2,3]\n"x"\n');
+
+  assert.deepEqual(new PipeFitter().from(message.data).to(JsonAdapter.output()), [{ a: 1 }, [2, 3], 'x']);
+  assert.equal(message.metadata.ndjson.itemCount, 3);
+});
+
+test('reports every malformed line with its number', () => {
+  assert.throws(() => loadNdjson('{"a":1}\n{oops\n\n[\n'), (error: unknown) => {
+    assert.ok(error instanceof AdapterError);
+    assert.match(error.message, /malformed line\(s\) 2, 4/);
+    return true;
+  });
+});
+
+test('skips malformed lines when skipInvalid is set', () => {
+  const message = loadNdjson('{"a":1}\n{oops\n{"a":2}\n', { skipInvalid: true });
+  const skipped: NdjsonLineError[] = message.metadata.ndjson.skipped;
+
+  assert.equal(message.data.children!.length, 2);
+  assert.deepEqual(skipped.map(error => [error.line, error.text]), [[2, '{oops']]);
+});
+
+test('writes one compact line per item', () => {
+  const output = new PipeFitter()
+    .from(JsonAdapter.string('[{"a": 1}, {"b": [true, null]}]'))
+    .to(NdjsonAdapter.stringify({ newline: '\r\n' }));
+
+  assert.equal(output, '{"a":1}\r\n{"b":[true,null]}\r\n');
+});
+
+test('streams lines split across text and byte chunks', async () => {
+  const bytes = new TextEncoder().encode('{"e":"é"}\n');
+  const chunks = ['{"a":', '1}\n{"b"', ':2}\n', bytes.slice(0, 8), bytes.slice(8), '{"c":3}'];
+
+  assert.deepEqual(await collect(NdjsonAdapter.stream(chunks).stream()), [{ a: 1 }, { b: 2 }, { e: 'é' }, { c: 3 }]);
+});
+
+test('fails a stream at the first malformed line unless skipInvalid is set', async () => {
+  await assert.rejects(collect(NdjsonAdapter.stream(['{"a":1}\n', 'nope\n']).stream()), /malformed line\(s\) 2/);
+  assert.deepEqual(await collect(NdjsonAdapter.stream(['nope\n{"a":1}\n'], { skipInvalid: true }).stream()), [{ a: 1 }]);
+});
+
+test('writer sends one line per message and counts them', async () => {
+  const written: string[] = [];
+  const writer = NdjsonAdapter.writer({ write: (chunk: string) => written.push(chunk) });
+
+  await writer.write({ data: loadNdjson('{"a":1}\n').data.children![0] } as Message);
+  await writer.write({ data: loadNdjson('[1]\n').data.children![0] } as Message);
+
+  assert.deepEqual(written, ['{"a":1}\n', '[1]\n']);
+  assert.equal(writer.end(), 2);
+});
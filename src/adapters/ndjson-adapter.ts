@@ -0,0 +1,244 @@
+// src/adapters/ndjson-adapter.ts
+import { InputAdapter, OutputAdapter } from '../core/adapter.js';
+import { Message } from '../core/message.js';
+import { FNode, FNodeType, dataChildren } from '../core/fnode.js';
+import { AdapterError } from '../core/errors.js';
+import { jsonToFNode, fnodeToJson, JsonTypedValues, JsonReferences } from './json-adapter.js';
+import {
+  StreamSource,
+  StreamInputAdapter,
+  StreamOutputAdapter,
+  WritableSink,
+  decodeText,
+  writeToSink
+} from '../core/stream.js';
+
+/**
+ * NDJSON (JSON Lines) adapter options
+ */
+export interface NdjsonAdapterOptions {
+  /** Skip malformed lines instead of failing; they are listed in metadata.ndjson.skipped */
+  skipInvalid?: boolean;
+  /** Line terminator used when writing (default "\n") */
+  newline?: string;
+  replacer?: (key: string, value: unknown) => unknown;
+  reviver?: (key: string, value: unknown) => unknown;
+  /** Typed value representation in lines (default 'string'; 'extended' is also read back) */
+  typedValues?: Exclude<JsonTypedValues, 'native'>;
+  /** Shared and cyclic node handling within each line (default 'error') */
+  references?: JsonReferences;
+}
+
+/**
+ * A line that could not be parsed
+ */
+export interface NdjsonLineError {
+  /** 1-based line number */
+  line: number;
+  error: string;
+  text: string;
+}
+
+/**
+ * Parse a single NDJSON line into an FNode, or describe why it failed
+ */
+export function parseNdjsonLine(
+  text: string,
+  line: number,
+  name: string,
+  options: NdjsonAdapterOptions = {}
+): { node?: FNode; error?: NdjsonLineError } {
+  try {
+    return { node: jsonToFNode(JSON.parse(text, options.reviver), name, options) };
+  } catch (error) {
+    return {
+      error: {
+        line,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        text
+      }
+    };
+  }
+}
+
+/**
+ * Build the AdapterError reported for malformed lines
+ */
+export function ndjsonError(errors: NdjsonLineError[]): AdapterError {
+  const lines = errors.map(error => error.line).join(', ');
+  return new AdapterError(
+    `Failed to parse NDJSON: malformed line(s) ${lines}`,
+    { errors }
+  );
+}
+
+/**
+ * NDJSON string input adapter - one item per non-blank line
+ */
+class NdjsonStringInputAdapter implements InputAdapter {
+  constructor(
+    private ndjsonString: string,
+    private options: NdjsonAdapterOptions = {}
+  ) {}
+
+  handle(message: Message): Message {
+    const items: FNode[] = [];
+    const errors: NdjsonLineError[] = [];
+
+    this.ndjsonString.split(/\r?\n/).forEach((text, index) => {
+      if (!text.trim()) return;
+
+      const result = parseNdjsonLine(text, index + 1, String(items.length), this.options);
+      if (result.node) {
+        items.push(result.node);
+      } else {
+        errors.push(result.error!);
+      }
+    });
+
+    if (errors.length > 0 && !this.options.skipInvalid) {
+      throw ndjsonError(errors);
+    }
+
+    return {
+      ...message,
+      data: {
+        type: FNodeType.COLLECTION,
+        name: 'root',
+        children: items
+      },
+      metadata: {
+        ...message.metadata,
+        source: {
+          format: 'application/x-ndjson',
+          adapter: 'NdjsonStringInputAdapter',
+          processedAt: new Date().toISOString()
+        },
+        ndjson: {
+          itemCount: items.length,
+          skipped: errors
+        }
+      }
+    };
+  }
+}
+
+/**
+ * NDJSON streaming input adapter - yields one item per line as text arrives
+ */
+class NdjsonStreamInputAdapter implements StreamInputAdapter {
+  constructor(
+    private source: StreamSource<string | Uint8Array>,
+    private options: NdjsonAdapterOptions = {}
+  ) {}
+
+  async *stream(): AsyncIterable<FNode> {
+    let buffer = '';
+    let line = 0;
+    let index = 0;
+
+    const parse = (text: string): FNode | undefined => {
+      line++;
+      if (!text.trim()) return undefined;
+
+      const result = parseNdjsonLine(text.replace(/\r$/, ''), line, String(index), this.options);
+      if (result.error) {
+        if (this.options.skipInvalid) return undefined;
+        throw ndjsonError([result.error]);
+      }
+      index++;
+      return result.node;
+    };
+
+    for await (const chunk of decodeText(this.source)) {
+      const lines = (buffer + chunk).split('\n');
+      buffer = lines.pop()!;
+
+      for (const text of lines) {
+        const node = parse(text);
+        if (node) yield node;
+      }
+    }
+
+    const last = parse(buffer);
+    if (last) yield last;
+  }
+}
+
+/**
+ * Serialize one FNode item as a compact JSON line
+ */
+export function formatNdjsonLine(node: FNode, options: NdjsonAdapterOptions = {}): string {
+  return JSON.stringify(fnodeToJson(node, { ...options, typedValues: options.typedValues ?? 'string' }), options.replacer);
+}
+
+/**
+ * NDJSON string output adapter - one compact line per item
+ */
+class NdjsonStringOutputAdapter implements OutputAdapter {
+  constructor(private options: NdjsonAdapterOptions = {}) {}
+
+  handle(message: Message): string {
+    const data = message.data;
+    const items = data.type === FNodeType.COLLECTION ? dataChildren(data) : [data];
+
+    const newline = this.options.newline ?? '\n';
+    return items.map(item => formatNdjsonLine(item, this.options) + newline).join('');
+  }
+}
+
+/**
+ * NDJSON streaming output adapter - writes one line per item message to a sink.
+ * end() resolves to the number of lines written.
+ */
+class NdjsonStreamOutputAdapter implements StreamOutputAdapter<number> {
+  private lineCount = 0;
+
+  constructor(
+    private sink: WritableSink,
+    private options: NdjsonAdapterOptions = {}
+  ) {}
+
+  async write(message: Message): Promise<void> {
+    const newline = this.options.newline ?? '\n';
+    await writeToSink(this.sink, formatNdjsonLine(message.data, this.options) + newline);
+    this.lineCount++;
+  }
+
+  end(): number {
+    return this.lineCount;
+  }
+}
+
+/**
+ * Main NdjsonAdapter class with static factory methods
+ */
+export class NdjsonAdapter {
+  /**
+   * Create input adapter from newline-delimited JSON string
+   */
+  static string(ndjsonString: string, options?: NdjsonAdapterOptions): InputAdapter {
+    return new NdjsonStringInputAdapter(ndjsonString, options);
+  }
+
+  /**
+   * Create streaming input adapter from text or byte chunks (e.g. a Node Readable)
+   */
+  static stream(source: StreamSource<string | Uint8Array>, options?: NdjsonAdapterOptions): StreamInputAdapter {
+    return new NdjsonStreamInputAdapter(source, options);
+  }
+
+  /**
+   * Create output adapter that returns newline-delimited JSON string
+   */
+  static stringify(options?: NdjsonAdapterOptions): OutputAdapter {
+    return new NdjsonStringOutputAdapter(options);
+  }
+
+  /**
+   * Create streaming output adapter that writes lines to a sink
+   */
+  static writer(sink: WritableSink, options?: NdjsonAdapterOptions): StreamOutputAdapter<number> {
+    return new NdjsonStreamOutputAdapter(sink, options);
+  }
+}
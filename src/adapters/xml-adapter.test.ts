@@ -0,0 +1,119 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { XmlAdapter } from './xml-adapter.js';
+import { JsonAdapter } from './json-adapter.js';
+import { YamlAdapter } from './yaml-adapter.js';
+import { CsvAdapter } from './csv-adapter.js';
+import { PipeFitter } from '../core/pipefitter.js';
+import { AdapterError, GraphError } from '../core/errors.js';
+import { FNode, FNodeType } from '../core/fnode.js';
+import { load } from '../test-helpers.js';
+
+function parse(xml: string, options = {}): FNode {
+  return load(XmlAdapter.string(xml, options)).data;
+}
+
+function roundTrip(xml: string, options = {}): string {
+  return new PipeFitter().from(XmlAdapter.string(xml, options)).to(XmlAdapter.stringify(options)) as string;
+}
+
+test('round-trips declarations, comments, CDATA, namespaces and attributes unchanged', () => {
+  const xml = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<!DOCTYPE note>',
+    '<n:note xmlns:n="urn:notes" id="1"><!-- first --><to>Tove</to><body><![CDATA[<b>hi</b>]]></body></n:note>'
+  ].join('\n');
+
+  assert.equal(roundTrip(xml), xml);
+});
+
+test('keeps whitespace-only text by default', () => {
+  const xml = '<r>\n  <i>a</i>\n  <i> </i>\n</r>';
+
+  assert.equal(roundTrip(xml), xml);
+});
+
+test('drops whitespace-only text when preserveWhitespace is false', () => {
+  assert.equal(roundTrip('<r>\n  <i>a</i>\n</r>', { preserveWhitespace: false }), '<r><i>a</i></r>');
+});
+
+test('decodes predefined and numeric character references', () => {
+  const root = parse('<r a="&lt;&#x41;&quot;">&amp;&#66;&gt;</r>').children![0];
+
+  assert.equal(root.value, '&B>');
+  assert.equal(root.attributes![0].value, '<A"');
+});
+
+test('writes undeclared entity references back unchanged', () => {
+  assert.equal(roundTrip('<p>a&nbsp;b&copy;</p>'), '<p>a&nbsp;b&copy;</p>');
+});
+
+test('rejects undeclared entity references in attribute values', () => {
+  assert.throws(() => parse('<r a="&nbsp;"/>'), /Undeclared entity &nbsp; in attribute value at line 1, column 7/);
+});
+
+test('rejects character references outside the XML character range', () => {
+  assert.throws(() => parse('<r>\n&#99999999;</r>'), (error: unknown) =>
+    error instanceof AdapterError && /Invalid character reference &#99999999; at line 2, column 1/.test(error.message)
+  );
+  assert.throws(() => parse('<r>&#0;</r>'), AdapterError);
+});
+
+test('reports malformed documents with their position', () => {
+  assert.throws(() => parse('<a><b></a>'), /Mismatched closing tag <\/a> for <b> at line 1/);
+  assert.throws(() => parse('<a/><b/>'), /Multiple root elements/);
+  assert.throws(() => parse('<a x="1" x="2"/>'), /Duplicate attribute x/);
+});
+
+test('writes elements of a JSON array as <item>', () => {
+  const xml = new PipeFitter().from(JsonAdapter.string('{"tags":["a","b"]}')).to(XmlAdapter.stringify());
+
+  assert.equal(xml, '<root><tags><item>a</item><item>b</item></tags></root>');
+});
+
+test('rejects names that are not valid XML names instead of renaming them', () => {
+  const data: FNode = {
+    type: FNodeType.RECORD,
+    name: 'root',
+    children: [{ type: FNodeType.VALUE, name: 'first name', value: 'Ada' }]
+  };
+
+  assert.throws(() => new PipeFitter().from(data).to(XmlAdapter.stringify()), /Cannot write "first name" as an XML name/);
+});
+
+test('JSON output keeps the root element name, attributes and repeated elements', () => {
+  const xml = '<lib id="x"><book lang="en"><title>A</title></book><book><title>B</title></book><note lang="en">hi</note></lib>';
+
+  assert.deepEqual(new PipeFitter().from(XmlAdapter.string(xml)).to(JsonAdapter.output()), {
+    lib: {
+      '@id': 'x',
+      book: [{ '@lang': 'en', title: 'A' }, { title: 'B' }],
+      note: { '@lang': 'en', '#text': 'hi' }
+    }
+  });
+});
+
+test('YAML output keeps the root element name, attributes and repeated elements', () => {
+  const xml = '<lib id="x"><book><title>A</title></book><book><title>B</title></book></lib>';
+
+  assert.equal(
+    new PipeFitter().from(XmlAdapter.string(xml)).to(YamlAdapter.stringify()),
+    'lib:\n  "@id": x\n  book:\n    - title: A\n    - title: B\n'
+  );
+});
+
+test('CSV output writes the records under the document element as rows', () => {
+  const xml = '<rows>\n  <row><a>1</a><b>x</b></row>\n  <row><a>2</a><b>y</b></row>\n</rows>';
+
+  assert.equal(new PipeFitter().from(XmlAdapter.string(xml)).to(CsvAdapter.stringify()), 'a,b\r\n1,x\r\n2,y\r\n');
+});
+
+test('cyclic data fails with a GraphError naming the cycle', () => {
+  const book: Record<string, unknown> = { title: 'A' };
+  book.self = book;
+
+  assert.throws(
+    () => new PipeFitter().from(JsonAdapter.object({ book })).to(XmlAdapter.stringify()),
+    (error: unknown) => error instanceof GraphError && (error.context as { path: string }).path === 'root/book/self/self'
+  );
+});
@@ -0,0 +1,590 @@
+// src/adapters/xml-adapter.ts
+import { InputAdapter, OutputAdapter } from '../core/adapter.js';
+import { Message } from '../core/message.js';
+import { FNode, FNodeType, Primitive, isFormattingWhitespace } from '../core/fnode.js';
+import { AdapterError, GraphError } from '../core/errors.js';
+import { findCycle } from '../core/graph.js';
+import { formatValue } from '../core/typed-values.js';
+
+/**
+ * XML adapter options
+ */
+export interface XmlAdapterOptions {
+  /** Indent nested elements when writing */
+  pretty?: boolean;
+  indent?: number;
+  /** Keep whitespace-only text nodes when parsing (default true); false drops indentation */
+  preserveWhitespace?: boolean;
+  /**
+   * CDATA handling:
+   * - preserve: keep CDATA sections as "#cdata" VALUE nodes (default)
+   * - text: merge CDATA into ordinary text on input, escape it on output
+   * - auto: as preserve, and also write text containing markup characters as CDATA
+   */
+  cdata?: 'preserve' | 'text' | 'auto';
+  /** Prepend an XML declaration when the document does not carry one */
+  declaration?: boolean;
+}
+
+const XML_NS = 'http://www.w3.org/XML/1998/namespace';
+const XMLNS_NS = 'http://www.w3.org/2000/xmlns/';
+
+const TEXT_NODE = '#text';
+const CDATA_NODE = '#cdata';
+const COMMENT_NODE = '#comment';
+const DOCTYPE_NODE = '#doctype';
+const ENTITY_NODE = '#entity';
+const DOCUMENT_NODE = '#document';
+
+const ENTITIES: Record<string, string> = {
+  lt: '<',
+  gt: '>',
+  amp: '&',
+  quot: '"',
+  apos: "'"
+};
+
+interface RawAttribute {
+  qname: string;
+  value: string;
+}
+
+/**
+ * Split a qualified name into prefix and local name
+ */
+function splitQName(qname: string): { prefix?: string; local: string } {
+  const index = qname.indexOf(':');
+  return index === -1
+    ? { local: qname }
+    : { prefix: qname.substring(0, index), local: qname.substring(index + 1) };
+}
+
+const REFERENCE = /&(#x[0-9a-fA-F]+|#[0-9]+|[A-Za-z_][\w.-]*);/g;
+
+/**
+ * Check that a code point may appear in an XML document
+ */
+function isXmlChar(code: number): boolean {
+  return code === 0x9 || code === 0xa || code === 0xd ||
+    (code >= 0x20 && code <= 0xd7ff) ||
+    (code >= 0xe000 && code <= 0xfffd) ||
+    (code >= 0x10000 && code <= 0x10ffff);
+}
+
+/**
+ * Recursive descent XML parser producing FNode trees
+ */
+class XmlParser {
+  private pos = 0;
+
+  constructor(
+    private text: string,
+    private options: XmlAdapterOptions = {}
+  ) {}
+
+  parseDocument(): FNode {
+    const children: FNode[] = [];
+    let hasRoot = false;
+
+    if (this.text.charCodeAt(0) === 0xfeff) this.pos = 1;
+
+    while (this.pos < this.text.length) {
+      if (this.startsWith('<?')) {
+        children.push(this.parseInstruction());
+      } else if (this.startsWith('<!--')) {
+        children.push(this.parseComment());
+      } else if (this.startsWith('<!DOCTYPE')) {
+        children.push(this.parseDoctype());
+      } else if (this.startsWith('<')) {
+        if (hasRoot) this.fail('Multiple root elements');
+        children.push(this.parseElement(new Map([['xml', XML_NS]])));
+        hasRoot = true;
+      } else {
+        const start = this.pos;
+        this.pos = this.indexOrEnd('<');
+        if (this.text.substring(start, this.pos).trim()) {
+          this.fail('Text content outside the root element', start);
+        }
+      }
+    }
+
+    if (!hasRoot) this.fail('Document has no root element');
+
+    return {
+      type: FNodeType.COLLECTION,
+      name: DOCUMENT_NODE,
+      children
+    };
+  }
+
+  private parseElement(parentScope: Map<string, string>): FNode {
+    const start = this.pos;
+    this.expect('<');
+    const qname = this.readName();
+    const rawAttributes = this.readAttributes();
+
+    // Namespace declarations apply to the element itself and its attributes
+    let scope = parentScope;
+    for (const attr of rawAttributes) {
+      if (attr.qname === 'xmlns' || attr.qname.startsWith('xmlns:')) {
+        if (scope === parentScope) scope = new Map(parentScope);
+        scope.set(attr.qname === 'xmlns' ? '' : attr.qname.substring(6), attr.value);
+      }
+    }
+
+    const { prefix, local } = splitQName(qname);
+    const element: FNode = {
+      type: FNodeType.RECORD,
+      name: local
+    };
+    const ns = scope.get(prefix ?? '');
+    if (ns) element.ns = ns;
+    if (prefix) element.label = prefix;
+
+    if (rawAttributes.length > 0) {
+      element.attributes = rawAttributes.map(attr => this.createAttribute(attr, scope));
+    }
+
+    if (this.startsWith('/>')) {
+      this.pos += 2;
+      element.children = [];
+      return element;
+    }
+    this.expect('>');
+
+    const children: FNode[] = [];
+    while (!this.startsWith('</')) {
+      if (this.pos >= this.text.length) {
+        this.fail(`Unclosed element <${qname}>`, start);
+      }
+
+      if (this.startsWith('<!--')) {
+        children.push(this.parseComment());
+      } else if (this.startsWith('<![CDATA[')) {
+        this.appendText(children, this.parseCdata());
+      } else if (this.startsWith('<?')) {
+        children.push(this.parseInstruction());
+      } else if (this.startsWith('<')) {
+        children.push(this.parseElement(scope));
+      } else {
+        const textStart = this.pos;
+        this.pos = this.indexOrEnd('<');
+        for (const node of this.parseText(textStart, this.pos)) {
+          if (node.name === TEXT_NODE) this.appendText(children, node);
+          else children.push(node);
+        }
+      }
+    }
+
+    this.pos += 2;
+    const closing = this.readName();
+    if (closing !== qname) {
+      this.fail(`Mismatched closing tag </${closing}> for <${qname}>`);
+    }
+    this.skipWhitespace();
+    this.expect('>');
+
+    const content = this.options.preserveWhitespace === false
+      ? children.filter(child => !isFormattingWhitespace(child))
+      : children;
+
+    // Text-only elements become fields so format-aware lookups can read their value
+    if (content.length === 1 && content[0].name === TEXT_NODE) {
+      element.type = FNodeType.FIELD;
+      element.value = content[0].value;
+    } else {
+      element.children = content;
+    }
+
+    return element;
+  }
+
+  private createAttribute(attr: RawAttribute, scope: Map<string, string>): FNode {
+    const { prefix, local } = splitQName(attr.qname);
+    const node: FNode = {
+      type: FNodeType.ATTRIBUTES,
+      name: local,
+      value: attr.value
+    };
+
+    if (prefix === 'xmlns') {
+      node.ns = XMLNS_NS;
+      node.label = prefix;
+    } else if (prefix) {
+      const ns = scope.get(prefix);
+      if (ns) node.ns = ns;
+      node.label = prefix;
+    }
+
+    return node;
+  }
+
+  /**
+   * Text between markup; references to undeclared entities become "#entity" nodes so they
+   * are written back unchanged
+   */
+  private parseText(start: number, end: number): FNode[] {
+    const raw = this.text.substring(start, end);
+    const nodes: FNode[] = [];
+    let text = '';
+    let last = 0;
+
+    for (const match of raw.matchAll(REFERENCE)) {
+      text += raw.substring(last, match.index);
+      last = match.index! + match[0].length;
+
+      const resolved = this.resolveReference(match[1], start + match.index!);
+      if (resolved !== undefined) {
+        text += resolved;
+        continue;
+      }
+
+      if (text) nodes.push({ type: FNodeType.VALUE, name: TEXT_NODE, value: text });
+      nodes.push({ type: FNodeType.CUSTOM, name: ENTITY_NODE, value: match[1] });
+      text = '';
+    }
+
+    text += raw.substring(last);
+    if (text) nodes.push({ type: FNodeType.VALUE, name: TEXT_NODE, value: text });
+    return nodes;
+  }
+
+  private decodeAttribute(start: number, end: number): string {
+    return this.text.substring(start, end).replace(REFERENCE, (match, entity: string, offset: number) => {
+      const resolved = this.resolveReference(entity, start + offset);
+      if (resolved === undefined) {
+        this.fail(`Undeclared entity ${match} in attribute value`, start + offset);
+      }
+      return resolved;
+    });
+  }
+
+  /**
+   * Resolve a predefined or numeric character reference; undefined for any other entity
+   */
+  private resolveReference(entity: string, at: number): string | undefined {
+    if (entity[0] !== '#') return ENTITIES[entity];
+
+    const code = entity[1] === 'x'
+      ? parseInt(entity.substring(2), 16)
+      : parseInt(entity.substring(1), 10);
+    if (!isXmlChar(code)) this.fail(`Invalid character reference &${entity};`, at);
+    return String.fromCodePoint(code);
+  }
+
+  private appendText(children: FNode[], node: FNode): void {
+    const last = children[children.length - 1];
+    const mergeCdata = this.options.cdata === 'text';
+
+    if (node.name === CDATA_NODE && !mergeCdata) {
+      children.push(node);
+      return;
+    }
+
+    if (last && last.name === TEXT_NODE) {
+      last.value = String(last.value) + String(node.value);
+    } else {
+      children.push({ ...node, name: TEXT_NODE });
+    }
+  }
+
+  private readAttributes(): RawAttribute[] {
+    const attributes: RawAttribute[] = [];
+
+    for (;;) {
+      this.skipWhitespace();
+      if (this.startsWith('>') || this.startsWith('/>')) return attributes;
+      if (this.pos >= this.text.length) this.fail('Unexpected end of input in start tag');
+
+      const qname = this.readName();
+      this.skipWhitespace();
+      this.expect('=');
+      this.skipWhitespace();
+
+      const quote = this.text[this.pos];
+      if (quote !== '"' && quote !== "'") this.fail(`Expected quoted value for attribute ${qname}`);
+      const end = this.text.indexOf(quote, this.pos + 1);
+      if (end === -1) this.fail(`Unterminated value for attribute ${qname}`);
+
+      if (attributes.some(attr => attr.qname === qname)) {
+        this.fail(`Duplicate attribute ${qname}`);
+      }
+      attributes.push({ qname, value: this.decodeAttribute(this.pos + 1, end) });
+      this.pos = end + 1;
+    }
+  }
+
+  private parseComment(): FNode {
+    const end = this.text.indexOf('-->', this.pos + 4);
+    if (end === -1) this.fail('Unterminated comment');
+    const value = this.text.substring(this.pos + 4, end);
+    this.pos = end + 3;
+    return { type: FNodeType.COMMENT, name: COMMENT_NODE, value };
+  }
+
+  private parseCdata(): FNode {
+    const end = this.text.indexOf(']]>', this.pos + 9);
+    if (end === -1) this.fail('Unterminated CDATA section');
+    const value = this.text.substring(this.pos + 9, end);
+    this.pos = end + 3;
+    return { type: FNodeType.VALUE, name: CDATA_NODE, value };
+  }
+
+  private parseInstruction(): FNode {
+    const end = this.text.indexOf('?>', this.pos + 2);
+    if (end === -1) this.fail('Unterminated processing instruction');
+    this.pos += 2;
+    const target = this.readName();
+    const value = this.text.substring(this.pos, end).trim();
+    this.pos = end + 2;
+    return { type: FNodeType.INSTRUCTION, name: target, value };
+  }
+
+  private parseDoctype(): FNode {
+    const start = this.pos + '<!DOCTYPE'.length;
+    let depth = 0;
+    let end = start;
+    for (; end < this.text.length; end++) {
+      const ch = this.text[end];
+      if (ch === '[') depth++;
+      else if (ch === ']') depth--;
+      else if (ch === '>' && depth === 0) break;
+    }
+    if (end >= this.text.length) this.fail('Unterminated DOCTYPE declaration');
+    const value = this.text.substring(start, end).trim();
+    this.pos = end + 1;
+    return { type: FNodeType.CUSTOM, name: DOCTYPE_NODE, value };
+  }
+
+  private readName(): string {
+    const match = /[^\s/>=<"'?!]+/y;
+    match.lastIndex = this.pos;
+    const result = match.exec(this.text);
+    if (!result) this.fail('Expected a name');
+    this.pos += result![0].length;
+    return result![0];
+  }
+
+  private skipWhitespace(): void {
+    while (this.pos < this.text.length && /\s/.test(this.text[this.pos])) this.pos++;
+  }
+
+  private startsWith(token: string): boolean {
+    return this.text.startsWith(token, this.pos);
+  }
+
+  private expect(token: string): void {
+    if (!this.startsWith(token)) this.fail(`Expected "${token}"`);
+    this.pos += token.length;
+  }
+
+  private indexOrEnd(token: string): number {
+    const index = this.text.indexOf(token, this.pos);
+    return index === -1 ? this.text.length : index;
+  }
+
+  private fail(reason: string, at: number = this.pos): never {
+    const before = this.text.substring(0, at).split('\n');
+    const line = before.length;
+    const column = before[before.length - 1].length + 1;
+    throw new AdapterError(`Failed to parse XML: ${reason} at line ${line}, column ${column}`, {
+      line,
+      column
+    });
+  }
+}
+
+/**
+ * XML string input adapter - parses XML text to FNode
+ */
+class XmlStringInputAdapter implements InputAdapter {
+  constructor(
+    private xmlString: string,
+    private options: XmlAdapterOptions = {}
+  ) {}
+
+  handle(message: Message): Message {
+    const document = new XmlParser(this.xmlString, this.options).parseDocument();
+    const root = document.children!.find(child =>
+      child.type === FNodeType.RECORD || child.type === FNodeType.FIELD
+    );
+
+    return {
+      ...message,
+      data: document,
+      metadata: {
+        ...message.metadata,
+        source: {
+          format: 'application/xml',
+          adapter: 'XmlStringInputAdapter',
+          processedAt: new Date().toISOString()
+        },
+        xml: {
+          root: root && (root.label ? `${root.label}:${root.name}` : root.name),
+          namespace: root?.ns
+        }
+      }
+    };
+  }
+}
+
+/**
+ * XML string output adapter - serializes FNode to XML text
+ */
+class XmlStringOutputAdapter implements OutputAdapter {
+  constructor(private options: XmlAdapterOptions = {}) {}
+
+  handle(message: Message): string {
+    const data = message.data;
+    const cycle = findCycle(data);
+    if (cycle) {
+      const path = cycle.join('/');
+      throw new GraphError(`Cycle at "${path}"; XML cannot express cyclic data`, { path });
+    }
+
+    const nodes = data.type === FNodeType.COLLECTION && data.name === DOCUMENT_NODE
+      ? data.children || []
+      : [data];
+
+    const lines = nodes.map(node => this.serializeNode(node, 0));
+    const hasDeclaration = nodes.some(node =>
+      node.type === FNodeType.INSTRUCTION && node.name === 'xml'
+    );
+    if (this.options.declaration && !hasDeclaration) {
+      lines.unshift('<?xml version="1.0" encoding="UTF-8"?>');
+    }
+
+    return lines.join('\n');
+  }
+
+  private serializeNode(node: FNode, depth: number, parent?: FNode): string {
+    switch (node.type) {
+      case FNodeType.COMMENT:
+        return `<!--${node.value ?? ''}-->`;
+
+      case FNodeType.INSTRUCTION:
+        return node.value ? `<?${node.name} ${node.value}?>` : `<?${node.name}?>`;
+
+      case FNodeType.VALUE:
+        if (node.name === TEXT_NODE) return this.serializeText(node.value);
+        if (node.name === CDATA_NODE) {
+          return this.options.cdata === 'text'
+            ? escapeText(this.stringify(node.value))
+            : wrapCdata(this.stringify(node.value));
+        }
+        return this.serializeElement(node, depth, parent);
+
+      case FNodeType.CUSTOM:
+        if (node.name === DOCTYPE_NODE) return `<!DOCTYPE ${node.value}>`;
+        if (node.name === ENTITY_NODE) return `&${node.value};`;
+        return this.serializeElement(node, depth, parent);
+
+      default:
+        return this.serializeElement(node, depth, parent);
+    }
+  }
+
+  private serializeElement(node: FNode, depth: number, parent?: FNode): string {
+    // Collection entries named by their index, as from a JSON array, are written as <item>
+    const tag = parent?.type === FNodeType.COLLECTION && /^\d+$/.test(node.name)
+      ? 'item'
+      : qualifiedName(node);
+    const attributes = (node.attributes || [])
+      .map(attr => ` ${qualifiedName(attr)}="${escapeAttribute(this.stringify(attr.value))}"`)
+      .join('');
+
+    const children = node.children?.filter(child => child.type !== FNodeType.ATTRIBUTES) || [];
+
+    if (children.length === 0) {
+      if (node.value === undefined || node.value === null) {
+        return `<${tag}${attributes}/>`;
+      }
+      return `<${tag}${attributes}>${this.serializeText(node.value)}</${tag}>`;
+    }
+
+    // Mixed content is written inline so indentation does not alter the text
+    const mixed = children.some(child =>
+      child.name === TEXT_NODE || child.name === CDATA_NODE || child.name === ENTITY_NODE
+    );
+    let inner: string;
+    if (this.options.pretty && !mixed) {
+      const indent = ' '.repeat(this.options.indent || 2);
+      const lines = children
+        .map(child => `\n${indent.repeat(depth + 1)}${this.serializeNode(child, depth + 1, node)}`)
+        .join('');
+      inner = `${lines}\n${indent.repeat(depth)}`;
+    } else {
+      inner = children.map(child => this.serializeNode(child, depth + 1, node)).join('');
+    }
+
+    return `<${tag}${attributes}>${inner}</${tag}>`;
+  }
+
+  private serializeText(value: Primitive | undefined): string {
+    const text = this.stringify(value);
+    if (this.options.cdata === 'auto' && /[<&]/.test(text)) {
+      return wrapCdata(text);
+    }
+    return escapeText(text);
+  }
+
+  private stringify(value: Primitive | undefined): string {
+    return formatValue(value);
+  }
+}
+
+/**
+ * Build the qualified tag or attribute name for a node
+ */
+function qualifiedName(node: FNode): string {
+  if (!/^[\p{L}_][\p{L}\p{N}_.\u00B7-]*$/u.test(node.name)) {
+    throw new AdapterError(`Cannot write "${node.name}" as an XML name`, { name: node.name });
+  }
+  return node.label ? `${node.label}:${node.name}` : node.name;
+}
+
+function escapeText(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function escapeAttribute(text: string): string {
+  return escapeText(text)
+    .replace(/"/g, '&quot;')
+    .replace(/\n/g, '&#10;')
+    .replace(/\r/g, '&#13;')
+    .replace(/\t/g, '&#9;');
+}
+
+function wrapCdata(text: string): string {
+  // A literal "]]>" must be split across two sections
+  return `<![CDATA[${text.split(']]>').join(']]]]><![CDATA[>')}]]>`;
+}
+
+/**
+ * Main XmlAdapter class with static factory methods
+ */
+export class XmlAdapter {
+  /**
+   * Create input adapter from XML string
+   */
+  static string(xmlString: string, options?: XmlAdapterOptions): InputAdapter {
+    return new XmlStringInputAdapter(xmlString, options);
+  }
+
+  /**
+   * Create output adapter that returns XML string
+   */
+  static stringify(options?: XmlAdapterOptions): OutputAdapter {
+    return new XmlStringOutputAdapter(options);
+  }
+
+  /**
+   * Create output adapter that returns pretty-formatted XML string
+   */
+  static pretty(indent?: number): OutputAdapter {
+    return new XmlStringOutputAdapter({
+      pretty: true,
+      indent: indent || 2
+    });
+  }
+}
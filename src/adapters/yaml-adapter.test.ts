@@ -0,0 +1,86 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { YamlAdapter } from './yaml-adapter.js';
+import { JsonAdapter } from './json-adapter.js';
+import { PipeFitter } from '../core/pipefitter.js';
+import { AdapterError, GraphError } from '../core/errors.js';
+
+function toJson(yaml: string, options = {}): unknown {
+  return new PipeFitter().from(YamlAdapter.string(yaml, options)).to(JsonAdapter.output());
+}
+
+function roundTrip(yaml: string): string {
+  return new PipeFitter().from(YamlAdapter.string(yaml)).to(YamlAdapter.stringify()) as string;
+}
+
+test('parses nested mappings, sequences and scalar types', () => {
+  const yaml = 'name: app\nport: 8080\nenabled: true\nnone: ~\ntags:\n  - a\n  - "b: c"\nowner:\n  id: 1\n';
+
+  assert.deepEqual(toJson(yaml), {
+    name: 'app',
+    port: 8080,
+    enabled: true,
+    none: null,
+    tags: ['a', 'b: c'],
+    owner: { id: 1 }
+  });
+});
+
+test('parses flow collections, block scalars and compact sequence entries', () => {
+  const yaml = 'point: {x: 1, y: [2, 3]}\ntext: |\n  line one\n  line two\nitems:\n  - id: 1\n    ok: no\n';
+
+  assert.deepEqual(toJson(yaml), {
+    point: { x: 1, y: [2, 3] },
+    text: 'line one\nline two\n',
+    items: [{ id: 1, ok: 'no' }]
+  });
+});
+
+test('resolves anchors and aliases', () => {
+  assert.deepEqual(toJson('base: &b {a: 1}\ncopy: *b\n'), { base: { a: 1 }, copy: { a: 1 } });
+});
+
+test('writes a shared object once, with an anchor, and aliases it afterwards', () => {
+  const shared = { k: 1 };
+  const yaml = new PipeFitter().from(JsonAdapter.object({ p: shared, q: shared, r: { k: 1 } })).to(YamlAdapter.stringify()) as string;
+
+  assert.equal(yaml, 'p: &ref1\n  k: 1\nq: *ref1\nr:\n  k: 1\n');
+  assert.deepEqual(toJson(yaml), { p: shared, q: shared, r: shared });
+  assert.equal(roundTrip('base: &b {a: 1}\ncopy: *b\n'), 'base: &b\n  a: 1\ncopy: *b\n');
+});
+
+test('round-trips comments', () => {
+  const yaml = '# settings\nname: app # the name\nlist:\n  - 1\n';
+
+  assert.equal(roundTrip(yaml), yaml);
+});
+
+test('wraps several documents in a stream', () => {
+  assert.deepEqual(toJson('a: 1\n---\na: 2\n'), [{ a: 1 }, { a: 2 }]);
+});
+
+test('rejects tab indentation at the offending line', () => {
+  assert.throws(() => toJson('a:\n\tb: 1\n'), (error: unknown) =>
+    error instanceof AdapterError && /Tabs cannot be used for indentation at line 2/.test(error.message)
+  );
+  assert.throws(() => toJson('a:\n  - 1\n  \t- 2\n'), /Tabs cannot be used for indentation at line 3/);
+});
+
+test('keeps tabs inside block scalars', () => {
+  assert.deepEqual(toJson('code: |\n  \tindented\n'), { code: '\tindented\n' });
+});
+
+test('reports bad indentation and unknown aliases', () => {
+  assert.throws(() => toJson('a: 1\n  b: 2\n'), AdapterError);
+  assert.throws(() => toJson('a: *missing\n'), /Unknown alias \*missing/);
+});
+
+test('cyclic data fails with a GraphError naming the cycle', () => {
+  const node: Record<string, unknown> = { k: 1 };
+  node.next = node;
+
+  assert.throws(
+    () => new PipeFitter().from(JsonAdapter.object({ node })).to(YamlAdapter.stringify()),
+    (error: unknown) => error instanceof GraphError && (error.context as { path: string }).path === 'root/node/next/next'
+  );
+});
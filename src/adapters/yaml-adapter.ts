@@ -0,0 +1,1070 @@
+// src/adapters/yaml-adapter.ts
+import { InputAdapter, OutputAdapter } from '../core/adapter.js';
+import { Message } from '../core/message.js';
+import {
+  FNode,
+  FNodeType,
+  Primitive,
+  createFNode,
+  documentElement,
+  isFormattingWhitespace,
+  objectFields
+} from '../core/fnode.js';
+import { AdapterError, GraphError } from '../core/errors.js';
+import { findCycle } from '../core/graph.js';
+import { decodeBase64, formatValue, inferValueType, isTypedValue, parseValue } from '../core/typed-values.js';
+
+/**
+ * YAML adapter options
+ */
+export interface YamlAdapterOptions {
+  /** Spaces per nesting level when writing (default 2) */
+  indent?: number;
+  /**
+   * Document handling on input:
+   * - auto: a single document is returned as-is, several are wrapped in a "#stream" COLLECTION (default)
+   * - always: always wrap documents in a "#stream" COLLECTION
+   */
+  documents?: 'auto' | 'always';
+}
+
+const STREAM_NODE = '#stream';
+const COMMENT_NODE = '#comment';
+const INLINE_LABEL = 'inline';
+
+interface YamlLine {
+  /** Leading spaces */
+  indent: number;
+  /** Line content after indentation */
+  text: string;
+  /** 1-based source line number */
+  number: number;
+}
+
+interface ParsedValue {
+  node: FNode;
+  comment?: FNode;
+}
+
+/**
+ * Create a comment node
+ */
+function createComment(text: string, inline: boolean = false): FNode {
+  const node: FNode = {
+    type: FNodeType.COMMENT,
+    name: COMMENT_NODE,
+    value: text.replace(/^#\s?/, '')
+  };
+  if (inline) node.label = INLINE_LABEL;
+  return node;
+}
+
+/**
+ * Resolve a scalar using the YAML 1.2 core schema
+ */
+function resolveScalar(raw: string, quoted: boolean, tag?: string): Primitive {
+  switch (tag) {
+    case '!!str': return raw;
+    case '!!int': return resolveInteger(raw);
+    case '!!float': return parseFloat(raw);
+    case '!!bool': return /^(true|True|TRUE)$/.test(raw);
+    case '!!null': return null;
+    case '!!timestamp': return parseValue(raw, 'timestamp');
+    case '!!binary': return decodeBase64(raw);
+  }
+
+  if (quoted) return raw;
+
+  if (/^(~|null|Null|NULL|)$/.test(raw)) return null;
+  if (/^(true|True|TRUE)$/.test(raw)) return true;
+  if (/^(false|False|FALSE)$/.test(raw)) return false;
+  if (/^[-+]?[0-9]+$/.test(raw)) return resolveInteger(raw);
+  if (/^0x[0-9a-fA-F]+$/.test(raw)) return parseInt(raw.substring(2), 16);
+  if (/^0o[0-7]+$/.test(raw)) return parseInt(raw.substring(2), 8);
+  if (/^[-+]?(\.[0-9]+|[0-9]+(\.[0-9]*)?)([eE][-+]?[0-9]+)?$/.test(raw)) return parseFloat(raw);
+  if (/^[-+]?\.(inf|Inf|INF)$/.test(raw)) return raw[0] === '-' ? -Infinity : Infinity;
+  if (/^\.(nan|NaN|NAN)$/.test(raw)) return NaN;
+
+  return raw;
+}
+
+/**
+ * Integers beyond the safe range resolve to bigints rather than losing precision
+ */
+function resolveInteger(raw: string): number | bigint {
+  const value = parseInt(raw, 10);
+  return Number.isSafeInteger(value) ? value : BigInt(raw);
+}
+
+/**
+ * A scalar node, tagged when it resolves to a typed value
+ */
+function scalarNode(name: string, raw: string, quoted: boolean, tag?: string): FNode {
+  const value = resolveScalar(raw, quoted, tag);
+  return createFNode(FNodeType.VALUE, name, value, isTypedValue(value) ? inferValueType(value) : undefined);
+}
+
+const DOUBLE_QUOTE_ESCAPES: Record<string, string> = {
+  '0': '\0', a: '\x07', b: '\b', t: '\t', '\t': '\t', n: '\n', v: '\v', f: '\f',
+  r: '\r', e: '\x1b', ' ': ' ', '"': '"', '/': '/', '\\': '\\',
+  N: '\u0085', _: '\u00a0', L: '\u2028', P: '\u2029'
+};
+
+/**
+ * Find the end of a quoted scalar starting at `start`, or -1 if unterminated
+ */
+function findClosingQuote(text: string, start: number): number {
+  const quote = text[start];
+  for (let i = start + 1; i < text.length; i++) {
+    if (quote === '"' && text[i] === '\\') {
+      i++;
+    } else if (text[i] === quote) {
+      if (quote === "'" && text[i + 1] === "'") {
+        i++;
+      } else {
+        return i;
+      }
+    }
+  }
+  return -1;
+}
+
+/**
+ * Decode the body of a quoted scalar (without surrounding quotes)
+ */
+function unquote(body: string, quote: string): string {
+  if (quote === "'") return body.replace(/''/g, "'");
+
+  return body.replace(/\\(x[0-9a-fA-F]{2}|u[0-9a-fA-F]{4}|U[0-9a-fA-F]{8}|.)/g, (match, escape: string) => {
+    if (escape.length > 1) return String.fromCodePoint(parseInt(escape.substring(1), 16));
+    return DOUBLE_QUOTE_ESCAPES[escape] ?? match;
+  });
+}
+
+/**
+ * Find the mapping indicator of a block mapping entry, or -1
+ */
+function findMappingColon(text: string): number {
+  let i = 0;
+
+  if (text[0] === '"' || text[0] === "'") {
+    const end = findClosingQuote(text, 0);
+    if (end === -1) return -1;
+    i = end + 1;
+  } else if (text[0] === '[' || text[0] === '{') {
+    return -1;
+  }
+
+  for (; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === '#' && i > 0 && /\s/.test(text[i - 1])) return -1;
+    if (ch === ':' && (i + 1 === text.length || /\s/.test(text[i + 1]))) return i;
+  }
+  return -1;
+}
+
+/**
+ * Index of an inline comment in plain text, or -1
+ */
+function findComment(text: string): number {
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '#' && (i === 0 || /\s/.test(text[i - 1]))) return i;
+  }
+  return -1;
+}
+
+function isSequenceEntry(text: string): boolean {
+  return text === '-' || text.startsWith('- ') || text.startsWith('-\t');
+}
+
+function isInsignificant(line: YamlLine): boolean {
+  return line.text.trim() === '' || line.text.startsWith('#');
+}
+
+/**
+ * Parser for flow collections ([...] and {...})
+ */
+class FlowParser {
+  private pos = 0;
+
+  constructor(
+    private text: string,
+    private anchors: Map<string, FNode>,
+    private fail: (reason: string) => never
+  ) {}
+
+  parse(name: string): FNode {
+    const node = this.parseNode(name);
+    this.skipWhitespace();
+    if (this.pos < this.text.length) this.fail('Unexpected content after flow collection');
+    return node;
+  }
+
+  private parseNode(name: string): FNode {
+    this.skipWhitespace();
+
+    let anchor: string | undefined;
+    let tag: string | undefined;
+    while (this.text[this.pos] === '&' || this.text[this.pos] === '!') {
+      const token = this.readToken();
+      if (token[0] === '&') anchor = token.substring(1);
+      else tag = token;
+      this.skipWhitespace();
+    }
+
+    const ch = this.text[this.pos];
+    let node: FNode;
+
+    if (ch === '[') {
+      node = this.parseSequence(name);
+    } else if (ch === '{') {
+      node = this.parseMapping(name);
+    } else if (ch === '*') {
+      const alias = this.readToken().substring(1);
+      const target = this.anchors.get(alias);
+      if (!target) this.fail(`Unknown alias *${alias}`);
+      return { ...target!, name };
+    } else {
+      const { raw, quoted } = this.readScalar();
+      node = scalarNode(name, raw, quoted, tag);
+    }
+
+    if (anchor) {
+      node.id = anchor;
+      this.anchors.set(anchor, node);
+    }
+    return node;
+  }
+
+  private parseSequence(name: string): FNode {
+    this.pos++;
+    const children: FNode[] = [];
+
+    for (;;) {
+      this.skipWhitespace();
+      if (this.text[this.pos] === ']') break;
+
+      const item = this.parseNode(String(children.length));
+      this.skipWhitespace();
+
+      // Single-pair mapping inside a sequence: [a: 1]
+      if (this.text[this.pos] === ':') {
+        this.pos++;
+        const key = String(item.value);
+        children.push({
+          type: FNodeType.RECORD,
+          name: String(children.length),
+          children: [this.parseValueOrNull(key)]
+        });
+      } else {
+        children.push(item);
+      }
+
+      if (!this.consumeSeparator(']')) break;
+    }
+
+    this.expect(']');
+    return { type: FNodeType.COLLECTION, name, children };
+  }
+
+  private parseMapping(name: string): FNode {
+    this.pos++;
+    const children: FNode[] = [];
+
+    for (;;) {
+      this.skipWhitespace();
+      if (this.text[this.pos] === '}') break;
+
+      const { raw } = this.readScalar();
+      this.skipWhitespace();
+
+      if (this.text[this.pos] === ':') {
+        this.pos++;
+        children.push(this.parseValueOrNull(raw));
+      } else {
+        children.push({ type: FNodeType.VALUE, name: raw, value: null });
+      }
+
+      if (!this.consumeSeparator('}')) break;
+    }
+
+    this.expect('}');
+    return { type: FNodeType.RECORD, name, children };
+  }
+
+  private parseValueOrNull(name: string): FNode {
+    this.skipWhitespace();
+    const ch = this.text[this.pos];
+    if (ch === ',' || ch === '}' || ch === ']') {
+      return { type: FNodeType.VALUE, name, value: null };
+    }
+    return this.parseNode(name);
+  }
+
+  private readScalar(): { raw: string; quoted: boolean } {
+    const ch = this.text[this.pos];
+
+    if (ch === '"' || ch === "'") {
+      const end = findClosingQuote(this.text, this.pos);
+      if (end === -1) this.fail('Unterminated quoted scalar');
+      const raw = unquote(this.text.substring(this.pos + 1, end), ch);
+      this.pos = end + 1;
+      return { raw, quoted: true };
+    }
+
+    const start = this.pos;
+    while (this.pos < this.text.length) {
+      const c = this.text[this.pos];
+      if (c === ',' || c === ']' || c === '}' || c === '[' || c === '{') break;
+      if (c === ':' && /[\s,\]}]|^$/.test(this.text[this.pos + 1] ?? '')) break;
+      this.pos++;
+    }
+    return { raw: this.text.substring(start, this.pos).trim(), quoted: false };
+  }
+
+  private readToken(): string {
+    const start = this.pos;
+    while (this.pos < this.text.length && !/[\s,\]}]/.test(this.text[this.pos])) this.pos++;
+    return this.text.substring(start, this.pos);
+  }
+
+  private consumeSeparator(close: string): boolean {
+    this.skipWhitespace();
+    if (this.text[this.pos] === ',') {
+      this.pos++;
+      return true;
+    }
+    if (this.text[this.pos] !== close) this.fail(`Expected "," or "${close}" in flow collection`);
+    return false;
+  }
+
+  private expect(token: string): void {
+    if (this.text[this.pos] !== token) this.fail(`Expected "${token}" in flow collection`);
+    this.pos++;
+  }
+
+  private skipWhitespace(): void {
+    while (this.pos < this.text.length && /\s/.test(this.text[this.pos])) this.pos++;
+  }
+}
+
+/**
+ * Indentation-driven parser for a single YAML document
+ */
+class YamlDocumentParser {
+  private index = 0;
+  private anchors = new Map<string, FNode>();
+  private pendingComments: FNode[] = [];
+
+  constructor(private lines: YamlLine[]) {}
+
+  parse(): FNode {
+    this.skipInsignificant();
+
+    const node = this.current()
+      ? this.parseBlockNode('root')
+      : { type: FNodeType.VALUE, name: 'root', value: null };
+
+    this.skipInsignificant();
+    if (this.current()) this.fail('Unexpected content at document level');
+
+    // Trailing comments stay with the document's top-level container
+    if (this.pendingComments.length > 0 && node.children) {
+      node.children.push(...this.pendingComments);
+    }
+    return node;
+  }
+
+  private parseBlockNode(name: string): FNode {
+    const line = this.current()!;
+    this.checkIndentation(line);
+
+    if (isSequenceEntry(line.text)) return this.parseSequence(line.indent, name);
+    if (findMappingColon(line.text) >= 0) return this.parseMapping(line.indent, name);
+
+    this.index++;
+    return this.parseValue(line.text, line.indent - 1, name, false).node;
+  }
+
+  private parseMapping(indent: number, name: string): FNode {
+    const children: FNode[] = [];
+
+    for (;;) {
+      this.skipInsignificant();
+      const line = this.current();
+      if (!line || line.indent < indent) break;
+      this.checkIndentation(line);
+      if (line.indent > indent) this.fail('Bad indentation of a mapping entry');
+      if (isSequenceEntry(line.text)) this.fail('Sequence entry where a mapping entry was expected');
+
+      const colon = findMappingColon(line.text);
+      if (colon === -1) {
+        if (line.text.startsWith('? ')) this.fail('Complex mapping keys are not supported');
+        this.fail('Expected a mapping entry');
+      }
+
+      children.push(...this.flushComments());
+      const key = this.parseKey(line.text.substring(0, colon).trim());
+      this.index++;
+
+      const { node, comment } = this.parseValue(line.text.substring(colon + 1), indent, key, true);
+      children.push(node);
+      if (comment) children.push(comment);
+    }
+
+    return { type: FNodeType.RECORD, name, children };
+  }
+
+  private parseSequence(indent: number, name: string): FNode {
+    const children: FNode[] = [];
+    let count = 0;
+
+    for (;;) {
+      this.skipInsignificant();
+      const line = this.current();
+      if (line && line.indent >= indent) this.checkIndentation(line);
+      if (!line || line.indent < indent || !isSequenceEntry(line.text)) {
+        if (line && line.indent > indent) this.fail('Bad indentation of a sequence entry');
+        break;
+      }
+
+      children.push(...this.flushComments());
+      const itemName = String(count++);
+      const rest = line.text.substring(1);
+      const content = rest.trimStart();
+
+      // Compact nested collections ("- key: value", "- - item") continue at the item's column
+      if (content && !content.startsWith('#') &&
+          (isSequenceEntry(content) || findMappingColon(content) >= 0)) {
+        line.indent += 1 + rest.length - content.length;
+        line.text = content;
+        children.push(this.parseBlockNode(itemName));
+        continue;
+      }
+
+      this.index++;
+      const { node, comment } = this.parseValue(content, indent, itemName, false);
+      children.push(node);
+      if (comment) children.push(comment);
+    }
+
+    return { type: FNodeType.COLLECTION, name, children };
+  }
+
+  /**
+   * Parse the value part of an entry - inline scalars, flow collections, aliases,
+   * block scalars, or a block node on the following lines
+   */
+  private parseValue(text: string, parentIndent: number, name: string, inMapping: boolean): ParsedValue {
+    let rest = text.trim();
+    let anchor: string | undefined;
+    let tag: string | undefined;
+
+    while (rest[0] === '&' || rest[0] === '!') {
+      const match = /^\S+/.exec(rest)![0];
+      if (match[0] === '&') anchor = match.substring(1);
+      else tag = match;
+      rest = rest.substring(match.length).trimStart();
+    }
+
+    let result: ParsedValue;
+
+    if (rest === '' || rest.startsWith('#')) {
+      if (rest) this.pendingComments.push(createComment(rest));
+      this.skipInsignificant();
+      const next = this.current();
+      const nested = next && (
+        next.indent > parentIndent ||
+        (inMapping && next.indent === parentIndent && isSequenceEntry(next.text))
+      );
+      result = {
+        node: nested
+          ? this.parseBlockNode(name)
+          : scalarNode(name, '', false, tag)
+      };
+    } else if (rest[0] === '*') {
+      const alias = /^\*(\S+)/.exec(rest)![1];
+      const target = this.anchors.get(alias);
+      if (!target) this.fail(`Unknown alias *${alias}`);
+      return { node: { ...target!, name }, comment: this.trailingComment(rest.substring(alias.length + 1)) };
+    } else if (rest[0] === '|' || rest[0] === '>') {
+      result = { node: scalarNode(name, this.parseBlockScalar(rest, parentIndent), true, tag) };
+    } else if (rest[0] === '[' || rest[0] === '{') {
+      const flow = this.gatherFlow(rest);
+      result = {
+        node: new FlowParser(flow.text, this.anchors, reason => this.fail(reason)).parse(name),
+        comment: flow.comment
+      };
+    } else if (rest[0] === '"' || rest[0] === "'") {
+      const quoted = this.gatherQuoted(rest);
+      result = {
+        node: scalarNode(name, quoted.value, true, tag),
+        comment: this.trailingComment(quoted.rest)
+      };
+    } else {
+      result = this.parsePlainScalar(rest, parentIndent, name, tag);
+    }
+
+    if (anchor) {
+      result.node.id = anchor;
+      this.anchors.set(anchor, result.node);
+    }
+    return result;
+  }
+
+  private parsePlainScalar(text: string, parentIndent: number, name: string, tag?: string): ParsedValue {
+    const commentIndex = findComment(text);
+    let value = (commentIndex === -1 ? text : text.substring(0, commentIndex)).trim();
+    let comment = commentIndex === -1 ? undefined : createComment(text.substring(commentIndex), true);
+
+    // Multi-line plain scalars fold continuation lines with spaces
+    if (!comment) {
+      let blankLines = 0;
+      for (;;) {
+        const line = this.current();
+        if (!line) break;
+        if (line.text.trim() === '') {
+          blankLines++;
+          this.index++;
+          continue;
+        }
+        if (line.indent <= parentIndent || line.text.startsWith('#') ||
+            findMappingColon(line.text) >= 0 || isSequenceEntry(line.text)) {
+          this.index -= blankLines;
+          break;
+        }
+        const index = findComment(line.text);
+        const part = (index === -1 ? line.text : line.text.substring(0, index)).trim();
+        value += blankLines > 0 ? '\n'.repeat(blankLines) + part : ` ${part}`;
+        blankLines = 0;
+        this.index++;
+        if (index !== -1) {
+          comment = createComment(line.text.substring(index), true);
+          break;
+        }
+      }
+    }
+
+    return {
+      node: scalarNode(name, value, false, tag),
+      comment
+    };
+  }
+
+  private parseBlockScalar(header: string, parentIndent: number): string {
+    const match = /^([|>])([1-9]?)([+-]?)([1-9]?)\s*(#.*)?$/.exec(header);
+    if (!match) this.fail(`Invalid block scalar header "${header}"`);
+
+    const folded = match![1] === '>';
+    const explicit = parseInt(match![2] || match![4], 10);
+    const chomping = match![3];
+    let contentIndent = explicit ? Math.max(parentIndent, 0) + explicit : undefined;
+
+    const content: string[] = [];
+    while (this.index < this.lines.length) {
+      const line = this.lines[this.index];
+      if (line.text.trim() === '') {
+        content.push('');
+        this.index++;
+        continue;
+      }
+      if (contentIndent === undefined) {
+        if (line.indent <= parentIndent) break;
+        contentIndent = line.indent;
+      }
+      if (line.indent < contentIndent) break;
+      content.push(' '.repeat(line.indent - contentIndent) + line.text);
+      this.index++;
+    }
+
+    // Trailing blank lines only count towards "keep" chomping
+    let trailing = 0;
+    while (content.length > 0 && content[content.length - 1].trim() === '') {
+      content.pop();
+      trailing++;
+    }
+
+    let body: string;
+    if (folded) {
+      body = '';
+      let previousIndented = false;
+      for (const line of content) {
+        const indented = /^\s/.test(line);
+        if (line === '') {
+          body += '\n';
+        } else if (body === '' || body.endsWith('\n')) {
+          body += line;
+        } else {
+          body += (indented || previousIndented ? '\n' : ' ') + line;
+        }
+        previousIndented = indented;
+      }
+    } else {
+      body = content.join('\n');
+    }
+
+    if (content.length === 0) return chomping === '+' ? '\n'.repeat(trailing) : '';
+    if (chomping === '-') return body;
+    if (chomping === '+') return `${body}\n${'\n'.repeat(trailing)}`;
+    return `${body}\n`;
+  }
+
+  private gatherQuoted(text: string): { value: string; rest: string } {
+    let source = text;
+    let end = findClosingQuote(source, 0);
+
+    // Quoted scalars may span lines; line breaks fold to spaces
+    while (end === -1) {
+      const line = this.current();
+      if (!line) this.fail('Unterminated quoted scalar');
+      source += line!.text.trim() === '' ? '\n' : ` ${line!.text.trim()}`;
+      this.index++;
+      end = findClosingQuote(source, 0);
+    }
+
+    return {
+      value: unquote(source.substring(1, end), source[0]).replace(/ ?\n ?/g, '\n'),
+      rest: source.substring(end + 1)
+    };
+  }
+
+  private gatherFlow(text: string): { text: string; comment?: FNode } {
+    let source = '';
+    let depth = 0;
+    let comment: FNode | undefined;
+    let line = text;
+
+    for (;;) {
+      let i = 0;
+      for (; i < line.length; i++) {
+        const ch = line[i];
+        if (ch === '"' || ch === "'") {
+          const end = findClosingQuote(line, i);
+          if (end === -1) this.fail('Unterminated quoted scalar in flow collection');
+          i = end;
+        } else if (ch === '#' && (i === 0 || /\s/.test(line[i - 1]))) {
+          if (depth === 0) comment = createComment(line.substring(i), true);
+          break;
+        } else if (ch === '[' || ch === '{') {
+          depth++;
+        } else if (ch === ']' || ch === '}') {
+          depth--;
+        }
+      }
+      source += `${line.substring(0, i)}\n`;
+
+      if (depth <= 0) return { text: source, comment };
+
+      const next = this.current();
+      if (!next) this.fail('Unterminated flow collection');
+      line = next!.text;
+      this.index++;
+    }
+  }
+
+  private trailingComment(text: string): FNode | undefined {
+    const rest = text.trim();
+    if (!rest) return undefined;
+    if (!rest.startsWith('#')) this.fail(`Unexpected content "${rest}"`);
+    return createComment(rest, true);
+  }
+
+  private parseKey(text: string): string {
+    if (text[0] === '"' || text[0] === "'") {
+      return unquote(text.substring(1, text.length - 1), text[0]);
+    }
+    return text;
+  }
+
+  private skipInsignificant(): void {
+    while (this.index < this.lines.length && isInsignificant(this.lines[this.index])) {
+      const line = this.lines[this.index];
+      if (line.text.startsWith('#')) this.pendingComments.push(createComment(line.text));
+      this.index++;
+    }
+  }
+
+  private flushComments(): FNode[] {
+    const comments = this.pendingComments;
+    this.pendingComments = [];
+    return comments;
+  }
+
+  private current(): YamlLine | undefined {
+    return this.lines[this.index];
+  }
+
+  private checkIndentation(line: YamlLine): void {
+    if (line.text.startsWith('\t')) this.fail('Tabs cannot be used for indentation');
+  }
+
+  private fail(reason: string): never {
+    const line = this.lines[Math.min(this.index, this.lines.length - 1)];
+    const number = line?.number ?? 1;
+    throw new AdapterError(`Failed to parse YAML: ${reason} at line ${number}`, { line: number });
+  }
+}
+
+/**
+ * Split a YAML stream into per-document line lists
+ */
+function splitDocuments(text: string): YamlLine[][] {
+  const documents: YamlLine[][] = [];
+  let current: YamlLine[] = [];
+  let explicit = false;
+
+  const hasContent = (lines: YamlLine[]) => lines.some(line => !isInsignificant(line));
+
+  text.replace(/^\uFEFF/, '').split(/\r?\n/).forEach((raw, index) => {
+    const indent = raw.length - raw.replace(/^ +/, '').length;
+    const line: YamlLine = { indent, text: raw.substring(indent), number: index + 1 };
+
+    if (indent === 0 && /^---(\s|$)/.test(raw)) {
+      if (hasContent(current) || explicit) {
+        documents.push(current);
+        current = [];
+      }
+      explicit = true;
+      const rest = raw.substring(3).trim();
+      if (rest) current.push({ indent: 0, text: rest, number: index + 1 });
+    } else if (indent === 0 && /^\.\.\.(\s|$)/.test(raw)) {
+      documents.push(current);
+      current = [];
+      explicit = false;
+    } else if (indent === 0 && raw.startsWith('%') && !explicit && !hasContent(current)) {
+      // Directives (%YAML, %TAG) carry no data
+    } else {
+      current.push(line);
+    }
+  });
+
+  if (hasContent(current) || explicit || documents.length === 0) {
+    documents.push(current);
+  }
+  return documents;
+}
+
+/**
+ * YAML string input adapter - parses YAML text to FNode
+ */
+class YamlStringInputAdapter implements InputAdapter {
+  constructor(
+    private yamlString: string,
+    private options: YamlAdapterOptions = {}
+  ) {}
+
+  handle(message: Message): Message {
+    const documents = splitDocuments(this.yamlString)
+      .map(lines => new YamlDocumentParser(lines).parse());
+
+    const wrap = documents.length !== 1 || this.options.documents === 'always';
+    const data: FNode = wrap
+      ? {
+          type: FNodeType.COLLECTION,
+          name: STREAM_NODE,
+          children: documents.map((document, index) => ({ ...document, name: String(index) }))
+        }
+      : documents[0];
+
+    return {
+      ...message,
+      data,
+      metadata: {
+        ...message.metadata,
+        source: {
+          format: 'application/yaml',
+          adapter: 'YamlStringInputAdapter',
+          processedAt: new Date().toISOString()
+        },
+        yaml: {
+          documents: documents.length
+        }
+      }
+    };
+  }
+}
+
+/**
+ * Anchor bookkeeping for one output document
+ */
+interface AnchorState {
+  /** Generated anchor names of containers written more than once, keyed by their children */
+  shared: Map<FNode[], string>;
+  /** Anchors already written; a later occurrence becomes an alias */
+  written: Set<string>;
+}
+
+interface RenderedNode {
+  /** Text that fits after "key:" or "- " */
+  inline?: string;
+  /** Header after "key:" for block scalars and anchored collections */
+  header?: string;
+  /** Indented lines following the entry */
+  lines?: string[];
+}
+
+/**
+ * YAML string output adapter - serializes FNode to YAML text
+ */
+class YamlStringOutputAdapter implements OutputAdapter {
+  private readonly step: number;
+
+  constructor(private options: YamlAdapterOptions = {}) {
+    this.step = options.indent || 2;
+  }
+
+  handle(message: Message): string {
+    const data = message.data;
+    const cycle = findCycle(data);
+    if (cycle) {
+      const path = cycle.join('/');
+      throw new GraphError(`Cycle at "${path}"; YAML cannot express cyclic data`, { path });
+    }
+
+    const element = documentElement(data);
+    const documents = data.type === FNodeType.COLLECTION && data.name === STREAM_NODE
+      ? (data.children || []).filter(child => child.type !== FNodeType.COMMENT)
+      : element !== data
+        ? [{ type: FNodeType.RECORD, name: data.name, children: [element] }]
+        : [data];
+
+    return documents
+      .map(document => {
+        const rendered = this.render(document, 0, { shared: sharedAnchors(document), written: new Set() });
+        const lines = rendered.inline !== undefined
+          ? [rendered.inline]
+          : [...(rendered.header ? [rendered.header] : []), ...(rendered.lines || [])];
+        return `${lines.join('\n')}\n`;
+      })
+      .join('---\n');
+  }
+
+  private render(node: FNode, indent: number, anchors: AnchorState): RenderedNode {
+    // Nodes that share an already-written anchor are emitted as aliases
+    const name = node.id ?? (node.children ? anchors.shared.get(node.children) : undefined);
+    if (name !== undefined) {
+      if (anchors.written.has(name)) return { inline: `*${name}` };
+      anchors.written.add(name);
+    }
+    const anchor = name !== undefined ? `&${name}` : '';
+
+    const isContainer = node.type === FNodeType.COLLECTION ||
+      node.type === FNodeType.RECORD ||
+      (node.children !== undefined && node.children.length > 0) ||
+      (node.attributes !== undefined && node.attributes.length > 0);
+
+    if (isContainer) {
+      const sequence = node.type === FNodeType.COLLECTION;
+      const children = sequence ? node.children || [] : mappingEntries(node);
+
+      if (children.length === 0) {
+        return { inline: [anchor, sequence ? '[]' : '{}'].filter(Boolean).join(' ') };
+      }
+
+      return {
+        header: anchor || undefined,
+        lines: sequence
+          ? this.renderSequence(children, indent, anchors)
+          : this.renderMapping(children, indent, anchors)
+      };
+    }
+
+    const value = node.value;
+    if (typeof value === 'string' && value.includes('\n') && !/^[ \t]/.test(value)) {
+      const lines = value.split('\n');
+      let chomping = '-';
+      if (value.endsWith('\n')) {
+        lines.pop();
+        chomping = value.endsWith('\n\n') ? '+' : '';
+        while (chomping === '+' && lines[lines.length - 1] === '') lines.pop();
+        if (chomping === '+') {
+          const trailing = value.length - value.replace(/\n+$/, '').length;
+          lines.push(...new Array(trailing - 1).fill(''));
+        }
+      }
+      const pad = ' '.repeat(indent);
+      return {
+        header: [anchor, `|${chomping}`].filter(Boolean).join(' '),
+        lines: lines.map(line => (line ? pad + line : ''))
+      };
+    }
+
+    return { inline: [anchor, formatScalar(value)].filter(Boolean).join(' ') };
+  }
+
+  private renderMapping(children: FNode[], indent: number, anchors: AnchorState): string[] {
+    const pad = ' '.repeat(indent);
+    const lines: string[] = [];
+    let singleLine = false;
+
+    for (const child of children) {
+      if (isFormattingWhitespace(child)) continue;
+
+      if (child.type === FNodeType.COMMENT) {
+        if (child.label === INLINE_LABEL && singleLine) {
+          lines[lines.length - 1] += ` ${formatComment(child)}`;
+        } else {
+          lines.push(pad + formatComment(child));
+        }
+        singleLine = false;
+        continue;
+      }
+
+      const key = formatKey(child.name);
+      const rendered = this.render(child, indent + this.step, anchors);
+
+      if (rendered.inline !== undefined) {
+        lines.push(`${pad}${key}: ${rendered.inline}`);
+        singleLine = true;
+      } else {
+        lines.push(rendered.header ? `${pad}${key}: ${rendered.header}` : `${pad}${key}:`);
+        lines.push(...rendered.lines!);
+        singleLine = false;
+      }
+    }
+
+    return lines;
+  }
+
+  private renderSequence(children: FNode[], indent: number, anchors: AnchorState): string[] {
+    const pad = ' '.repeat(indent);
+    const lines: string[] = [];
+    let singleLine = false;
+
+    for (const child of children) {
+      if (child.type === FNodeType.COMMENT) {
+        if (child.label === INLINE_LABEL && singleLine) {
+          lines[lines.length - 1] += ` ${formatComment(child)}`;
+        } else {
+          lines.push(pad + formatComment(child));
+        }
+        singleLine = false;
+        continue;
+      }
+
+      const rendered = this.render(child, indent + 2, anchors);
+
+      if (rendered.inline !== undefined) {
+        lines.push(`${pad}- ${rendered.inline}`);
+        singleLine = true;
+        continue;
+      }
+
+      const nested = rendered.lines!;
+      if (rendered.header || nested[0].trimStart().startsWith('#')) {
+        lines.push(rendered.header ? `${pad}- ${rendered.header}` : `${pad}-`);
+        lines.push(...nested);
+      } else {
+        // Compact form: the first nested line shares the "- " indicator
+        lines.push(`${pad}- ${nested[0].substring(indent + 2)}`, ...nested.slice(1));
+      }
+      singleLine = false;
+    }
+
+    return lines;
+  }
+}
+
+/**
+ * Name an anchor for each container without an id that is reached more than once, as when
+ * one object is shared by several keys. Containers are identified by their children array,
+ * which aliases share.
+ */
+function sharedAnchors(root: FNode): Map<FNode[], string> {
+  const seen = new Set<FNode[]>();
+  const repeated = new Set<FNode[]>();
+  const ids = new Set<string>();
+
+  const walk = (node: FNode): void => {
+    if (node.id !== undefined) ids.add(node.id);
+    if (!node.children || node.children.length === 0) return;
+
+    if (seen.has(node.children)) {
+      if (node.id === undefined) repeated.add(node.children);
+      return;
+    }
+    seen.add(node.children);
+    node.children.forEach(walk);
+  };
+  walk(root);
+
+  const names = new Map<FNode[], string>();
+  let next = 1;
+  for (const children of repeated) {
+    while (ids.has(`ref${next}`)) next++;
+    names.set(children, `ref${next++}`);
+  }
+  return names;
+}
+
+/**
+ * Entries of a mapping. XML elements read as plain data: attributes become `@name` keys,
+ * text beside attributes `#text`, and repeated child elements one sequence. Other
+ * mappings keep their children, comments included.
+ */
+function mappingEntries(node: FNode): FNode[] {
+  const fields = objectFields(node);
+  if (!node.attributes?.length && fields.every(({ nodes }) => nodes.length === 1)) return node.children || [];
+
+  return fields.map(({ name, nodes }) => nodes.length > 1
+    ? { type: FNodeType.COLLECTION, name, children: nodes }
+    : { ...nodes[0], name });
+}
+
+function formatComment(node: FNode): string {
+  return node.value ? `# ${node.value}` : '#';
+}
+
+/**
+ * Whether a string must be quoted to survive as a plain scalar
+ */
+function needsQuotes(text: string): boolean {
+  return text === '' ||
+    /^[\s\-?:,[\]{}#&*!|>'"%@`]/.test(text) ||
+    /\s$/.test(text) ||
+    text.includes(': ') ||
+    text.includes(' #') ||
+    text.endsWith(':') ||
+    Array.from(text).some(ch => ch < ' ' || ch === '\x7f');
+}
+
+function formatKey(name: string): string {
+  return needsQuotes(name) ? JSON.stringify(name) : name;
+}
+
+function formatScalar(value: Primitive | undefined): string {
+  if (value === null || value === undefined) return 'null';
+  if (typeof value === 'number') {
+    if (Number.isNaN(value)) return '.nan';
+    if (!Number.isFinite(value)) return value > 0 ? '.inf' : '-.inf';
+    return String(value);
+  }
+  if (typeof value === 'boolean' || typeof value === 'bigint') return String(value);
+  if (value instanceof Date) return `!!timestamp ${formatValue(value)}`;
+  if (value instanceof Uint8Array) return `!!binary ${formatValue(value)}`;
+
+  // Strings that would resolve to another type need quoting too
+  if (needsQuotes(value) || resolveScalar(value, false) !== value) {
+    return JSON.stringify(value);
+  }
+  return value;
+}
+
+/**
+ * Main YamlAdapter class with static factory methods
+ */
+export class YamlAdapter {
+  /**
+   * Create input adapter from YAML string
+   */
+  static string(yamlString: string, options?: YamlAdapterOptions): InputAdapter {
+    return new YamlStringInputAdapter(yamlString, options);
+  }
+
+  /**
+   * Create output adapter that returns YAML string
+   */
+  static stringify(options?: YamlAdapterOptions): OutputAdapter {
+    return new YamlStringOutputAdapter(options);
+  }
+}
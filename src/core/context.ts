@@ -1,6 +1,7 @@
 import { Logger } from './logger.js';
 import { Configuration } from './configuration.js';
 import { ResourceManager } from './resource-manager.js';
+import type { TransformationEngine } from '../semantic/transformation-engine.js';
 
 // Forward declaration to avoid circular dependency
 export interface Message {
@@ -18,6 +19,9 @@ export interface BranchState {
   
   /** Predicate used to create this branch */
   predicate: (msg: Message) => boolean;
+  
+  /** Whether the predicate matched; inactive branches skip their steps */
+  active: boolean;
 }
 
 /**
@@ -34,6 +38,9 @@ export interface Context {
   /** Resource lifecycle manager */
   resources: ResourceManager;
   
+  /** Format semantics used by item-level operations */
+  engine?: TransformationEngine;
+  
   /** Branch state for conditional processing (undefined if not in branch) */
   branchState?: BranchState;
 }
@@ -44,11 +51,13 @@ export interface Context {
 export function createContext(
   logger: Logger,
   config: Configuration,
-  resources: ResourceManager
+  resources: ResourceManager,
+  engine?: TransformationEngine
 ): Context {
   return {
     logger,
     config,
-    resources
+    resources,
+    engine
   };
 }
\ No newline at end of file
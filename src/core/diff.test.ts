@@ -0,0 +1,114 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { applyPatch, diffNodes, summarizeChanges, toJsonPatch } from './diff.js';
+import { PipeFitter } from './pipefitter.js';
+import { FNode } from './fnode.js';
+import { FormatError, PatchError } from './errors.js';
+import { FormatType } from '../semantic/format-semantics.js';
+import { JsonAdapter } from '../adapters/json-adapter.js';
+import { XmlAdapter } from '../adapters/xml-adapter.js';
+import { CsvAdapter } from '../adapters/csv-adapter.js';
+import { load, run } from '../test-helpers.js';
+
+function json(text: string): FNode {
+  return load(JsonAdapter.string(text)).data;
+}
+
+function output(node: FNode): unknown {
+  return new PipeFitter().from(node).to(JsonAdapter.output());
+}
+
+const before = json('{"name":"ann","tags":["a","b","c"],"address":{"city":"Oslo"}}');
+const after = json('{"name":"Ann","tags":["a","c"],"age":31,"address":{"city":"Oslo"}}');
+
+test('lists changed, removed and added nodes', () => {
+  const changes = diffNodes(before, after);
+
+  assert.deepEqual(changes.map(change => [change.kind, change.path]), [
+    ['changed', 'root/name'],
+    ['removed', 'root/tags/2'],
+    ['changed', 'root/tags/1'],
+    ['added', 'root/age']
+  ]);
+  assert.deepEqual(summarizeChanges(changes), { added: 1, removed: 1, changed: 2 });
+});
+
+test('the rendered JSON Patch turns the baseline into the current tree', () => {
+  const patch = toJsonPatch(diffNodes(before, after));
+
+  assert.deepEqual(patch, [
+    { op: 'replace', path: '/name', value: 'Ann' },
+    { op: 'remove', path: '/tags/2' },
+    { op: 'replace', path: '/tags/1', value: 'c' },
+    { op: 'add', path: '/age', value: 31 }
+  ]);
+  assert.deepEqual(output(applyPatch(before, patch)), output(after));
+});
+
+test('applyPatch supports move, copy, test and array appends', () => {
+  const result = applyPatch(json('{"a":{"b":1},"list":[1,2]}'), [
+    { op: 'test', path: '/a', value: { b: 1 } },
+    { op: 'move', from: '/a/b', path: '/c' },
+    { op: 'copy', from: '/c', path: '/list/-' },
+    { op: 'add', path: '/list/0', value: 0 }
+  ]);
+
+  assert.deepEqual(output(result), { a: {}, list: [0, 1, 2, 1], c: 1 });
+});
+
+test('applyPatch fails with a PatchError and leaves the input untouched', () => {
+  const node = json('{"a":1}');
+
+  assert.throws(() => applyPatch(node, [{ op: 'remove', path: '/a' }, { op: 'remove', path: '/missing' }]), PatchError);
+  assert.throws(() => applyPatch(node, [{ op: 'test', path: '/a', value: 2 }]), /Test failed at "\/a"/);
+  assert.throws(() => applyPatch(node, [{ op: 'move', from: '/a', path: '/a/b' }]), PatchError);
+  assert.deepEqual(output(node), { a: 1 });
+});
+
+test('XML changes are reported by element path and attribute', () => {
+  const changes = diffNodes(
+    load(XmlAdapter.string('<lib><book lang="en"/><book lang="de"/></lib>')).data,
+    load(XmlAdapter.string('<lib><book lang="en"/><book lang="fr"/></lib>')).data
+  );
+
+  assert.deepEqual(changes.map(change => [change.kind, change.path, change.attribute]), [['changed', '#document/lib/book[1]/@lang', true]]);
+  assert.throws(() => toJsonPatch(changes), FormatError);
+});
+
+test('the diff step records the diff or replaces the data with the patch', () => {
+  const message = run(new PipeFitter({ defaultFormat: FormatType.JSON })
+    .from(JsonAdapter.string('{"n":2}'))
+    .diff(json('{"n":1}')));
+
+  assert.deepEqual(message.metadata.diff.summary, { added: 0, removed: 0, changed: 1 });
+  assert.deepEqual(message.metadata.diff.patch, [{ op: 'replace', path: '/n', value: 2 }]);
+
+  const patch = new PipeFitter()
+    .from(JsonAdapter.string('{"n":2}'))
+    .diff(new PipeFitter().from(JsonAdapter.string('{"n":1}')), { output: 'patch' })
+    .to(JsonAdapter.output());
+
+  assert.deepEqual(patch, [{ op: 'replace', path: '/n', value: 2 }]);
+});
+
+test('XML data keeps its diff under the default config and cannot become a patch', () => {
+  const baseline = load(XmlAdapter.string('<lib><book lang="en"/></lib>')).data;
+  const message = run(new PipeFitter().from(XmlAdapter.string('<lib><book lang="de"/></lib>')).diff(baseline));
+
+  assert.deepEqual(message.metadata.diff.summary, { added: 0, removed: 0, changed: 1 });
+  assert.equal(message.metadata.diff.patch, undefined);
+  assert.throws(
+    () => new PipeFitter().from(XmlAdapter.string('<lib><book/></lib>')).diff(baseline, { output: 'patch' }).to(JsonAdapter.output()),
+    FormatError
+  );
+});
+
+test('CSV rows are addressed by position in the patch', () => {
+  const baseline = load(CsvAdapter.string('a\n1\n2\n')).data;
+  const patch = new PipeFitter()
+    .from(CsvAdapter.string('a\n1\n3\n'))
+    .diff(baseline, { output: 'patch' })
+    .to(JsonAdapter.output());
+
+  assert.deepEqual(patch, [{ op: 'replace', path: '/1/a', value: '3' }]);
+});
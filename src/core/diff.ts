@@ -0,0 +1,436 @@
+import { Message } from './message.js';
+import { FNode, FNodeType, Primitive, dataChildren, spliceDataChildren } from './fnode.js';
+import { FormatError, PatchError } from './errors.js';
+import { valuesEqual } from './typed-values.js';
+import { FormatType } from '../semantic/format-semantics.js';
+import { jsonToFNode, fnodeToJson } from '../adapters/json-adapter.js';
+
+/**
+ * Kind of difference between a baseline node and the current one
+ */
+export type ChangeKind = 'added' | 'removed' | 'changed';
+
+/**
+ * Node properties compared by diffNodes
+ */
+export type NodeProperty = 'type' | 'ns' | 'value';
+
+/**
+ * One entry of a format-neutral change list
+ */
+export interface NodeChange {
+  kind: ChangeKind;
+
+  /** Slash-separated location, e.g. "root/users/2/name" or "#document/library/book[1]/@lang" */
+  path: string;
+
+  /** RFC 6901 pointer to the node, relative to the root */
+  pointer: string;
+
+  /** Whether the node is an attribute */
+  attribute: boolean;
+
+  /** Node in the baseline (removed and changed nodes) */
+  before?: FNode;
+
+  /** Node in the current tree (added and changed nodes) */
+  after?: FNode;
+
+  /** Properties that differ, for changed nodes. A type change replaces the whole subtree. */
+  properties?: NodeProperty[];
+}
+
+/**
+ * Counts of each kind of change
+ */
+export interface DiffSummary {
+  added: number;
+  removed: number;
+  changed: number;
+}
+
+/**
+ * RFC 6902 JSON Patch operation
+ */
+export interface JsonPatchOperation {
+  op: 'add' | 'remove' | 'replace' | 'move' | 'copy' | 'test';
+  path: string;
+  value?: unknown;
+  from?: string;
+}
+
+/**
+ * Options for the diff() pipeline step
+ */
+export interface DiffOptions {
+  /**
+   * Format of the data (defaults to config.defaultFormat). JSON data also gets a patch,
+   * unless it has attributes or repeated element names, which JSON Patch cannot address.
+   */
+  format?: FormatType;
+
+  /**
+   * What the step produces
+   * - metadata: keep the data and record the diff in metadata.diff (default)
+   * - patch: replace the data with the JSON Patch document; data that JSON Patch cannot
+   *   address fails with a FormatError
+   */
+  output?: 'metadata' | 'patch';
+}
+
+/**
+ * Compare two trees. Children are paired by name, repeated siblings (and array items)
+ * by position; attributes by name. Comments and processing instructions are ignored.
+ * Removals under a parent are listed last-first, so the change list can be replayed in order.
+ */
+export function diffNodes(before: FNode, after: FNode): NodeChange[] {
+  const changes: NodeChange[] = [];
+  compareNodes(before, after, after.name, '', changes);
+  return changes;
+}
+
+/**
+ * Count the changes of each kind
+ */
+export function summarizeChanges(changes: NodeChange[]): DiffSummary {
+  const summary: DiffSummary = { added: 0, removed: 0, changed: 0 };
+  for (const change of changes) {
+    summary[change.kind]++;
+  }
+  return summary;
+}
+
+/**
+ * Render a change list as a JSON Patch turning the baseline into the current tree.
+ * Attributes and namespaces have no JSON form: attribute changes are rejected and
+ * namespace-only changes are skipped.
+ */
+export function toJsonPatch(changes: NodeChange[]): JsonPatchOperation[] {
+  const patch: JsonPatchOperation[] = [];
+
+  for (const change of changes) {
+    if (change.attribute) {
+      throw new FormatError('JSON Patch cannot express attribute changes', { path: change.path });
+    }
+
+    switch (change.kind) {
+      case 'added':
+        patch.push({ op: 'add', path: change.pointer, value: fnodeToJson(change.after!) });
+        break;
+      case 'removed':
+        patch.push({ op: 'remove', path: change.pointer });
+        break;
+      case 'changed':
+        if (change.properties!.some(property => property !== 'ns')) {
+          patch.push({ op: 'replace', path: change.pointer, value: fnodeToJson(change.after!) });
+        }
+        break;
+    }
+  }
+
+  return patch;
+}
+
+/**
+ * Apply a JSON Patch to a tree, returning a new tree. Arrays are COLLECTION nodes whose
+ * items are renumbered after insertions and removals; leaves replaced by a primitive keep
+ * their node type. Fails with a PatchError, leaving the input untouched.
+ */
+export function applyPatch(node: FNode, patch: JsonPatchOperation[]): FNode {
+  return patch.reduce(applyOperation, node);
+}
+
+/**
+ * Diff a message against a baseline tree, recording the result in metadata.diff
+ */
+export function diffMessage(message: Message, baseline: FNode, format: FormatType, output: DiffOptions['output'] = 'metadata'): Message {
+  const changes = diffNodes(baseline, message.data);
+  const addressable = isJsonShaped(baseline) && isJsonShaped(message.data);
+  if (output === 'patch' && !addressable) {
+    throw new FormatError('JSON Patch cannot address data with attributes or repeated element names', { format });
+  }
+  const patch = addressable && (format === FormatType.JSON || output === 'patch') ? toJsonPatch(changes) : undefined;
+
+  return {
+    ...message,
+    data: output === 'patch' ? jsonToFNode(patch) : message.data,
+    metadata: {
+      ...message.metadata,
+      diff: {
+        changes,
+        summary: summarizeChanges(changes),
+        ...(patch ? { patch } : {})
+      }
+    }
+  };
+}
+
+/**
+ * Whether JSON pointers can address every node: no attributes, and no repeated names
+ * among a record's children (as XML siblings)
+ */
+function isJsonShaped(node: FNode): boolean {
+  if (node.attributes?.length) return false;
+
+  const children = dataChildren(node);
+  if (node.type !== FNodeType.COLLECTION && new Set(children.map(child => child.name)).size < children.length) return false;
+  return children.every(isJsonShaped);
+}
+
+function compareNodes(before: FNode, after: FNode, path: string, pointer: string, changes: NodeChange[]): void {
+  const properties = changedProperties(before, after);
+  if (properties.length > 0) {
+    changes.push({ kind: 'changed', path, pointer, attribute: false, before, after, properties });
+  }
+  if (properties.includes('type')) return;
+
+  compareAttributes(before, after, path, pointer, changes);
+  compareChildren(before, after, path, pointer, changes);
+}
+
+function changedProperties(before: FNode, after: FNode): NodeProperty[] {
+  const properties: NodeProperty[] = [];
+  if (before.type !== after.type) properties.push('type');
+  if (before.ns !== after.ns) properties.push('ns');
+  if (!valuesEqual(before.value, after.value) || before.valueType !== after.valueType) properties.push('value');
+  return properties;
+}
+
+function compareAttributes(before: FNode, after: FNode, path: string, pointer: string, changes: NodeChange[]): void {
+  const previous = new Map((before.attributes || []).map(attr => [attr.name, attr]));
+  const current = new Set((after.attributes || []).map(attr => attr.name));
+  const location = (attr: FNode) => ({
+    path: `${path}/@${qualifiedName(attr)}`,
+    pointer: `${pointer}/@${escapePointer(attr.name)}`,
+    attribute: true
+  });
+
+  for (const attr of before.attributes || []) {
+    if (!current.has(attr.name)) changes.push({ kind: 'removed', ...location(attr), before: attr });
+  }
+
+  for (const attr of after.attributes || []) {
+    const match = previous.get(attr.name);
+    if (!match) {
+      changes.push({ kind: 'added', ...location(attr), after: attr });
+      continue;
+    }
+
+    const properties = changedProperties(match, attr);
+    if (properties.length > 0) {
+      changes.push({ kind: 'changed', ...location(attr), before: match, after: attr, properties });
+    }
+  }
+}
+
+function compareChildren(before: FNode, after: FNode, path: string, pointer: string, changes: NodeChange[]): void {
+  const previous = childrenByName(before);
+  const current = childrenByName(after);
+
+  const removed: FNode[] = [];
+  for (const [name, nodes] of previous) {
+    removed.push(...nodes.slice(current.get(name)?.length ?? 0));
+  }
+  const order = dataChildren(before);
+  removed.sort((a, b) => order.indexOf(b) - order.indexOf(a));
+
+  for (const node of removed) {
+    const occurrence = previous.get(node.name)!.indexOf(node);
+    changes.push({ kind: 'removed', ...childLocation(before, node, occurrence, order.indexOf(node), path, pointer), before: node });
+  }
+
+  const seen = new Map<string, number>();
+  dataChildren(after).forEach((node, index) => {
+    const occurrence = seen.get(node.name) ?? 0;
+    seen.set(node.name, occurrence + 1);
+
+    const location = childLocation(after, node, occurrence, index, path, pointer);
+    const match = previous.get(node.name)?.[occurrence];
+    if (match) {
+      compareNodes(match, node, location.path, location.pointer, changes);
+    } else {
+      changes.push({ kind: 'added', ...location, after: node });
+    }
+  });
+}
+
+/**
+ * Path and pointer of a child. Collection items are addressed by position in pointers,
+ * as JSON arrays; other repeated names carry their occurrence, as in `row[1]`.
+ */
+function childLocation(parent: FNode, node: FNode, occurrence: number, index: number, path: string, pointer: string) {
+  const name = qualifiedName(node);
+  const segment = parent.type === FNodeType.COLLECTION
+    ? String(index)
+    : occurrence > 0 ? `${node.name}[${occurrence}]` : node.name;
+
+  return {
+    path: `${path}/${occurrence > 0 ? `${name}[${occurrence}]` : name}`,
+    pointer: `${pointer}/${escapePointer(segment)}`,
+    attribute: false
+  };
+}
+
+function childrenByName(node: FNode): Map<string, FNode[]> {
+  const children = new Map<string, FNode[]>();
+  for (const child of dataChildren(node)) {
+    if (!children.has(child.name)) children.set(child.name, []);
+    children.get(child.name)!.push(child);
+  }
+  return children;
+}
+
+function qualifiedName(node: FNode): string {
+  return node.label ? `${node.label}:${node.name}` : node.name;
+}
+
+function escapePointer(segment: string): string {
+  return segment.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+function parsePointer(pointer: string, operation: JsonPatchOperation): string[] {
+  if (pointer === '') return [];
+  if (!pointer.startsWith('/')) {
+    throw new PatchError(`Invalid JSON pointer "${pointer}"`, { operation });
+  }
+  return pointer.substring(1).split('/').map(segment => segment.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+function applyOperation(root: FNode, operation: JsonPatchOperation): FNode {
+  const path = parsePointer(operation.path, operation);
+
+  switch (operation.op) {
+    case 'add':
+      return addAt(root, path, jsonToFNode(operation.value), operation);
+
+    case 'remove':
+      return removeAt(root, path, operation);
+
+    case 'replace': {
+      const existing = getAt(root, path, operation);
+      const isPrimitive = operation.value === null || typeof operation.value !== 'object';
+      const isLeaf = existing.type !== FNodeType.RECORD && existing.type !== FNodeType.COLLECTION && !existing.children?.length;
+      const replacement = isPrimitive && isLeaf
+        ? { ...existing, value: operation.value as Primitive }
+        : jsonToFNode(operation.value, existing.name);
+      return updateAt(root, path, () => replacement, operation);
+    }
+
+    case 'move': {
+      const from = parsePointer(requireFrom(operation), operation);
+      if (path.length > from.length && from.every((segment, index) => path[index] === segment)) {
+        throw new PatchError('Cannot move a node into one of its own descendants', { operation });
+      }
+      const moved = getAt(root, from, operation);
+      return addAt(removeAt(root, from, operation), path, moved, operation);
+    }
+
+    case 'copy':
+      return addAt(root, path, getAt(root, parsePointer(requireFrom(operation), operation), operation), operation);
+
+    case 'test':
+      if (!jsonEqual(fnodeToJson(getAt(root, path, operation)), operation.value)) {
+        throw new PatchError(`Test failed at "${operation.path}"`, { operation });
+      }
+      return root;
+
+    default:
+      throw new PatchError(`Unknown JSON Patch operation "${(operation as JsonPatchOperation).op}"`, { operation });
+  }
+}
+
+function requireFrom(operation: JsonPatchOperation): string {
+  if (operation.from === undefined) {
+    throw new PatchError(`"${operation.op}" requires a "from" pointer`, { operation });
+  }
+  return operation.from;
+}
+
+function getAt(root: FNode, path: string[], operation: JsonPatchOperation): FNode {
+  let current = root;
+  for (const segment of path) {
+    current = dataChildren(current)[childIndex(current, segment, operation, false)];
+  }
+  return current;
+}
+
+/**
+ * Replace the node at a path, copying its ancestors
+ */
+function updateAt(root: FNode, path: string[], update: (node: FNode) => FNode, operation: JsonPatchOperation): FNode {
+  if (path.length === 0) return update(root);
+  return updateParent(root, path, (parent, segment) => {
+    const index = childIndex(parent, segment, operation, false);
+    return spliceDataChildren(parent, index, 1, [update(dataChildren(parent)[index])]);
+  }, operation);
+}
+
+function addAt(root: FNode, path: string[], node: FNode, operation: JsonPatchOperation): FNode {
+  if (path.length === 0) return { ...node, name: root.name };
+
+  return updateParent(root, path, (parent, segment) => {
+    if (parent.type === FNodeType.COLLECTION) {
+      return spliceDataChildren(parent, childIndex(parent, segment, operation, true), 0, [node]);
+    }
+    const existing = dataChildren(parent).findIndex(child => child.name === segment);
+    const named = { ...node, name: segment };
+    return existing === -1
+      ? { ...parent, children: [...(parent.children || []), named] }
+      : spliceDataChildren(parent, existing, 1, [named]);
+  }, operation);
+}
+
+function removeAt(root: FNode, path: string[], operation: JsonPatchOperation): FNode {
+  if (path.length === 0) {
+    throw new PatchError('Cannot remove the root node', { operation });
+  }
+  return updateParent(root, path, (parent, segment) =>
+    spliceDataChildren(parent, childIndex(parent, segment, operation, false), 1, []), operation);
+}
+
+function updateParent(
+  node: FNode,
+  path: string[],
+  update: (parent: FNode, segment: string) => FNode,
+  operation: JsonPatchOperation
+): FNode {
+  const [segment, ...rest] = path;
+  if (rest.length === 0) return update(node, segment);
+
+  const index = childIndex(node, segment, operation, false);
+  return spliceDataChildren(node, index, 1, [updateParent(dataChildren(node)[index], rest, update, operation)]);
+}
+
+/**
+ * Position of a pointer segment among a node's data children
+ * Arrays take numeric indexes, plus "-" (the end) when adding.
+ */
+function childIndex(node: FNode, segment: string, operation: JsonPatchOperation, adding: boolean): number {
+  const children = dataChildren(node);
+
+  if (node.type === FNodeType.COLLECTION) {
+    const index = adding && segment === '-' ? children.length : /^(0|[1-9]\d*)$/.test(segment) ? Number(segment) : -1;
+    if (index < 0 || index > children.length || (!adding && index === children.length)) {
+      throw new PatchError(`Index "${segment}" is out of range at "${operation.path}"`, { operation });
+    }
+    return index;
+  }
+
+  const index = children.findIndex(child => child.name === segment);
+  if (index === -1) {
+    throw new PatchError(`No node "${segment}" at "${operation.path}"`, { operation });
+  }
+  return index;
+}
+
+function jsonEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+  const left = a as Record<string, unknown>;
+  const right = b as Record<string, unknown>;
+  const keys = Object.keys(left);
+  if (keys.length !== Object.keys(right).length) return false;
+  return keys.every(key => Object.prototype.hasOwnProperty.call(right, key) && jsonEqual(left[key], right[key]));
+}
@@ -50,4 +50,44 @@ export class ConfigurationError extends PipeFitterError {
     super(message, 'CONFIGURATION_ERROR', context);
     this.name = 'ConfigurationError';
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Path query errors
+ */
+export class QueryError extends PipeFitterError {
+  constructor(message: string, context?: unknown) {
+    super(message, 'QUERY_ERROR', context);
+    this.name = 'QueryError';
+  }
+}
+
+/**
+ * JSON Patch application errors
+ */
+export class PatchError extends PipeFitterError {
+  constructor(message: string, context?: unknown) {
+    super(message, 'PATCH_ERROR', context);
+    this.name = 'PatchError';
+  }
+}
+
+/**
+ * Schema validation errors; context.violations lists every failed check
+ */
+export class ValidationError extends PipeFitterError {
+  constructor(message: string, context?: unknown) {
+    super(message, 'VALIDATION_ERROR', context);
+    this.name = 'ValidationError';
+  }
+}
+
+/**
+ * Graph structure errors, such as a cycle where a tree is required; context.path locates it
+ */
+export class GraphError extends PipeFitterError {
+  constructor(message: string, context?: unknown) {
+    super(message, 'GRAPH_ERROR', context);
+    this.name = 'GraphError';
+  }
+}
@@ -1,4 +1,10 @@
-export type Primitive = string | number | boolean | null;
+export type Primitive = string | number | boolean | null | Date | bigint | Uint8Array;
+
+/**
+ * Type tag of a leaf value. Dates are timestamps, Uint8Arrays bytes; decimals are exact
+ * numeric strings (e.g. financial amounts) and need the tag to be told apart from text.
+ */
+export type ValueType = 'string' | 'number' | 'boolean' | 'null' | 'timestamp' | 'decimal' | 'bigint' | 'bytes';
 
 /**
  * Generic node types for format-neutral representation
@@ -28,6 +34,9 @@ export interface FNode {
   /** Primitive value for leaf nodes */
   value?: Primitive;
   
+  /** Type tag for the value; inferred from its JavaScript type when absent */
+  valueType?: ValueType;
+  
   /** Optional unique identifier */
   id?: string;
   
@@ -53,9 +62,10 @@ export interface FNode {
 export function createFNode(
   type: FNodeType,
   name: string,
-  value?: Primitive
+  value?: Primitive,
+  valueType?: ValueType
 ): FNode {
-  return { type, name, value };
+  return valueType === undefined ? { type, name, value } : { type, name, value, valueType };
 }
 
 /**
@@ -65,4 +75,89 @@ export function isFNode(obj: any): obj is FNode {
   return obj && typeof obj === 'object' && 
          typeof obj.type === 'string' && 
          typeof obj.name === 'string';
-}
\ No newline at end of file
+}
+
+/**
+ * Check if a node is whitespace-only text between XML elements, which XmlAdapter keeps
+ * so documents round-trip unchanged but which carries no data
+ */
+export function isFormattingWhitespace(node: FNode): boolean {
+  return node.type === FNodeType.VALUE && node.name === '#text' &&
+         typeof node.value === 'string' && node.value.trim() === '';
+}
+
+/**
+ * Check if a node carries data: not a comment, processing instruction or formatting whitespace
+ */
+export function isDataNode(node: FNode): boolean {
+  return node.type !== FNodeType.COMMENT && node.type !== FNodeType.INSTRUCTION && !isFormattingWhitespace(node);
+}
+
+/**
+ * Children that carry data, in document order
+ */
+export function dataChildren(node: FNode): FNode[] {
+  return (node.children || []).filter(isDataNode);
+}
+
+/**
+ * A field of a node read as plain data. Repeated child names (XML siblings) form one field.
+ */
+export interface ObjectField {
+  name: string;
+  nodes: FNode[];
+}
+
+/**
+ * Fields of a node read as plain data: attributes as `@name`, element text as `#text`,
+ * then children by name
+ */
+export function objectFields(node: FNode): ObjectField[] {
+  const fields: ObjectField[] = (node.attributes || []).map(attribute => ({
+    name: `@${attribute.name}`,
+    nodes: [attribute]
+  }));
+
+  if (node.value !== undefined && node.value !== null) {
+    fields.push({ name: '#text', nodes: [{ type: FNodeType.VALUE, name: '#text', value: node.value }] });
+  }
+
+  const groups = new Map<string, FNode[]>();
+  for (const child of dataChildren(node)) {
+    if (!groups.has(child.name)) groups.set(child.name, []);
+    groups.get(child.name)!.push(child);
+  }
+  for (const [name, nodes] of groups) {
+    fields.push({ name, nodes });
+  }
+
+  return fields;
+}
+
+/**
+ * The element of a parsed XML document (the "#document" collection XmlAdapter returns),
+ * or the node itself
+ */
+export function documentElement(node: FNode): FNode {
+  if (node.type !== FNodeType.COLLECTION || node.name !== '#document') return node;
+  return node.children?.find(child => child.type === FNodeType.RECORD || child.type === FNodeType.FIELD) ?? node;
+}
+
+/**
+ * Replace data children from a position, keeping the other children in place and
+ * renumbering collection items
+ */
+export function spliceDataChildren(parent: FNode, index: number, remove: number, insert: FNode[]): FNode {
+  const data = dataChildren(parent);
+  data.splice(index, remove, ...insert);
+
+  const items = parent.type === FNodeType.COLLECTION
+    ? data.map((child, position) => child.name === String(position) ? child : { ...child, name: String(position) })
+    : data;
+
+  let next = 0;
+  const children = (parent.children || []).flatMap(child =>
+    !isDataNode(child) ? [child] : next < items.length ? [items[next++]] : []
+  );
+  return { ...parent, children: [...children, ...items.slice(next)] };
+}
@@ -0,0 +1,77 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { collectNodes, findCycle, indexById } from './graph.js';
+import { FNode, FNodeType, createFNode } from './fnode.js';
+import { GraphError } from './errors.js';
+import { PipeFitter } from './pipefitter.js';
+import { FormatType } from '../semantic/format-semantics.js';
+import { createTransformationEngine } from '../semantic/transformation-engine.js';
+import { JsonAdapter } from '../adapters/json-adapter.js';
+import { load } from '../test-helpers.js';
+
+/**
+ * people → [alice, bob], where alice.friend is bob and bob.friend is alice
+ */
+function friends(): { root: FNode; alice: FNode; bob: FNode } {
+  const alice: FNode = { type: FNodeType.RECORD, name: '0', id: 'alice', children: [createFNode(FNodeType.VALUE, 'name', 'Alice')] };
+  const bob: FNode = { type: FNodeType.RECORD, name: '1', id: 'bob', children: [createFNode(FNodeType.VALUE, 'name', 'Bob')] };
+  alice.children!.push(bob);
+  bob.children!.push(alice);
+  bob.parents = [alice];
+
+  const people: FNode = { type: FNodeType.COLLECTION, name: 'people', children: [alice, bob] };
+  return { root: { type: FNodeType.RECORD, name: 'root', children: [people] }, alice, bob };
+}
+
+test('visits each node of a cyclic graph once', () => {
+  const { root, alice, bob } = friends();
+  const nodes = collectNodes(root);
+
+  assert.equal(nodes.length, 6);
+  assert.equal(nodes.filter(node => node === alice).length, 1);
+  assert.equal(indexById(root).get('bob'), bob);
+});
+
+test('findCycle names the path back to an ancestor', () => {
+  assert.deepEqual(findCycle(friends().root), ['root', 'people', '0', '1', '0']);
+  assert.equal(findCycle({ type: FNodeType.RECORD, name: 'root', children: [] }), undefined);
+});
+
+test('transformations keep shared nodes shared and terminate on cycles', () => {
+  const { root } = friends();
+  const transformed = createTransformationEngine().transform(root, FormatType.JSON, FormatType.XML);
+
+  const [alice, bob] = transformed.children![0].children!;
+  assert.equal(alice.children![1], bob);
+  assert.equal(bob.children![1], alice);
+  assert.deepEqual(bob.parents, [alice]);
+});
+
+test('JSON output fails on a cycle unless references are written as $ref', () => {
+  const { root } = friends();
+
+  assert.throws(
+    () => new PipeFitter().from(root).to(JsonAdapter.output()),
+    (error: unknown) => error instanceof GraphError && (error.context as { path: string }).path === '/people/0/1/0'
+  );
+
+  const text = new PipeFitter().from(root).to(JsonAdapter.stringify({ references: 'ref' })) as string;
+  assert.deepEqual(JSON.parse(text), {
+    people: [{ $id: 'alice', name: 'Alice', 1: { $id: 'bob', name: 'Bob', 0: { $ref: 'alice' } } }, { $ref: 'bob' }]
+  });
+
+  const message = load(JsonAdapter.string(text, { references: 'ref' }));
+  const [alice, bob] = message.data.children![0].children!;
+  const friend = (node: FNode, name: string) => node.children!.find(child => child.name === name)!;
+  assert.equal(friend(alice, '1').children, bob.children);
+  assert.equal(friend(bob, '0').children, alice.children);
+});
+
+test('an object shared in JsonAdapter.object input becomes one shared node', () => {
+  const address = { city: 'Oslo' };
+  const message = load(JsonAdapter.object({ home: address, work: address }));
+
+  const [home, work] = message.data.children!;
+  assert.equal(home.children, work.children);
+  assert.deepEqual(new PipeFitter().from(message.data).to(JsonAdapter.output()), { home: { city: 'Oslo' }, work: { city: 'Oslo' } });
+});
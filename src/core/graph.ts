@@ -0,0 +1,94 @@
+import { FNode } from './fnode.js';
+
+/**
+ * Links followed when walking an FNode graph
+ */
+export type GraphEdge = 'attributes' | 'children' | 'parents';
+
+const ALL_EDGES: GraphEdge[] = ['attributes', 'children', 'parents'];
+
+/**
+ * Visit every node reachable from the root exactly once, depth-first, following edges in
+ * the given order. Shared nodes and cycles are safe: identity decides whether a node was
+ * already seen.
+ */
+export function visitGraph(
+  root: FNode,
+  visit: (node: FNode) => void,
+  edges: GraphEdge[] = ALL_EDGES
+): void {
+  const seen = new Set<FNode>();
+  const stack: FNode[] = [root];
+
+  while (stack.length > 0) {
+    const node = stack.pop()!;
+    if (seen.has(node)) continue;
+    seen.add(node);
+    visit(node);
+
+    // Pushed in reverse so that linked nodes come off the stack in edge order
+    for (const edge of [...edges].reverse()) {
+      const linked = node[edge];
+      if (!linked) continue;
+      for (let i = linked.length - 1; i >= 0; i--) {
+        if (!seen.has(linked[i])) stack.push(linked[i]);
+      }
+    }
+  }
+}
+
+/**
+ * Every node reachable from the root, each once
+ */
+export function collectNodes(root: FNode, edges: GraphEdge[] = ALL_EDGES): FNode[] {
+  const nodes: FNode[] = [];
+  visitGraph(root, node => nodes.push(node), edges);
+  return nodes;
+}
+
+/**
+ * Nodes carrying an id, by id; the first in document order wins
+ */
+export function indexById(root: FNode, edges: GraphEdge[] = ALL_EDGES): Map<string, FNode> {
+  const index = new Map<string, FNode>();
+  visitGraph(root, node => {
+    if (node.id !== undefined && !index.has(node.id)) index.set(node.id, node);
+  }, edges);
+  return index;
+}
+
+/**
+ * Whether two nodes are the same graph node: the same object, or carrying the same id
+ */
+export function sameNode(a: FNode, b: FNode): boolean {
+  return a === b || (a.id !== undefined && a.id === b.id);
+}
+
+/**
+ * The first cycle through children and attributes, as the names from the root to the
+ * node that leads back to an ancestor, or undefined for a tree (or DAG)
+ */
+export function findCycle(root: FNode): string[] | undefined {
+  const done = new Set<FNode>();
+  const ancestors: FNode[] = [];
+  const names: string[] = [];
+
+  const walk = (node: FNode): string[] | undefined => {
+    if (ancestors.some(ancestor => sameNode(ancestor, node))) return [...names, node.name];
+    if (done.has(node)) return undefined;
+
+    ancestors.push(node);
+    names.push(node.name);
+    for (const next of [...(node.attributes || []), ...(node.children || [])]) {
+      const cycle = walk(next);
+      if (cycle) return cycle;
+    }
+    ancestors.pop();
+    names.pop();
+
+    done.add(node);
+    return undefined;
+  };
+
+  return walk(root);
+}
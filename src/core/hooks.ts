@@ -0,0 +1,24 @@
+import { Message } from './message.js';
+import type { PipelineHook } from './pipefitter.js';
+
+/**
+ * Run a step's before hook, keeping the message when the hook returns nothing
+ */
+export function applyBeforeHook(message: Message, hooks?: PipelineHook): Message {
+  if (hooks?.before) {
+    const beforeResult = hooks.before(message);
+    if (beforeResult) return beforeResult;
+  }
+  return message;
+}
+
+/**
+ * Run a step's after hook, keeping the message when the hook returns nothing
+ */
+export function applyAfterHook(message: Message, hooks?: PipelineHook): Message {
+  if (hooks?.after) {
+    const afterResult = hooks.after(message);
+    if (afterResult) return afterResult;
+  }
+  return message;
+}
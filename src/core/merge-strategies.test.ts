@@ -0,0 +1,88 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { MergeStrategies } from './merge-strategies.js';
+import { PipeFitter } from './pipefitter.js';
+import { Message } from './message.js';
+import { TransformationError } from './errors.js';
+import { FormatType } from '../semantic/format-semantics.js';
+import { JsonAdapter } from '../adapters/json-adapter.js';
+import { XmlAdapter } from '../adapters/xml-adapter.js';
+import { load } from '../test-helpers.js';
+
+const library = '<lib><book id="1"><title>A</title></book><book id="2"><title>B</title></book></lib>';
+
+function xml(text: string): Message {
+  return load(XmlAdapter.string(text), { defaultFormat: FormatType.XML });
+}
+
+function json(text: string): Message {
+  return load(JsonAdapter.string(text));
+}
+
+test('deepMerge merges records and records conflicts', () => {
+  const result = MergeStrategies.deepMerge()(json('{"a":1,"b":{"c":2}}'), json('{"a":0,"b":{"d":3}}'));
+
+  assert.deepEqual(new PipeFitter().from(result.data).to(JsonAdapter.output()), { a: 1, b: { d: 3, c: 2 } });
+  assert.deepEqual(result.metadata.merge.conflicts, [{ path: 'root/a', parent: 0, branch: 1, resolution: 'branch' }]);
+});
+
+test('deepMerge fails on conflicts when onConflict is error', () => {
+  assert.throws(() => MergeStrategies.deepMerge({ onConflict: 'error' })(json('{"a":1}'), json('{"a":2}')), TransformationError);
+});
+
+test('append renumbers JSON array items', () => {
+  const result = MergeStrategies.append()(json('[{"id":3}]'), json('[{"id":1},{"id":2}]'));
+
+  assert.deepEqual(new PipeFitter().from(result.data).to(JsonAdapter.output()), [{ id: 1 }, { id: 2 }, { id: 3 }]);
+});
+
+test('append adds XML items under the document element', () => {
+  const result = MergeStrategies.append({ format: FormatType.XML })(
+    xml('<lib><book id="3"><title>C</title></book></lib>'),
+    xml(library)
+  );
+
+  assert.equal(
+    XmlAdapter.stringify().handle(result),
+    '<lib><book id="1"><title>A</title></book><book id="2"><title>B</title></book><book id="3"><title>C</title></book></lib>'
+  );
+});
+
+test('upsert matches XML items by attribute key and appends the rest', () => {
+  const result = MergeStrategies.upsert('id', { format: FormatType.XML })(
+    xml('<lib><book id="2"><title>B2</title></book><book id="4"><title>D</title></book></lib>'),
+    xml(library)
+  );
+
+  assert.equal(
+    XmlAdapter.stringify().handle(result),
+    '<lib><book id="1"><title>A</title></book><book id="2"><title>B2</title></book><book id="4"><title>D</title></book></lib>'
+  );
+  assert.equal(result.metadata.merge.updated, 1);
+  assert.equal(result.metadata.merge.inserted, 1);
+});
+
+test('upsert in merge mode deep-merges matching JSON items', () => {
+  const result = MergeStrategies.upsert('id', { mode: 'merge' })(
+    json('[{"id":1,"name":"ann"}]'),
+    json('[{"id":1,"age":31},{"id":2}]')
+  );
+
+  assert.deepEqual(new PipeFitter().from(result.data).to(JsonAdapter.output()), [{ id: 1, age: 31, name: 'ann' }, { id: 2 }]);
+});
+
+test('fold applies a pairwise strategy to every routed result', () => {
+  const output = new PipeFitter()
+    .from(JsonAdapter.string('[{"id":1}]'))
+    .switch({
+      mode: 'all',
+      cases: [
+        { name: 'a', when: () => true, pipeline: branch => branch.map(message => ({ ...message, data: json('[{"id":2}]').data })) },
+        { name: 'b', when: () => true, pipeline: branch => branch.filter(() => false) }
+      ],
+      merge: MergeStrategies.fold(MergeStrategies.append())
+    })
+    .to(JsonAdapter.output());
+
+  assert.deepEqual(output, [{ id: 1 }, { id: 2 }]);
+});
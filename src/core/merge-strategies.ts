@@ -0,0 +1,361 @@
+import { Message } from './message.js';
+import { FNode, FNodeType, Primitive } from './fnode.js';
+import { TransformationError } from './errors.js';
+import { formatValue, valuesEqual } from './typed-values.js';
+import type { BranchResult } from './pipefitter.js';
+import { FormatType } from '../semantic/format-semantics.js';
+import { FormatAwareOperations } from '../semantic/format-aware-operations.js';
+import { createTransformationEngine } from '../semantic/transformation-engine.js';
+
+/**
+ * Strategy accepted by PipeFitter.merge()
+ */
+export type MergeStrategy = (branch: Message, parent: Message) => Message;
+
+/**
+ * How a collision between parent and branch values is resolved
+ * - branch: the branch value wins (default)
+ * - parent: the parent value is kept
+ * - error: the merge fails with a TransformationError listing every collision
+ */
+export type ConflictResolution = 'branch' | 'parent' | 'error';
+
+/**
+ * Options shared by merging strategies
+ */
+export interface MergeOptions {
+  onConflict?: ConflictResolution;
+}
+
+/**
+ * A collision recorded in metadata.merge.conflicts
+ */
+export interface MergeConflict {
+  /** Slash-separated location, e.g. "root/users/2/name" or "library/book[1]/@lang" */
+  path: string;
+  parent: Primitive | FNodeType | undefined;
+  branch: Primitive | FNodeType | undefined;
+  resolution: 'branch' | 'parent';
+}
+
+/**
+ * Options for strategies that work on items
+ */
+export interface ItemMergeOptions {
+  /** Format whose semantics locate items (defaults to config.defaultFormat) */
+  format?: FormatType;
+}
+
+/**
+ * Options for keyed upsert
+ */
+export interface UpsertOptions extends MergeOptions, ItemMergeOptions {
+  /** Replace matching items outright, or deep-merge them (default 'replace') */
+  mode?: 'replace' | 'merge';
+}
+
+/**
+ * Built-in merge strategies for branch/merge
+ *
+ * Nodes are matched by name and namespace URI, and repeated siblings (XML elements,
+ * CSV rows, JSON array items) are paired by occurrence, so the same strategy behaves
+ * consistently across JSON, CSV and XML data.
+ */
+export class MergeStrategies {
+  /**
+   * Continue with the branch data; metadata from both sides is kept
+   */
+  static replace(): MergeStrategy {
+    return (branch, parent) => mergedMessage(branch, parent, branch.data, 'replace', []);
+  }
+
+  /**
+   * Recursively merge branch data into parent data: matching containers are merged
+   * child by child, attributes by name and namespace, and differing leaf values collide
+   */
+  static deepMerge(options: MergeOptions = {}): MergeStrategy {
+    return (branch, parent) => {
+      const conflicts: MergeConflict[] = [];
+      const resolution = resolutionOf(options);
+      const data = mergeNodes(parent.data, branch.data, pathSegment(parent.data, 0), resolution, conflicts);
+
+      failOnConflicts(options, conflicts);
+      return mergedMessage(branch, parent, data, 'deepMerge', conflicts);
+    };
+  }
+
+  /**
+   * Append branch items to the parent's items, both located by the format's
+   * queryStrategy.findItems. A branch COLLECTION contributes its items; any other branch
+   * node is appended as a single item.
+   */
+  static append(options: ItemMergeOptions = {}): MergeStrategy {
+    return (branch, parent) => {
+      const target = parent.data;
+      if (target.type !== FNodeType.COLLECTION && target.type !== FNodeType.RECORD) {
+        const data = { type: FNodeType.COLLECTION, name: target.name, children: [target, ...branchItems(branch, options)] };
+        return mergedMessage(branch, parent, data, 'append', []);
+      }
+
+      const items = appendItems(findItems(parent, options), branchItems(branch, options));
+      const { data } = withItems(parent, items, options);
+      return mergedMessage(branch, parent, data, 'append', []);
+    };
+  }
+
+  /**
+   * Insert or update items identified by a key field (or XML attribute), as located by
+   * the format's queryStrategy.findItems. Branch items with a key already present in the
+   * parent replace or merge into that item; all other branch items are appended.
+   */
+  static upsert(key: string, options: UpsertOptions = {}): MergeStrategy {
+    return (branch, parent) => {
+      const conflicts: MergeConflict[] = [];
+      const resolution = resolutionOf(options);
+      const parentItems = findItems(parent, options);
+
+      const indexByKey = new Map<string, number>();
+      parentItems.forEach((item, index) => {
+        const value = keyOf(item, key);
+        if (value !== undefined && !indexByKey.has(value)) indexByKey.set(value, index);
+      });
+
+      const merged = [...parentItems];
+      const appended: FNode[] = [];
+      let inserted = 0;
+      let updated = 0;
+
+      for (const item of branchItems(branch, options)) {
+        const value = keyOf(item, key);
+        const index = value === undefined ? undefined : indexByKey.get(value);
+
+        if (index === undefined) {
+          appended.push(item);
+          inserted++;
+          continue;
+        }
+
+        const path = `${pathSegment(parent.data, 0)}[${key}=${value}]`;
+        merged[index] = options.mode === 'merge'
+          ? mergeNodes(merged[index], item, path, resolution, conflicts)
+          : { ...item, name: merged[index].name };
+        updated++;
+      }
+
+      failOnConflicts(options, conflicts);
+
+      const { data } = withItems(parent, appendItems(merged, appended), options);
+      return mergedMessage(branch, parent, data, 'upsert', conflicts, { key, inserted, updated });
+    };
+  }
+
+  /**
+   * Fold switch() results into the parent with a pairwise strategy, skipping dropped routes
+   */
+  static fold(strategy: MergeStrategy): (results: BranchResult[], parent: Message) => Message {
+    return (results, parent) => results
+      .filter(result => !result.dropped)
+      .reduce((accumulated, result) => strategy(result.message, accumulated), parent);
+  }
+}
+
+function operationsFor(message: Message, options: ItemMergeOptions) {
+  return {
+    operations: new FormatAwareOperations(message.context.engine ?? createTransformationEngine()),
+    format: options.format ?? (message.context.config.defaultFormat as FormatType)
+  };
+}
+
+function findItems(message: Message, options: ItemMergeOptions): FNode[] {
+  const { operations, format } = operationsFor(message, options);
+  return operations.getSemantics(format).queryStrategy.findItems(message.data);
+}
+
+function withItems(message: Message, items: FNode[], options: ItemMergeOptions): Message {
+  const { operations, format } = operationsFor(message, options);
+  return operations.withItems(message, items, format);
+}
+
+/**
+ * Items contributed by a branch: the items of a COLLECTION, or the branch node itself
+ */
+function branchItems(branch: Message, options: ItemMergeOptions): FNode[] {
+  return branch.data.type === FNodeType.COLLECTION ? findItems(branch, options) : [branch.data];
+}
+
+function resolutionOf(options: MergeOptions): 'branch' | 'parent' {
+  return options.onConflict === 'parent' ? 'parent' : 'branch';
+}
+
+function failOnConflicts(options: MergeOptions, conflicts: MergeConflict[]): void {
+  if (options.onConflict === 'error' && conflicts.length > 0) {
+    const paths = conflicts.map(conflict => conflict.path).join(', ');
+    throw new TransformationError(`Merge conflict at ${paths}`, { conflicts });
+  }
+}
+
+function mergedMessage(
+  branch: Message,
+  parent: Message,
+  data: FNode,
+  strategy: string,
+  conflicts: MergeConflict[],
+  details: Record<string, unknown> = {}
+): Message {
+  return {
+    ...parent,
+    data,
+    metadata: {
+      ...parent.metadata,
+      ...branch.metadata,
+      merge: {
+        strategy,
+        ...details,
+        conflicts
+      }
+    }
+  };
+}
+
+function mergeNodes(
+  parent: FNode,
+  branch: FNode,
+  path: string,
+  resolution: 'branch' | 'parent',
+  conflicts: MergeConflict[]
+): FNode {
+  const parentLeaf = !parent.children;
+  const branchLeaf = !branch.children;
+
+  if (parent.type !== branch.type || parentLeaf !== branchLeaf) {
+    conflicts.push({ path, parent: parent.type, branch: branch.type, resolution });
+    return resolution === 'branch' ? branch : parent;
+  }
+
+  const attributes = mergeAttributes(parent, branch, path, resolution, conflicts);
+
+  if (parentLeaf) {
+    if (!valuesEqual(parent.value, branch.value)) {
+      conflicts.push({ path, parent: parent.value, branch: branch.value, resolution });
+    }
+    const winner = resolution === 'branch' ? { ...parent, ...branch } : { ...parent };
+    return attributes ? { ...winner, attributes } : winner;
+  }
+
+  const merged = {
+    ...parent,
+    children: mergeChildren(parent.children!, branch.children!, path, resolution, conflicts)
+  };
+  return attributes ? { ...merged, attributes } : merged;
+}
+
+function mergeChildren(
+  parentChildren: FNode[],
+  branchChildren: FNode[],
+  path: string,
+  resolution: 'branch' | 'parent',
+  conflicts: MergeConflict[]
+): FNode[] {
+  const result = [...parentChildren];
+  const positions = occurrenceIndex(parentChildren);
+  const seen = new Map<string, number>();
+  const appended: FNode[] = [];
+
+  for (const child of branchChildren) {
+    // Comments and processing instructions are carried over rather than matched
+    if (child.type === FNodeType.COMMENT || child.type === FNodeType.INSTRUCTION) {
+      appended.push(child);
+      continue;
+    }
+
+    const identity = identityOf(child);
+    const occurrence = seen.get(identity) ?? 0;
+    seen.set(identity, occurrence + 1);
+
+    const index = positions.get(identity)?.[occurrence];
+    if (index === undefined) {
+      appended.push(child);
+    } else {
+      const childPath = `${path}/${pathSegment(child, occurrence)}`;
+      result[index] = mergeNodes(result[index], child, childPath, resolution, conflicts);
+    }
+  }
+
+  return appendItems(result, appended);
+}
+
+function mergeAttributes(
+  parent: FNode,
+  branch: FNode,
+  path: string,
+  resolution: 'branch' | 'parent',
+  conflicts: MergeConflict[]
+): FNode[] | undefined {
+  if (!parent.attributes && !branch.attributes) return undefined;
+
+  const result = [...(parent.attributes || [])];
+  for (const attribute of branch.attributes || []) {
+    const index = result.findIndex(existing => identityOf(existing) === identityOf(attribute));
+    if (index === -1) {
+      result.push(attribute);
+    } else if (!valuesEqual(result[index].value, attribute.value)) {
+      conflicts.push({
+        path: `${path}/@${qualifiedName(attribute)}`,
+        parent: result[index].value,
+        branch: attribute.value,
+        resolution
+      });
+      if (resolution === 'branch') result[index] = attribute;
+    }
+  }
+  return result;
+}
+
+/**
+ * Append items to a child list, renumbering them when the list is index-named (JSON arrays)
+ */
+function appendItems(children: FNode[], items: FNode[]): FNode[] {
+  const indexed = children.length > 0 && children.every((child, index) => child.name === String(index));
+  if (!indexed) return [...children, ...items];
+
+  return [
+    ...children,
+    ...items.map((item, offset) => ({ ...item, name: String(children.length + offset) }))
+  ];
+}
+
+/**
+ * Positions of each child identity, in document order
+ */
+function occurrenceIndex(children: FNode[]): Map<string, number[]> {
+  const positions = new Map<string, number[]>();
+  children.forEach((child, index) => {
+    if (child.type === FNodeType.COMMENT || child.type === FNodeType.INSTRUCTION) return;
+    const identity = identityOf(child);
+    if (!positions.has(identity)) positions.set(identity, []);
+    positions.get(identity)!.push(index);
+  });
+  return positions;
+}
+
+function identityOf(node: FNode): string {
+  return node.ns ? `{${node.ns}}${node.name}` : node.name;
+}
+
+function qualifiedName(node: FNode): string {
+  return node.label ? `${node.label}:${node.name}` : node.name;
+}
+
+function pathSegment(node: FNode, occurrence: number): string {
+  const name = qualifiedName(node);
+  return occurrence > 0 ? `${name}[${occurrence}]` : name;
+}
+
+/**
+ * Key of a collection item: a child field's value, falling back to an attribute
+ */
+function keyOf(item: FNode, key: string): string | undefined {
+  const field = item.children?.find(child => child.name === key && child.value !== undefined);
+  const value = field?.value ?? item.attributes?.find(attr => attr.name === key)?.value;
+  return value === undefined || value === null ? undefined : formatValue(value);
+}
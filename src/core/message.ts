@@ -52,6 +52,31 @@ export function createMessageFromFNode(data: FNode, context: Context): Message {
   };
 }
 
+/**
+ * Mark a message as dropped by a pipeline step
+ * Dropped messages skip downstream steps and are never handed to an output adapter
+ */
+export function dropMessage(message: Message, step: string): Message {
+  return {
+    ...message,
+    metadata: {
+      ...message.metadata,
+      pipeline: {
+        ...message.metadata.pipeline,
+        dropped: true,
+        droppedBy: step
+      }
+    }
+  };
+}
+
+/**
+ * Check whether a message was dropped by a pipeline step
+ */
+export function isMessageDropped(message: Message): boolean {
+  return message.metadata.pipeline?.dropped === true;
+}
+
 /**
  * Simple format detection based on FNode structure
  */
@@ -0,0 +1,195 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { PipeFitter, isDropped } from './pipefitter.js';
+import { Message } from './message.js';
+import { JsonAdapter } from '../adapters/json-adapter.js';
+import { CsvAdapter } from '../adapters/csv-adapter.js';
+import { FormatType } from '../semantic/format-semantics.js';
+import { InputAdapter } from './adapter.js';
+
+function later(json: string, delay = 1): InputAdapter {
+  return {
+    handle: (message: Message) => new Promise<Message>(resolve => {
+      setTimeout(() => resolve(JsonAdapter.string(json).handle(message) as Message), delay);
+    })
+  };
+}
+
+function failing(error: Error): InputAdapter {
+  return { handle: () => Promise.reject(error) };
+}
+
+test('queues steps behind an asynchronous source and resolves to()', async () => {
+  const output = new PipeFitter()
+    .from(later('{"a":1}'))
+    .map(message => ({ ...message, metadata: { ...message.metadata, step: { seen: true } } }))
+    .to({ handle: (message: Message) => message });
+
+  assert.ok(output instanceof Promise);
+  assert.equal((await output).metadata.step.seen, true);
+});
+
+test('a synchronous source keeps to() synchronous', () => {
+  const output = new PipeFitter().from(JsonAdapter.string('[1]')).to(JsonAdapter.output());
+
+  assert.deepEqual(output, [1]);
+});
+
+test('a rejected source surfaces through to()', async () => {
+  const pipeline = new PipeFitter().from(failing(new Error('offline'))).map(message => message);
+
+  await assert.rejects(Promise.resolve(pipeline.to(JsonAdapter.output())), /offline/);
+});
+
+test('a rejected source without to() is not an unhandled rejection', async () => {
+  const unhandled: unknown[] = [];
+  const listener = (reason: unknown) => unhandled.push(reason);
+  process.on('unhandledRejection', listener);
+
+  try {
+    new PipeFitter().from(failing(new Error('offline')));
+    new PipeFitter().from(failing(new Error('offline'))).map(message => message).branch(() => true);
+    await new Promise(resolve => setTimeout(resolve, 10));
+  } finally {
+    process.off('unhandledRejection', listener);
+  }
+
+  assert.deepEqual(unhandled, []);
+});
+
+test('filter with items keeps the matching items of a collection', () => {
+  const output = new PipeFitter({ defaultFormat: FormatType.CSV })
+    .from(CsvAdapter.string('name,age\nann,31\nbob,17\n'))
+    .filter(row => Number(row.data.children![1].value) >= 18, { items: true })
+    .to(CsvAdapter.stringify());
+
+  assert.equal(output, 'name,age\r\nann,31\r\n');
+});
+
+test('a rejected message skips later steps and to() reports the dropping step', () => {
+  let called = false;
+  const output = new PipeFitter()
+    .from(JsonAdapter.string('{"ok":false}'))
+    .filter(message => message.data.children![0].value === true)
+    .map(message => {
+      called = true;
+      return message;
+    })
+    .to({ handle: () => assert.fail('the output adapter must not run') });
+
+  assert.ok(isDropped(output));
+  assert.equal(output.step, 'filter');
+  assert.equal(called, false);
+});
+
+test('find narrows to the first matching item or drops the message', () => {
+  const pipeline = () => new PipeFitter({ defaultFormat: FormatType.JSON }).from(JsonAdapter.string('[{"id":1},{"id":2}]'));
+
+  assert.deepEqual(
+    pipeline().find(item => item.data.children![0].value === 2, { items: true }).to(JsonAdapter.output()),
+    { id: 2 }
+  );
+  assert.ok(isDropped(pipeline().find(item => item.data.children![0].value === 3).to(JsonAdapter.output())));
+});
+
+test('branch evaluates its predicate; an inactive branch merges back the parent', () => {
+  const tag = (message: Message, value: string): Message => ({ ...message, metadata: { ...message.metadata, tag: { value } } });
+  const run = (json: string) => new PipeFitter()
+    .from(JsonAdapter.string(json))
+    .branch(message => message.data.children![0].value === true)
+    .map(message => tag(message, 'branch'))
+    .merge(branch => branch)
+    .to({ handle: (message: Message) => message.metadata.tag?.value });
+
+  assert.equal(run('{"vip":true}'), 'branch');
+  assert.equal(run('{"vip":false}'), undefined);
+});
+
+test('nested branches unwind one level per merge', () => {
+  const depth = (message: Message) => (message.metadata.depth?.value ?? 0) as number;
+  const deeper = (message: Message): Message => ({ ...message, metadata: { ...message.metadata, depth: { value: depth(message) + 1 } } });
+
+  const output = new PipeFitter()
+    .from(JsonAdapter.string('{}'))
+    .branch(() => true)
+    .map(deeper)
+    .branch(() => true)
+    .map(deeper)
+    .merge(branch => branch)
+    .merge(branch => branch)
+    .to({ handle: (message: Message) => [depth(message), message.context.branchState] });
+
+  assert.deepEqual(output, [2, undefined]);
+});
+
+test('switch routes to the first matching case, or the default', () => {
+  const route = (json: string) => new PipeFitter()
+    .from(JsonAdapter.string(json))
+    .switch({
+      cases: [
+        { name: 'small', when: message => Number(message.data.children![0].value) < 10, pipeline: branch => branch },
+        { name: 'even', when: message => Number(message.data.children![0].value) % 2 === 0, pipeline: branch => branch }
+      ],
+      default: branch => branch
+    })
+    .to({ handle: (message: Message) => message.metadata.switch.routes });
+
+  assert.deepEqual(route('{"n":4}'), ['small']);
+  assert.deepEqual(route('{"n":12}'), ['even']);
+  assert.deepEqual(route('{"n":13}'), ['default']);
+});
+
+test('switch in all mode fans out and hands every result to merge', async () => {
+  const written: string[] = [];
+  const output = await new PipeFitter()
+    .from(later('{"n":4}'))
+    .switch({
+      mode: 'all',
+      cases: [
+        { name: 'audit', when: () => true, pipeline: branch => branch.to({ handle: () => written.push('audit') }) },
+        { name: 'drop', when: () => true, pipeline: branch => branch.filter(() => false) },
+        { name: 'never', when: () => false, pipeline: branch => branch }
+      ],
+      merge: (results, parent) => ({
+        ...parent,
+        metadata: { ...parent.metadata, results: { value: results.map(result => [result.name, result.dropped, result.output]) } }
+      })
+    })
+    .to({ handle: (message: Message) => message.metadata.results.value });
+
+  assert.deepEqual(written, ['audit']);
+  assert.deepEqual(output, [['audit', false, 1], ['drop', true, undefined]]);
+});
+
+test('steps run their before and after hooks around the step', () => {
+  const calls: string[] = [];
+  const hooks = (name: string) => ({
+    before: () => {
+      calls.push(`${name} before`);
+    },
+    after: () => {
+      calls.push(`${name} after`);
+    }
+  });
+
+  new PipeFitter()
+    .from(JsonAdapter.string('[{"a":1}]'))
+    .map(message => message, hooks('map'))
+    .mapFields({ rename: { a: 'b' } }, {}, hooks('mapFields'))
+    .validate({ type: 'array' }, {}, hooks('validate'))
+    .to(JsonAdapter.output());
+
+  assert.deepEqual(calls, ['map before', 'map after', 'mapFields before', 'mapFields after', 'validate before', 'validate after']);
+});
+
+test('a message returned by a hook replaces the step\'s message', () => {
+  const output = new PipeFitter()
+    .from(JsonAdapter.string('{"a":1}'))
+    .map(message => message, {
+      before: message => ({ ...message!, metadata: { ...message!.metadata, seen: { before: true } } }),
+      after: message => ({ ...message, data: { ...message.data, children: [] } })
+    })
+    .to({ handle: (message: Message) => [message.metadata.seen, message.data.children] });
+
+  assert.deepEqual(output, [{ before: true }, []]);
+});
@@ -1,10 +1,22 @@
-import { Message, createMessage, createMessageFromFNode } from './message.js';
+import { Message, createMessage, createMessageFromFNode, dropMessage, isMessageDropped } from './message.js';
 import { Context, createContext, BranchState } from './context.js';
-import { FNode, FNodeType, createFNode } from './fnode.js';
+import { FNode, FNodeType } from './fnode.js';
 import { Adapter, isAdapter } from './adapter.js';
 import { Configuration, ConfigurationManager, ExtensionConfig } from './configuration.js';
 import { ResourceManager } from './resource-manager.js';
 import { LoggerFactory } from './logger.js';
+import { ValidationError } from './errors.js';
+import { FormatType, itemsOf } from '../semantic/format-semantics.js';
+import { createTransformationEngine } from '../semantic/transformation-engine.js';
+import { FormatAwareOperations, JoinOptions } from '../semantic/format-aware-operations.js';
+import { applyBeforeHook, applyAfterHook } from './hooks.js';
+import { SplitPipeline, SplitOptions } from './split-aggregate.js';
+import { DiffOptions, diffMessage } from './diff.js';
+import { InferenceOptions, inferMessageSchema } from '../schema/inference.js';
+import { JsonSchemaDefinition, toJsonSchema } from '../schema/json-schema.js';
+import { ValidationOptions, SchemaViolation, validateNode, validateItems } from '../schema/validation.js';
+import { CoercionOptions, CoercionReport, coerceNode, coerceItems } from '../schema/coercion.js';
+import { FieldMapping, applyFieldMapping, validateFieldMapping } from '../semantic/field-mapping.js';
 
 /**
  * Unified pipeline hook interface
@@ -14,11 +26,148 @@ export interface PipelineHook {
   after?: (result: Message | any) => Message | any | void;
 }
 
+/**
+ * Item-level options for filter() and find()
+ */
+export interface ItemOptions {
+  /** Apply the predicate to each item located by the format's queryStrategy.findItems */
+  items?: boolean;
+  
+  /** Format whose semantics locate items (defaults to config.defaultFormat) */
+  format?: FormatType;
+}
+
+/**
+ * Outcome returned by to() when a step dropped the message
+ */
+export interface DroppedOutcome {
+  dropped: true;
+  
+  /** Step that dropped the message */
+  step: string;
+  
+  message: Message;
+}
+
+/**
+ * A named route of a switch() step
+ */
+export interface SwitchCase {
+  name: string;
+  
+  when: (msg: Message) => boolean;
+  
+  /** Sub-pipeline for matching messages; may end in its own to() */
+  pipeline: (branch: PipeFitter) => unknown;
+}
+
+/**
+ * Options for switch()
+ */
+export interface SwitchOptions {
+  cases: SwitchCase[];
+  
+  /** Sub-pipeline used when no case matches */
+  default?: (branch: PipeFitter) => unknown;
+  
+  /** Route to the first matching case only, or fan out to every match (default 'first') */
+  mode?: 'first' | 'all';
+  
+  /** Combine the routed results into the message that continues (default: the parent, with metadata.switch) */
+  merge?: (results: BranchResult[], parent: Message) => Message;
+}
+
+/**
+ * Result of one routed sub-pipeline
+ */
+export interface BranchResult {
+  /** Case name, or 'default' */
+  name: string;
+  
+  /** Final message of the sub-pipeline */
+  message: Message;
+  
+  /** Value returned by the sub-pipeline's to(), if it ended in one */
+  output?: unknown;
+  
+  dropped: boolean;
+}
+
+/**
+ * Options for validate()
+ */
+export interface ValidateOptions extends ValidationOptions {
+  /**
+   * What happens to invalid data
+   * - throw: fail with a ValidationError listing every violation (default)
+   * - annotate: record the result in metadata.validation and continue
+   * - route: send invalid items to the `invalid` sub-pipeline and continue with the valid ones
+   */
+  mode?: 'throw' | 'annotate' | 'route';
+  
+  /**
+   * Validate each item (implied by 'route'): a record root is one item, otherwise the items
+   * are located by the format's queryStrategy.findItems. A single invalid record is routed
+   * and the message dropped.
+   */
+  items?: boolean;
+  
+  /** Format whose semantics locate items (defaults to config.defaultFormat) */
+  format?: FormatType;
+  
+  /** Sub-pipeline receiving the invalid items in 'route' mode; may end in its own to() */
+  invalid?: (branch: PipeFitter) => unknown;
+}
+
+/**
+ * Options for coerce()
+ */
+export interface CoerceOptions extends CoercionOptions {
+  /**
+   * Coerce each item, as validate() finds them, keeping the children that are not items;
+   * the schema then describes one item
+   */
+  items?: boolean;
+  
+  /** Format whose semantics locate items (defaults to config.defaultFormat) */
+  format?: FormatType;
+}
+
+/**
+ * Options for mapFields()
+ */
+export interface MapFieldsOptions {
+  /**
+   * Map each item, as validate() finds them (default true), keeping the children that are
+   * not items. False maps the message data itself.
+   */
+  items?: boolean;
+  
+  /** Format whose semantics locate items (defaults to config.defaultFormat) */
+  format?: FormatType;
+}
+
+/**
+ * Type guard for the outcome of a dropped pipeline
+ */
+export function isDropped(value: unknown): value is DroppedOutcome {
+  return value !== null && typeof value === 'object' && (value as DroppedOutcome).dropped === true && 'message' in value;
+}
+
+function failValidation(violations: SchemaViolation[]): void {
+  if (violations.length === 0) return;
+
+  const [first] = violations;
+  const more = violations.length > 1 ? ` (and ${violations.length - 1} more)` : '';
+  throw new ValidationError(`Validation failed at ${first.path}: ${first.message}${more}`, { violations });
+}
+
 /**
  * Main PipeFitter fluent API class
  */
 export class PipeFitter {
   private message: Message | null = null;
+  private pending: Promise<Message> | null = null;
   private context: Context;
 
   constructor(userConfig: Partial<Configuration> = {}) {
@@ -27,9 +176,14 @@ export class PipeFitter {
     const resources = new ResourceManager();
 
     LoggerFactory.setLevel(config.logLevel);
-    this.context = createContext(logger, config, resources);
+    this.context = createContext(logger, config, resources, createTransformationEngine());
   }
 
+  /**
+   * Set the pipeline source. When an adapter resolves asynchronously the pipeline
+   * switches to deferred mode: later steps are queued and run once the source
+   * resolves, and to() returns a Promise.
+   */
   from(source: FNode | Adapter, options?: any, hooks?: PipelineHook): PipeFitter {
     let initialMessage: Message | null = null;
     if (hooks?.before) {
@@ -46,19 +200,17 @@ export class PipeFitter {
       
       // Handle both sync and async adapter responses
       if (result instanceof Promise) {
-        throw new Error('Async adapters not supported in from(). Use async source adapters in to() instead.');
+        this.message = null;
+        this.defer(result.then(message => applyAfterHook(message, hooks)));
+        return this;
       }
       this.message = result;
     } else {
       this.message = initialMessage || createMessageFromFNode(source, this.context);
     }
 
-    if (hooks?.after && this.message) {
-      const afterResult = hooks.after(this.message);
-      if (afterResult) {
-        this.message = afterResult;
-      }
-    }
+    this.pending = null;
+    this.message = applyAfterHook(this.message!, hooks);
 
     return this;
   }
@@ -68,149 +220,405 @@ export class PipeFitter {
 
     this.context.resources.registerAdapter(target);
 
-    let currentMessage = this.message!;
-    if (hooks?.before) {
-      const beforeResult = hooks.before(currentMessage);
-      if (beforeResult) currentMessage = beforeResult;
+    if (this.pending) {
+      return this.pending.then(message => this.deliver<T>(target, message, options, hooks));
     }
 
-    const result = target.handle(currentMessage, options);
+    return this.deliver<T>(target, this.message!, options, hooks);
+  }
 
-    if (hooks?.after) {
-      if (result instanceof Promise) {
-        return result.then(resolvedResult => {
-          const afterResult = hooks.after!(resolvedResult);
-          return afterResult !== undefined ? afterResult : resolvedResult;
-        }) as T | Promise<T>;
+  map(fn: (msg: Message) => Message, hooks?: PipelineHook): PipeFitter {
+    this.validateSource();
+
+    return this.apply(message => applyAfterHook(fn(applyBeforeHook(message, hooks)), hooks));
+  }
+
+  /**
+   * Keep the message only if it matches the predicate; a rejected message is dropped
+   * and skips all downstream steps. With `items`, the predicate runs per item instead
+   * and the message keeps only matching items.
+   */
+  filter(predicate: (msg: Message) => boolean, options: ItemOptions = {}, hooks?: PipelineHook): PipeFitter {
+    this.validateSource();
+
+    return this.apply(message => {
+      let currentMessage = applyBeforeHook(message, hooks);
+
+      if (options.items) {
+        const source = currentMessage;
+        currentMessage = this.operations().filter(
+          source,
+          item => predicate({ ...source, data: item }),
+          this.resolveFormat(options)
+        );
+      } else if (!predicate(currentMessage)) {
+        currentMessage = dropMessage(currentMessage, 'filter');
+      }
+
+      return applyAfterHook(currentMessage, hooks);
+    });
+  }
+
+  /**
+   * Narrow the message to the first child (or item, with `items`) matching the predicate;
+   * the message is dropped when nothing matches
+   */
+  find(predicate: (msg: Message) => boolean, options: ItemOptions = {}, hooks?: PipelineHook): PipeFitter {
+    return this.map(msg => {
+      const candidates = options.items
+        ? this.operations().find(msg, () => true, this.resolveFormat(options))
+        : msg.data.children;
+
+      if (candidates && candidates.length > 0) {
+        const found = candidates.find(child => {
+          const childMsg = { ...msg, data: child };
+          return predicate(childMsg);
+        });
+        return found ? { ...msg, data: found } : dropMessage(msg, 'find');
       } else {
-        const afterResult = hooks.after(result);
-        if (afterResult !== undefined) {
-          return afterResult as T;
+        return predicate(msg) ? msg : dropMessage(msg, 'find');
+      }
+    }, hooks);
+  }
+
+  /**
+   * Replace the message data with the nodes matched by a path expression,
+   * wrapped in a 'selection' collection
+   */
+  select(path: string, options: { format?: FormatType } = {}, hooks?: PipelineHook): PipeFitter {
+    return this.map(msg => {
+      const format = this.resolveFormat(options);
+      const matches = this.operations().selectPath(msg.data, path, format);
+
+      return {
+        ...msg,
+        data: {
+          type: FNodeType.COLLECTION,
+          name: 'selection',
+          children: matches
+        },
+        metadata: {
+          ...msg.metadata,
+          query: {
+            path,
+            format,
+            matchCount: matches.length
+          }
         }
+      };
+    }, hooks);
+  }
+
+  /**
+   * Infer the schema of the message's items and record it, with its JSON Schema
+   * export, in metadata.schema
+   */
+  inferSchema(options: InferenceOptions & { format?: FormatType; title?: string } = {}, hooks?: PipelineHook): PipeFitter {
+    return this.map(msg => {
+      const schema = inferMessageSchema(msg, this.resolveFormat(options), options);
+
+      return {
+        ...msg,
+        metadata: {
+          ...msg.metadata,
+          schema: {
+            ...schema,
+            jsonSchema: toJsonSchema(schema.item, { title: options.title })
+          }
+        }
+      };
+    }, hooks);
+  }
+
+  /**
+   * Check the data, or each item, against a JSON Schema. Violations carry the FNode
+   * path of the offending node and are recorded in metadata.validation.
+   */
+  validate(schema: JsonSchemaDefinition, options: ValidateOptions = {}, hooks?: PipelineHook): PipeFitter {
+    this.validateSource();
+
+    return this.apply(message => {
+      const currentMessage = applyBeforeHook(message, hooks);
+
+      const mode = options.mode ?? 'throw';
+      const semantics = this.context.engine!.getSemantics(this.resolveFormat(options));
+      const validation: ValidationOptions = {
+        parseStrings: options.parseStrings,
+        siblingArrays: options.siblingArrays ?? semantics.queryStrategy.indexing === 'siblings'
+      };
+
+      const annotate = (target: Message, violations: SchemaViolation[], counts = {}): Message => ({
+        ...target,
+        metadata: {
+          ...target.metadata,
+          validation: { valid: violations.length === 0, violations, ...counts }
+        }
+      });
+
+      if (!options.items && mode !== 'route') {
+        const violations = validateNode(currentMessage.data, schema, validation);
+        if (mode === 'throw') failValidation(violations);
+        return applyAfterHook(annotate(currentMessage, violations), hooks);
       }
-    }
 
-    return result as T | Promise<T>;
+      const results = validateItems(currentMessage.data, itemsOf(currentMessage.data, semantics), schema, validation);
+      const violations = results.flatMap(result => result.violations);
+      const invalid = results.filter(result => result.violations.length > 0).map(result => result.item);
+      const counts = { validCount: results.length - invalid.length, invalidCount: invalid.length };
+
+      if (mode === 'throw') failValidation(violations);
+      if (mode === 'annotate') return applyAfterHook(annotate(currentMessage, violations, counts), hooks);
+
+      const format = this.resolveFormat(options);
+      const valid = results.filter(result => result.violations.length === 0).map(result => result.item);
+      const passed = applyAfterHook(
+        annotate(this.withItems(currentMessage, valid, format, 'validate'), violations, counts),
+        hooks
+      );
+      if (invalid.length === 0 || !options.invalid) return passed;
+
+      const routed = this.runRoute(
+        'invalid',
+        options.invalid,
+        annotate(this.withItems(currentMessage, invalid, format, 'validate'), violations, counts)
+      );
+      return routed instanceof Promise ? routed.then(() => passed) : passed;
+    });
   }
 
-  map(fn: (msg: Message) => Message, hooks?: PipelineHook): PipeFitter {
+  /**
+   * Convert string values (as CSV and XML carry them) to numbers, booleans, nulls and ISO
+   * dates, following a schema or inference rules. Values that do not fit the schema are
+   * kept as they are and listed in metadata.coercion.failures.
+   */
+  coerce(options: CoerceOptions = {}, hooks?: PipelineHook): PipeFitter {
     this.validateSource();
 
-    if (hooks?.before) {
-      const beforeResult = hooks.before(this.message);
-      if (beforeResult) this.message = beforeResult;
-    }
+    return this.apply(message => {
+      let currentMessage = applyBeforeHook(message, hooks);
 
-    this.message = fn(this.message!);
+      let report: CoercionReport;
+      if (options.items) {
+        const format = this.resolveFormat(options);
+        const items = itemsOf(currentMessage.data, this.context.engine!.getSemantics(format));
+        const { items: coerced, ...result } = coerceItems(currentMessage.data, items, options);
+        currentMessage = this.replaceItems(currentMessage, items, coerced, format);
+        report = result;
+      } else {
+        const { node, ...result } = coerceNode(currentMessage.data, options);
+        currentMessage = { ...currentMessage, data: node };
+        report = result;
+      }
 
-    if (hooks?.after) {
-      const afterResult = hooks.after(this.message);
-      if (afterResult) this.message = afterResult;
-    }
+      return applyAfterHook({
+        ...currentMessage,
+        metadata: { ...currentMessage.metadata, coercion: report }
+      }, hooks);
+    });
+  }
 
-    return this;
+  /**
+   * Rename, move, default, compute, cast and remove fields from a declarative mapping,
+   * typically loaded from configuration. The mapping is checked when the step is added.
+   */
+  mapFields(mapping: FieldMapping, options: MapFieldsOptions = {}, hooks?: PipelineHook): PipeFitter {
+    this.validateSource();
+    validateFieldMapping(mapping);
+
+    return this.apply(message => {
+      let currentMessage = applyBeforeHook(message, hooks);
+
+      if (options.items === false) {
+        currentMessage = { ...currentMessage, data: applyFieldMapping(currentMessage.data, mapping) };
+      } else {
+        const format = this.resolveFormat(options);
+        const items = itemsOf(currentMessage.data, this.context.engine!.getSemantics(format));
+        const mapped = items.map(item => applyFieldMapping(item, mapping));
+        currentMessage = this.replaceItems(currentMessage, items, mapped, format);
+      }
+
+      return applyAfterHook(currentMessage, hooks);
+    });
   }
 
-  filter(predicate: (msg: Message) => boolean, hooks?: PipelineHook): PipeFitter {
+  /**
+   * Enrich the message's items with the items of another source, matched by key.
+   * The other pipeline may still be resolving; the join then waits for it.
+   */
+  join(other: PipeFitter | FNode, options: JoinOptions & { format?: FormatType }, hooks?: PipelineHook): PipeFitter {
     this.validateSource();
 
-    if (hooks?.before) {
-      const beforeResult = hooks.before(this.message);
-      if (beforeResult) this.message = beforeResult;
+    let right: Message | Promise<Message>;
+    if (other instanceof PipeFitter) {
+      other.validateSource();
+      right = other.pending ?? other.message!;
+    } else {
+      right = createMessageFromFNode(other, this.context);
     }
 
-    if (!predicate(this.message!)) {
-      this.message = {
-        ...this.message!,
-        data: createFNode(FNodeType.VALUE, 'filtered', null)
-      };
-    }
+    return this.apply(message => {
+      const currentMessage = applyBeforeHook(message, hooks);
 
-    if (hooks?.after) {
-      const afterResult = hooks.after(this.message);
-      if (afterResult) this.message = afterResult;
+      const joinWith = (rightMessage: Message) => applyAfterHook(
+        this.operations().join(currentMessage, rightMessage, options, this.resolveFormat(options)),
+        hooks
+      );
+
+      return right instanceof Promise ? right.then(joinWith) : joinWith(right);
+    });
+  }
+
+  /**
+   * Compare the message with a baseline source. The change list, a summary and, for
+   * JSON data, an RFC 6902 patch from the baseline are recorded in metadata.diff.
+   */
+  diff(baseline: PipeFitter | FNode, options: DiffOptions = {}, hooks?: PipelineHook): PipeFitter {
+    this.validateSource();
+
+    let before: Message | Promise<Message>;
+    if (baseline instanceof PipeFitter) {
+      baseline.validateSource();
+      before = baseline.pending ?? baseline.message!;
+    } else {
+      before = createMessageFromFNode(baseline, this.context);
     }
 
-    return this;
+    return this.apply(message => {
+      const currentMessage = applyBeforeHook(message, hooks);
+
+      const compare = (baselineMessage: Message) => applyAfterHook(
+        diffMessage(currentMessage, baselineMessage.data, this.resolveFormat(options), options.output),
+        hooks
+      );
+
+      return before instanceof Promise ? before.then(compare) : compare(before);
+    });
   }
 
-  find(predicate: (msg: Message) => boolean, hooks?: PipelineHook): PipeFitter {
-    return this.map(msg => {
-      if (msg.data.children && msg.data.children.length > 0) {
-        const found = msg.data.children.find(child => {
-          const childMsg = { ...msg, data: child };
-          return predicate(childMsg);
-        });
-        return {
-          ...msg,
-          data: found || createFNode(FNodeType.VALUE, 'notfound', null)
-        };
-      } else {
-        return predicate(msg) ? msg : {
-          ...msg,
-          data: createFNode(FNodeType.VALUE, 'notfound', null)
-        };
-      }
-    }, hooks);
+  /**
+   * Explode the message into one part per item; parts are processed independently
+   * until aggregate() reassembles them and resumes this pipeline
+   */
+  split(options: SplitOptions = {}, hooks?: PipelineHook): SplitPipeline {
+    this.validateSource();
+    return new SplitPipeline(this.resolveFormat(options), step => this.apply(step), hooks);
   }
 
+  /**
+   * Start a branch. The predicate is evaluated against the message: when it fails the
+   * branch is inactive, its steps are skipped and merge() continues with the parent.
+   */
   branch(predicate: (msg: Message) => boolean, hooks?: PipelineHook): PipeFitter {
     this.validateSource();
 
-    let currentMessage = this.message!;
-    if (hooks?.before) {
-      const beforeResult = hooks.before(currentMessage);
-      if (beforeResult) currentMessage = beforeResult;
-    }
-
     const branchPipeline = new PipeFitter();
     branchPipeline.context = { ...this.context };
 
-    const branchState: BranchState = {
-      parentMessage: currentMessage,
-      predicate
-    };
+    const createBranch = (message: Message): Message => {
+      const currentMessage = applyBeforeHook(message, hooks);
 
-    branchPipeline.message = {
-      ...currentMessage,
-      context: {
-        ...currentMessage.context,
-        branchState
-      }
+      const active = !isMessageDropped(currentMessage) && predicate(currentMessage);
+      const branchState: BranchState = {
+        parentMessage: currentMessage,
+        predicate,
+        active
+      };
+
+      const branchMessage: Message = {
+        ...currentMessage,
+        context: {
+          ...currentMessage.context,
+          branchState
+        }
+      };
+
+      return applyAfterHook(active ? branchMessage : dropMessage(branchMessage, 'branch'), hooks);
     };
 
-    if (hooks?.after && branchPipeline.message) {
-      const afterResult = hooks.after(branchPipeline.message);
-      if (afterResult) {
-        branchPipeline.message = afterResult;
-      }
+    if (this.pending) {
+      branchPipeline.defer(this.pending.then(createBranch));
+    } else {
+      branchPipeline.message = createBranch(this.message!);
     }
 
     return branchPipeline;
   }
 
   merge(strategy: (branch: Message, parent: Message) => Message, hooks?: PipelineHook): PipeFitter {
-    if (!this.message?.context.branchState) {
-      throw new Error("No active branch to merge");
+    if (!this.pending && !this.message?.context.branchState) {
+      throw new Error('No active branch to merge');
     }
 
-    let branchMessage = this.message;
-    let parentMessage = this.message.context.branchState.parentMessage;
+    return this.apply(message => {
+      if (!message.context.branchState) {
+        throw new Error('No active branch to merge');
+      }
 
-    if (hooks?.before) {
-      const result = hooks.before(branchMessage);
-      if (result) branchMessage = result;
-    }
+      const parentMessage = message.context.branchState.parentMessage;
+      if (isMessageDropped(message)) {
+        // A dropped branch contributes nothing; the parent continues unchanged
+        return parentMessage;
+      }
 
-    this.message = strategy(branchMessage, parentMessage);
-    this.message.context.branchState = undefined;
+      const merged = strategy(applyBeforeHook(message, hooks), parentMessage);
 
-    if (hooks?.after) {
-      const afterResult = hooks.after(this.message);
-      if (afterResult) this.message = afterResult;
-    }
+      // Restore the enclosing branch, if any, so nested branches unwind one level at a time
+      return applyAfterHook({
+        ...merged,
+        context: {
+          ...merged.context,
+          branchState: parentMessage.context.branchState
+        }
+      }, hooks);
+    }, false);
+  }
 
-    return this;
+  /**
+   * Route the message by content to named sub-pipelines. In 'first' mode only the first
+   * matching case runs; in 'all' mode every matching case runs (fan-out). The default
+   * route runs when nothing matches. Results are combined by the merge strategy.
+   */
+  switch(options: SwitchOptions, hooks?: PipelineHook): PipeFitter {
+    this.validateSource();
+
+    return this.apply(message => {
+      const currentMessage = applyBeforeHook(message, hooks);
+
+      let matched: SwitchCase[];
+      if (options.mode === 'all') {
+        matched = options.cases.filter(c => c.when(currentMessage));
+      } else {
+        const first = options.cases.find(c => c.when(currentMessage));
+        matched = first ? [first] : [];
+      }
+
+      const routes: { name: string; pipeline: (branch: PipeFitter) => unknown }[] =
+        matched.length > 0 || !options.default
+          ? matched
+          : [{ name: 'default', pipeline: options.default }];
+
+      const results = routes.map(route => this.runRoute(route.name, route.pipeline, currentMessage));
+
+      const finish = (settled: BranchResult[]) => {
+        const merged = options.merge
+          ? options.merge(settled, currentMessage)
+          : {
+              ...currentMessage,
+              metadata: {
+                ...currentMessage.metadata,
+                switch: {
+                  routes: settled.map(result => result.name),
+                  dropped: settled.filter(result => result.dropped).map(result => result.name)
+                }
+              }
+            };
+        return applyAfterHook(merged, hooks);
+      };
+
+      return results.some(result => result instanceof Promise)
+        ? Promise.all(results).then(finish)
+        : finish(results as BranchResult[]);
+    });
   }
 
   async startAdapters(): Promise<void> {
@@ -236,8 +644,133 @@ export class PipeFitter {
     (PipeFitter.prototype as any)[name] = method;
   }
 
+  private deliver<T>(target: Adapter, message: Message, options?: unknown, hooks?: PipelineHook): T | Promise<T> {
+    if (isMessageDropped(message)) {
+      const outcome: DroppedOutcome = {
+        dropped: true,
+        step: message.metadata.pipeline.droppedBy,
+        message
+      };
+      return outcome as unknown as T;
+    }
+
+    const currentMessage = applyBeforeHook(message, hooks);
+
+    const result = target.handle(currentMessage, options);
+
+    if (hooks?.after) {
+      if (result instanceof Promise) {
+        return result.then(resolvedResult => {
+          const afterResult = hooks.after!(resolvedResult);
+          return afterResult !== undefined ? afterResult : resolvedResult;
+        }) as T | Promise<T>;
+      } else {
+        const afterResult = hooks.after(result);
+        if (afterResult !== undefined) {
+          return afterResult as T;
+        }
+      }
+    }
+
+    return result as T | Promise<T>;
+  }
+
+  /**
+   * Run a step now, or queue it behind the pending source in deferred mode.
+   * A step that resolves asynchronously switches the pipeline to deferred mode.
+   * Dropped messages pass through untouched unless the step handles them itself.
+   */
+  private apply(step: (msg: Message) => Message | Promise<Message>, skipDropped: boolean = true): PipeFitter {
+    const guarded = (message: Message) =>
+      skipDropped && isMessageDropped(message) ? message : step(message);
+
+    if (this.pending) {
+      this.defer(this.pending.then(guarded));
+    } else {
+      const result = guarded(this.message!);
+      if (result instanceof Promise) {
+        this.message = null;
+        this.defer(result);
+      } else {
+        this.message = result;
+      }
+    }
+    return this;
+  }
+
+  /**
+   * Queue behind an asynchronous result. A failure surfaces through to(); until then it
+   * is marked as handled so a pipeline that never reaches to() cannot crash the process.
+   */
+  private defer(pending: Promise<Message>): void {
+    pending.catch(() => undefined);
+    this.pending = pending;
+  }
+
+  /**
+   * Run a sub-pipeline over a copy of the message and collect its final state
+   */
+  private runRoute(
+    name: string,
+    pipeline: (branch: PipeFitter) => unknown,
+    message: Message
+  ): BranchResult | Promise<BranchResult> {
+    const fork = new PipeFitter();
+    fork.context = { ...this.context };
+    fork.message = message;
+
+    const returned = pipeline(fork);
+    const target = returned instanceof PipeFitter ? returned : fork;
+    const output = returned instanceof PipeFitter ? undefined : returned;
+
+    const settle = (final: Message, value: unknown): BranchResult => ({
+      name,
+      message: final,
+      output: value,
+      dropped: isMessageDropped(final)
+    });
+
+    if (target.pending || output instanceof Promise) {
+      return Promise.all([target.pending ?? target.message!, output])
+        .then(([final, value]) => settle(final, value));
+    }
+    return settle(target.message!, output);
+  }
+
+  private operations(): FormatAwareOperations {
+    return new FormatAwareOperations(this.context.engine!);
+  }
+
+  /**
+   * Put items found by itemsOf back into the message. A record root is its own single
+   * item; with no item left, `step` drops the message.
+   */
+  private withItems(message: Message, items: FNode[], format: FormatType, step: string): Message {
+    if (message.data.type !== FNodeType.RECORD) return this.operations().withItems(message, items, format);
+    return items.length > 0 ? { ...message, data: items[0] } : dropMessage(message, step);
+  }
+
+  /**
+   * Put items found by itemsOf and changed one for one back in their places, keeping the
+   * children that are not items
+   */
+  private replaceItems(message: Message, items: FNode[], changed: FNode[], format: FormatType): Message {
+    if (message.data.type === FNodeType.RECORD) return { ...message, data: changed[0] };
+    if (format === FormatType.XML) return this.operations().withItems(message, changed, format);
+
+    const replacements = new Map(items.map((item, index) => [item, changed[index]]));
+    return {
+      ...message,
+      data: { ...message.data, children: message.data.children?.map(child => replacements.get(child) ?? child) }
+    };
+  }
+
+  private resolveFormat(options: ItemOptions): FormatType {
+    return options.format ?? (this.context.config.defaultFormat as FormatType);
+  }
+
   private validateSource(): void {
-    if (!this.message) {
+    if (!this.message && !this.pending) {
       throw new Error('No source set: call from() before transformation');
     }
   }
@@ -0,0 +1,52 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { PipelineDefinition } from './pipeline-definition.js';
+import { Message } from './message.js';
+import { FormatType } from '../semantic/format-semantics.js';
+import { JsonAdapter } from '../adapters/json-adapter.js';
+import { CsvAdapter } from '../adapters/csv-adapter.js';
+
+test('replays the same steps over independent inputs', () => {
+  const resources = new Set<unknown>();
+  const definition = new PipelineDefinition({ defaultFormat: FormatType.JSON })
+    .map(message => {
+      resources.add(message.context.resources);
+      return message;
+    })
+    .filter(message => Number(message.data.children![0].value) > 1, { items: true });
+
+  const first = definition.run(JsonAdapter.string('[{"n":1},{"n":2}]')).to(JsonAdapter.output());
+  const second = definition.run(JsonAdapter.string('[{"n":3}]')).to(JsonAdapter.output());
+
+  assert.deepEqual(first, [{ n: 2 }]);
+  assert.deepEqual(second, [{ n: 3 }]);
+  assert.equal(resources.size, 2);
+});
+
+test('records steps added after earlier runs for later runs only', () => {
+  const definition = new PipelineDefinition();
+  const before = definition.run(JsonAdapter.string('{"a":1}')).to(JsonAdapter.output());
+
+  definition.step(pipeline => pipeline.select('$.a'));
+
+  assert.deepEqual(before, { a: 1 });
+  assert.deepEqual(definition.run(JsonAdapter.string('{"a":1}')).to(JsonAdapter.output()), [1]);
+});
+
+test('execute delivers to the target and stops the run\'s adapters', async () => {
+  let stopped = 0;
+  const target = { handle: (message: Message) => message.data.children!.length, stop: () => { stopped++; } };
+
+  const count = await new PipelineDefinition().execute<number>(CsvAdapter.string('a\n1\n2\n'), target);
+
+  assert.equal(count, 2);
+  assert.equal(stopped, 1);
+});
+
+test('execute releases resources when delivery fails', async () => {
+  let stopped = 0;
+  const target = { handle: () => { throw new Error('sink down'); }, stop: () => { stopped++; } };
+
+  await assert.rejects(new PipelineDefinition().execute(JsonAdapter.string('{}'), target), /sink down/);
+  assert.equal(stopped, 1);
+});
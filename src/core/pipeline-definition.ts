@@ -0,0 +1,122 @@
+import { Message } from './message.js';
+import { FNode } from './fnode.js';
+import { Adapter } from './adapter.js';
+import { Configuration, ConfigurationManager } from './configuration.js';
+import { FormatType } from '../semantic/format-semantics.js';
+import { JoinOptions } from '../semantic/format-aware-operations.js';
+import { FieldMapping } from '../semantic/field-mapping.js';
+import {
+  PipeFitter,
+  PipelineHook,
+  ItemOptions,
+  SwitchOptions,
+  ValidateOptions,
+  CoerceOptions,
+  MapFieldsOptions
+} from './pipefitter.js';
+import { DiffOptions } from './diff.js';
+import { InferenceOptions } from '../schema/inference.js';
+import { JsonSchemaDefinition } from '../schema/json-schema.js';
+
+/**
+ * A recorded step, replayed against a source-bound pipeline
+ */
+export type PipelineStep = (pipeline: PipeFitter) => PipeFitter;
+
+/**
+ * Reusable pipeline definition
+ * Records steps without binding them to a source so the same pipeline can run over many inputs.
+ * Every run shares this definition's configuration but gets its own message state and ResourceManager.
+ */
+export class PipelineDefinition {
+  private readonly config: Configuration;
+  private readonly steps: PipelineStep[] = [];
+
+  constructor(userConfig: Partial<Configuration> = {}) {
+    this.config = ConfigurationManager.create(userConfig);
+  }
+
+  map(fn: (msg: Message) => Message, hooks?: PipelineHook): PipelineDefinition {
+    return this.step(pipeline => pipeline.map(fn, hooks));
+  }
+
+  filter(predicate: (msg: Message) => boolean, options?: ItemOptions, hooks?: PipelineHook): PipelineDefinition {
+    return this.step(pipeline => pipeline.filter(predicate, options, hooks));
+  }
+
+  find(predicate: (msg: Message) => boolean, options?: ItemOptions, hooks?: PipelineHook): PipelineDefinition {
+    return this.step(pipeline => pipeline.find(predicate, options, hooks));
+  }
+
+  select(path: string, options?: { format?: FormatType }, hooks?: PipelineHook): PipelineDefinition {
+    return this.step(pipeline => pipeline.select(path, options, hooks));
+  }
+
+  inferSchema(options?: InferenceOptions & { format?: FormatType; title?: string }, hooks?: PipelineHook): PipelineDefinition {
+    return this.step(pipeline => pipeline.inferSchema(options, hooks));
+  }
+
+  validate(schema: JsonSchemaDefinition, options?: ValidateOptions, hooks?: PipelineHook): PipelineDefinition {
+    return this.step(pipeline => pipeline.validate(schema, options, hooks));
+  }
+
+  coerce(options?: CoerceOptions, hooks?: PipelineHook): PipelineDefinition {
+    return this.step(pipeline => pipeline.coerce(options, hooks));
+  }
+
+  mapFields(mapping: FieldMapping, options?: MapFieldsOptions, hooks?: PipelineHook): PipelineDefinition {
+    return this.step(pipeline => pipeline.mapFields(mapping, options, hooks));
+  }
+
+  join(other: PipeFitter | FNode, options: JoinOptions & { format?: FormatType }, hooks?: PipelineHook): PipelineDefinition {
+    return this.step(pipeline => pipeline.join(other, options, hooks));
+  }
+
+  diff(baseline: PipeFitter | FNode, options?: DiffOptions, hooks?: PipelineHook): PipelineDefinition {
+    return this.step(pipeline => pipeline.diff(baseline, options, hooks));
+  }
+
+  branch(predicate: (msg: Message) => boolean, hooks?: PipelineHook): PipelineDefinition {
+    return this.step(pipeline => pipeline.branch(predicate, hooks));
+  }
+
+  merge(strategy: (branch: Message, parent: Message) => Message, hooks?: PipelineHook): PipelineDefinition {
+    return this.step(pipeline => pipeline.merge(strategy, hooks));
+  }
+
+  switch(options: SwitchOptions, hooks?: PipelineHook): PipelineDefinition {
+    return this.step(pipeline => pipeline.switch(options, hooks));
+  }
+
+  /**
+   * Record an arbitrary step, e.g. a method registered by an extension
+   */
+  step(step: PipelineStep): PipelineDefinition {
+    this.steps.push(step);
+    return this;
+  }
+
+  /**
+   * Bind the definition to a source and replay its steps
+   */
+  run(source: FNode | Adapter, options?: unknown, hooks?: PipelineHook): PipeFitter {
+    const pipeline = new PipeFitter(this.config).from(source, options, hooks);
+    return this.steps.reduce((current, step) => step(current), pipeline);
+  }
+
+  /**
+   * Run against a source, deliver to a target and release the run's resources
+   */
+  async execute<T = unknown>(
+    source: FNode | Adapter,
+    target: Adapter,
+    options: { source?: unknown; target?: unknown } = {}
+  ): Promise<T> {
+    const pipeline = this.run(source, options.source);
+    try {
+      return await pipeline.to<T>(target, options.target);
+    } finally {
+      await pipeline.cleanup();
+    }
+  }
+}
@@ -0,0 +1,99 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Aggregator, splitMessage } from './split-aggregate.js';
+import { PipeFitter } from './pipefitter.js';
+import { Message } from './message.js';
+import { FNodeType } from './fnode.js';
+import { TransformationError } from './errors.js';
+import { FormatType } from '../semantic/format-semantics.js';
+import { JsonAdapter } from '../adapters/json-adapter.js';
+import { XmlAdapter } from '../adapters/xml-adapter.js';
+import { load, run, runAsync } from '../test-helpers.js';
+
+const orders = '[{"id":1},{"id":2},{"id":3}]';
+
+function withId(message: Message, offset: number): Message {
+  const [field] = message.data.children!;
+  return { ...message, data: { ...message.data, children: [{ ...field, value: Number(field.value) + offset }] } };
+}
+
+function loadJson(json: string): Message {
+  return load(JsonAdapter.string(json));
+}
+
+test('processes each item and reassembles the original container', () => {
+  const output = new PipeFitter()
+    .from(JsonAdapter.string(orders))
+    .split()
+    .map(part => withId(part, 10))
+    .filter(part => part.data.children![0].value !== 12)
+    .aggregate()
+    .to(JsonAdapter.output());
+
+  assert.deepEqual(output, [{ id: 11 }, { id: 13 }]);
+});
+
+test('keeps item order when asynchronous parts finish out of order', async () => {
+  const message = await runAsync(new PipeFitter()
+    .from(JsonAdapter.string(orders))
+    .split()
+    .map(part => new Promise<Message>(resolve => setTimeout(() => resolve(part), 10 - part.metadata.split.index * 4)))
+    .aggregate());
+
+  assert.deepEqual(new PipeFitter().from(message.data).to(JsonAdapter.output()), JSON.parse(orders));
+  assert.deepEqual(
+    { count: message.metadata.aggregate.count, total: message.metadata.aggregate.total, reason: message.metadata.aggregate.reason },
+    { count: 3, total: 3, reason: 'complete' }
+  );
+  assert.equal(message.metadata.split, undefined);
+});
+
+test('completes early under a count rule', () => {
+  const message = run(new PipeFitter()
+    .from(JsonAdapter.string(orders))
+    .split()
+    .aggregate({ count: 2 }));
+
+  assert.equal(message.data.children!.length, 2);
+  assert.equal(message.metadata.aggregate.reason, 'count');
+});
+
+test('completes with the parts received so far on timeout', async () => {
+  const message = await runAsync(new PipeFitter()
+    .from(JsonAdapter.string(orders))
+    .split()
+    .map(part => part.metadata.split.index === 2 ? new Promise<Message>(() => {}) : Promise.resolve(part))
+    .aggregate({ timeout: 20 }));
+
+  assert.equal(message.data.children!.length, 2);
+  assert.equal(message.metadata.aggregate.reason, 'timeout');
+});
+
+test('splits XML documents into the document element\'s items', () => {
+  const output = new PipeFitter({ defaultFormat: FormatType.XML })
+    .from(XmlAdapter.string('<lib><book id="1"/><book id="2"/></lib>'))
+    .split()
+    .filter(part => part.data.attributes![0].value === '2')
+    .aggregate()
+    .to(XmlAdapter.stringify());
+
+  assert.equal(output, '<lib><book id="2"/></lib>');
+});
+
+test('nested splits record the enclosing correlation id', () => {
+  const [outer] = splitMessage(loadJson('[[{"a":1}]]'), FormatType.JSON, 'outer');
+  const [inner] = splitMessage({ ...outer, data: { ...outer.data, type: FNodeType.COLLECTION } }, FormatType.JSON, 'inner');
+
+  assert.deepEqual(inner.metadata.split, { id: 'inner', index: 0, total: 1, format: FormatType.JSON, parentId: 'outer' });
+});
+
+test('an aggregator used directly ignores late parts and rejects unsplit messages', () => {
+  const parts = splitMessage(loadJson(orders), FormatType.JSON, 'direct');
+  const aggregator = new Aggregator({ predicate: received => received.length === 2 });
+
+  assert.equal(aggregator.add(parts[2]), undefined);
+  assert.equal(aggregator.add(parts[0])!.metadata.aggregate.reason, 'predicate');
+  assert.equal(aggregator.add(parts[1]), undefined);
+  assert.equal(aggregator.openGroups, 0);
+  assert.throws(() => aggregator.add(loadJson('{}')), TransformationError);
+});
@@ -0,0 +1,333 @@
+import { Message, dropMessage, isMessageDropped } from './message.js';
+import { FNode, FNodeType } from './fnode.js';
+import { FormatError, TransformationError } from './errors.js';
+import { FormatType } from '../semantic/format-semantics.js';
+import { FormatAwareOperations } from '../semantic/format-aware-operations.js';
+import type { PipeFitter, PipelineHook } from './pipefitter.js';
+import { applyBeforeHook, applyAfterHook } from './hooks.js';
+
+/**
+ * Correlation data carried by each split part in metadata.split
+ */
+export interface SplitMetadata {
+  /** Correlation id shared by all parts of one split */
+  id: string;
+
+  /** Position of the item in the original message */
+  index: number;
+
+  /** Number of parts the split produced */
+  total: number;
+
+  /** Format whose semantics located the items */
+  format: FormatType;
+
+  /** Correlation id of the enclosing split, for nested splits */
+  parentId?: string;
+}
+
+/**
+ * Options for split()
+ */
+export interface SplitOptions {
+  /** Format whose semantics locate items (defaults to config.defaultFormat) */
+  format?: FormatType;
+}
+
+/**
+ * Why an aggregation completed
+ */
+export type CompletionReason = 'complete' | 'count' | 'predicate' | 'timeout' | 'flush';
+
+/**
+ * Completion rules and reassembly for aggregate()
+ * Without a rule, aggregation completes once every part has arrived.
+ */
+export interface AggregateOptions {
+  /** Complete once this many (non-dropped) parts have arrived */
+  count?: number;
+
+  /** Complete with whatever has arrived this many milliseconds after the first part */
+  timeout?: number;
+
+  /** Complete as soon as the collected parts, in index order, satisfy the predicate */
+  predicate?: (parts: Message[]) => boolean;
+
+  /** Build the aggregated data (default: the original container holding the part data) */
+  combine?: (parts: Message[], parent?: Message) => FNode;
+}
+
+interface AggregationGroup {
+  id: string;
+  parts: Message[];
+  received: number;
+  total?: number;
+  parent?: Message;
+  /** First part received, used as the base message when the parent is unknown */
+  template?: Message;
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+let splitSequence = 0;
+
+function nextSplitId(): string {
+  return `split-${++splitSequence}`;
+}
+
+/**
+ * Explode a message into one message per item found by the format's queryStrategy.findItems
+ */
+export function splitMessage(message: Message, format: FormatType, id: string = nextSplitId()): Message[] {
+  const engine = message.context.engine;
+  if (!engine) {
+    throw new FormatError('Splitting requires format semantics on the message context', { format });
+  }
+
+  const items = engine.getSemantics(format).queryStrategy.findItems(message.data);
+  const parentId: string | undefined = message.metadata.split?.id;
+
+  return items.map((item, index) => {
+    const split: SplitMetadata = { id, index, total: items.length, format };
+    if (parentId) split.parentId = parentId;
+
+    return {
+      ...message,
+      data: item,
+      metadata: {
+        ...message.metadata,
+        split
+      }
+    };
+  });
+}
+
+/**
+ * Collects split parts back together by correlation id
+ * add() returns the aggregated message when a part completes its group; groups completed
+ * by timeout are delivered through the onComplete callback instead. Parts arriving after
+ * their group completed are ignored.
+ */
+export class Aggregator {
+  private readonly groups = new Map<string, AggregationGroup>();
+  private readonly completed = new Set<string>();
+
+  constructor(
+    private readonly options: AggregateOptions = {},
+    private readonly onComplete?: (message: Message) => void
+  ) {}
+
+  /**
+   * Register the message a split came from, so its container can be rebuilt.
+   * Returns the aggregated message straight away when the split produced no parts.
+   */
+  expect(parent: Message, id: string, total: number): Message | undefined {
+    const group = this.group(id);
+    group.parent = parent;
+    group.total = total;
+
+    const reason = this.completionReason(group);
+    return reason ? this.complete(group, reason) : undefined;
+  }
+
+  add(part: Message): Message | undefined {
+    const split = part.metadata.split as SplitMetadata | undefined;
+    if (!split) {
+      throw new TransformationError('Cannot aggregate a message without split metadata', {
+        metadata: Object.keys(part.metadata)
+      });
+    }
+    if (this.completed.has(split.id)) return undefined;
+
+    const group = this.group(split.id);
+    group.total = split.total;
+    group.received++;
+    group.template ??= part;
+    if (!isMessageDropped(part)) group.parts.push(part);
+
+    if (group.received === 1 && this.options.timeout !== undefined) {
+      group.timer = setTimeout(() => {
+        const message = this.complete(group, 'timeout');
+        this.onComplete?.(message);
+      }, this.options.timeout);
+    }
+
+    const reason = this.completionReason(group);
+    return reason ? this.complete(group, reason) : undefined;
+  }
+
+  /**
+   * Force completion of one group, or of every open group
+   */
+  flush(id?: string): Message[] {
+    const groups = id === undefined
+      ? [...this.groups.values()]
+      : [this.groups.get(id)].filter((group): group is AggregationGroup => group !== undefined);
+
+    return groups.map(group => this.complete(group, 'flush'));
+  }
+
+  /**
+   * Number of groups still collecting parts
+   */
+  get openGroups(): number {
+    return this.groups.size;
+  }
+
+  private group(id: string): AggregationGroup {
+    let group = this.groups.get(id);
+    if (!group) {
+      group = { id, parts: [], received: 0 };
+      this.groups.set(id, group);
+    }
+    return group;
+  }
+
+  private completionReason(group: AggregationGroup): CompletionReason | undefined {
+    if (this.options.predicate && group.parts.length > 0 && this.options.predicate(this.ordered(group))) {
+      return 'predicate';
+    }
+    if (this.options.count !== undefined && group.parts.length >= this.options.count) {
+      return 'count';
+    }
+    if (group.total !== undefined && group.received >= group.total) {
+      return 'complete';
+    }
+    return undefined;
+  }
+
+  private complete(group: AggregationGroup, reason: CompletionReason): Message {
+    if (group.timer) clearTimeout(group.timer);
+    this.groups.delete(group.id);
+    this.completed.add(group.id);
+
+    const parts = this.ordered(group);
+    const data = this.options.combine
+      ? this.options.combine(parts, group.parent)
+      : combineParts(parts, group.parent);
+
+    // Without the original message, continue from the first part minus its correlation data
+    const base = (group.parent ?? group.template)!;
+    const { split, ...metadata } = base.metadata;
+
+    return {
+      ...base,
+      data,
+      metadata: {
+        ...(group.parent ? base.metadata : metadata),
+        aggregate: {
+          id: group.id,
+          count: parts.length,
+          received: group.received,
+          total: group.total ?? split?.total,
+          reason
+        }
+      }
+    };
+  }
+
+  private ordered(group: AggregationGroup): Message[] {
+    return [...group.parts].sort((a, b) => a.metadata.split.index - b.metadata.split.index);
+  }
+}
+
+function combineParts(parts: Message[], parent?: Message): FNode {
+  const items = parts.map(part => part.data);
+
+  if (parent?.context.engine) {
+    const format = parts[0]?.metadata.split.format ?? parent.context.config.defaultFormat;
+    return new FormatAwareOperations(parent.context.engine).withItems(parent, items, format).data;
+  }
+
+  return {
+    type: FNodeType.COLLECTION,
+    name: 'aggregate',
+    children: items
+  };
+}
+
+type PartStep = (part: Message) => Message | Promise<Message>;
+
+/**
+ * Steps applied to each part between split() and aggregate()
+ * Parts are processed independently; asynchronous steps run concurrently and
+ * the pipeline resumes once aggregation completes.
+ */
+export class SplitPipeline {
+  private readonly steps: PartStep[] = [];
+
+  constructor(
+    private readonly format: FormatType,
+    private readonly resume: (step: (msg: Message) => Message | Promise<Message>) => PipeFitter,
+    private readonly hooks?: PipelineHook
+  ) {}
+
+  map(fn: (msg: Message) => Message | Promise<Message>, hooks?: PipelineHook): SplitPipeline {
+    this.steps.push(part => {
+      const result = fn(applyBeforeHook(part, hooks));
+      return result instanceof Promise
+        ? result.then(message => applyAfterHook(message, hooks))
+        : applyAfterHook(result, hooks);
+    });
+    return this;
+  }
+
+  /**
+   * Drop parts that fail the predicate; they still count towards completion
+   */
+  filter(predicate: (msg: Message) => boolean | Promise<boolean>, hooks?: PipelineHook): SplitPipeline {
+    this.steps.push(part => {
+      const current = applyBeforeHook(part, hooks);
+      const decide = (keep: boolean) => keep ? applyAfterHook(current, hooks) : dropMessage(current, 'filter');
+      const result = predicate(current);
+      return result instanceof Promise ? result.then(decide) : decide(result);
+    });
+    return this;
+  }
+
+  /**
+   * Reassemble the parts and continue the parent pipeline with the aggregated message
+   */
+  aggregate(options: AggregateOptions = {}, hooks?: PipelineHook): PipeFitter {
+    return this.resume(message => {
+      const parent = applyBeforeHook(message, this.hooks);
+      const id = nextSplitId();
+      const parts = splitMessage(parent, this.format, id).map(part => this.process(part));
+
+      const finish = (aggregated: Message) => applyAfterHook(aggregated, hooks);
+
+      if (!parts.some(part => part instanceof Promise)) {
+        const aggregator = new Aggregator(options);
+        let result = aggregator.expect(parent, id, parts.length);
+        for (const part of parts as Message[]) {
+          if (result) break;
+          result = aggregator.add(part);
+        }
+        return finish(result ?? aggregator.flush(id)[0]);
+      }
+
+      return new Promise<Message>((resolve, reject) => {
+        const aggregator = new Aggregator(options, aggregated => resolve(finish(aggregated)));
+        aggregator.expect(parent, id, parts.length);
+
+        parts.forEach(part => Promise.resolve(part).then(processed => {
+          const result = aggregator.add(processed);
+          if (result) resolve(finish(result));
+        }, reject));
+
+        Promise.allSettled(parts).then(() => {
+          const [rest] = aggregator.flush(id);
+          if (rest) resolve(finish(rest));
+        });
+      });
+    });
+  }
+
+  private process(part: Message): Message | Promise<Message> {
+    return this.steps.reduce<Message | Promise<Message>>((current, step) => {
+      if (current instanceof Promise) {
+        return current.then(message => isMessageDropped(message) ? message : step(message));
+      }
+      return isMessageDropped(current) ? current : step(current);
+    }, part);
+  }
+}
@@ -0,0 +1,69 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { StreamPipeline } from './stream-pipeline.js';
+import { Message } from './message.js';
+import { FNode, FNodeType } from './fnode.js';
+import { StreamOutputAdapter } from './stream.js';
+
+function item(value: number): FNode {
+  return { type: FNodeType.VALUE, name: 'n', value };
+}
+
+function collector(log: string[] = []): StreamOutputAdapter<unknown[]> {
+  const values: unknown[] = [];
+  return {
+    write: async (message: Message) => {
+      log.push(`write ${message.data.value}`);
+      values.push(message.data.value);
+    },
+    end: () => values
+  };
+}
+
+test('maps and filters items one at a time', async () => {
+  const output = await new StreamPipeline()
+    .from([item(1), item(2), item(3)])
+    .map(async message => ({ ...message, data: item(Number(message.data.value) * 10) }))
+    .filter(message => Number(message.data.value) > 10)
+    .to(collector());
+
+  assert.deepEqual(output, [20, 30]);
+});
+
+test('reads the next item only after the previous write', async () => {
+  const log: string[] = [];
+  const source = (function* () {
+    for (const value of [1, 2]) {
+      log.push(`read ${value}`);
+      yield item(value);
+    }
+  })();
+
+  await new StreamPipeline().from(source).to(collector(log));
+
+  assert.deepEqual(log, ['read 1', 'write 1', 'read 2', 'write 2']);
+});
+
+test('find stops reading the source after the first match', async () => {
+  let read = 0;
+  const source = (function* () {
+    for (const value of [1, 2, 3, 4]) {
+      read++;
+      yield item(value);
+    }
+  })();
+
+  const output = await new StreamPipeline().from(source).find(message => message.data.value === 2).to(collector());
+
+  assert.deepEqual(output, [2]);
+  assert.equal(read, 2);
+});
+
+test('numbers each item message', async () => {
+  const indexes: number[] = [];
+  for await (const message of new StreamPipeline().from([item(1), item(2)]).items()) {
+    indexes.push(message.metadata.stream.index);
+  }
+
+  assert.deepEqual(indexes, [0, 1]);
+});
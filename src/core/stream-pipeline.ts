@@ -0,0 +1,133 @@
+import { Message, createMessageFromFNode } from './message.js';
+import { Context, createContext } from './context.js';
+import { FNode } from './fnode.js';
+import { Configuration, ConfigurationManager } from './configuration.js';
+import { ResourceManager } from './resource-manager.js';
+import { LoggerFactory } from './logger.js';
+import { createTransformationEngine } from '../semantic/transformation-engine.js';
+import { PipelineHook } from './pipefitter.js';
+import { applyBeforeHook, applyAfterHook } from './hooks.js';
+import {
+  StreamSource,
+  StreamInputAdapter,
+  StreamOutputAdapter,
+  isStreamInputAdapter,
+  toAsyncIterable
+} from './stream.js';
+
+type StreamStep = (items: AsyncIterable<Message>) => AsyncIterable<Message>;
+
+/**
+ * Streaming pipeline
+ * Items flow through the steps one at a time, each wrapped in its own message.
+ * Items are pulled from the source only as fast as the output adapter accepts them,
+ * so memory use stays constant regardless of input size.
+ */
+export class StreamPipeline {
+  private source: AsyncIterable<FNode> | null = null;
+  private readonly steps: StreamStep[] = [];
+  private context: Context;
+
+  constructor(userConfig: Partial<Configuration> = {}) {
+    const config = ConfigurationManager.create(userConfig);
+    const logger = LoggerFactory.create();
+    const resources = new ResourceManager();
+
+    LoggerFactory.setLevel(config.logLevel);
+    this.context = createContext(logger, config, resources, createTransformationEngine());
+  }
+
+  from(source: StreamInputAdapter | StreamSource<FNode>, options?: unknown): StreamPipeline {
+    if (isStreamInputAdapter(source)) {
+      this.context.resources.registerAdapter(source);
+      this.source = source.stream(options);
+    } else {
+      this.source = toAsyncIterable(source);
+    }
+    return this;
+  }
+
+  map(fn: (msg: Message) => Message | Promise<Message>, hooks?: PipelineHook): StreamPipeline {
+    return this.step(async function* (items) {
+      for await (const message of items) {
+        yield applyAfterHook(await fn(applyBeforeHook(message, hooks)), hooks);
+      }
+    });
+  }
+
+  filter(predicate: (msg: Message) => boolean | Promise<boolean>, hooks?: PipelineHook): StreamPipeline {
+    return this.step(async function* (items) {
+      for await (const message of items) {
+        const current = applyBeforeHook(message, hooks);
+        if (await predicate(current)) yield applyAfterHook(current, hooks);
+      }
+    });
+  }
+
+  /**
+   * Pass on the first matching item and stop reading the source
+   */
+  find(predicate: (msg: Message) => boolean | Promise<boolean>, hooks?: PipelineHook): StreamPipeline {
+    return this.step(async function* (items) {
+      for await (const message of items) {
+        const current = applyBeforeHook(message, hooks);
+        if (await predicate(current)) {
+          yield applyAfterHook(current, hooks);
+          return;
+        }
+      }
+    });
+  }
+
+  /**
+   * Record an arbitrary item-level step
+   */
+  step(step: StreamStep): StreamPipeline {
+    this.steps.push(step);
+    return this;
+  }
+
+  /**
+   * Iterate over the processed item messages
+   */
+  items(): AsyncIterable<Message> {
+    if (!this.source) {
+      throw new Error('No source set: call from() before transformation');
+    }
+
+    const source = this.source;
+    const context = this.context;
+    const messages = (async function* () {
+      let index = 0;
+      for await (const item of source) {
+        const message = createMessageFromFNode(item, context);
+        yield {
+          ...message,
+          metadata: {
+            ...message.metadata,
+            stream: { index: index++ }
+          }
+        };
+      }
+    })();
+
+    return this.steps.reduce<AsyncIterable<Message>>((items, step) => step(items), messages);
+  }
+
+  /**
+   * Drain the pipeline into an output adapter, awaiting each write before
+   * pulling the next item
+   */
+  async to<T = unknown>(target: StreamOutputAdapter<T>, options?: unknown): Promise<T> {
+    this.context.resources.registerAdapter(target);
+
+    for await (const message of this.items()) {
+      await target.write(message, options);
+    }
+    return target.end(options);
+  }
+
+  async cleanup(): Promise<void> {
+    await this.context.resources.cleanup();
+  }
+}
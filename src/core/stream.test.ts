@@ -0,0 +1,61 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { decodeText, toAsyncIterable, writeToSink } from './stream.js';
+
+async function collect<T>(source: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of source) items.push(item);
+  return items;
+}
+
+test('passes a string on as a single chunk', async () => {
+  assert.deepEqual(await collect(toAsyncIterable('a,b\n')), ['a,b\n']);
+});
+
+test('accepts plain iterables, async iterables and web readable streams', async () => {
+  const chunks = ['x', 'y'];
+  const reader = { index: 0, released: false };
+  const readable = {
+    getReader: () => ({
+      read: async () => reader.index < chunks.length
+        ? { done: false, value: chunks[reader.index++] }
+        : { done: true },
+      releaseLock: () => {
+        reader.released = true;
+      }
+    })
+  };
+
+  assert.deepEqual(await collect(toAsyncIterable(chunks)), chunks);
+  assert.deepEqual(await collect(toAsyncIterable((async function* () { yield* chunks; })())), chunks);
+  assert.deepEqual(await collect(toAsyncIterable(readable)), chunks);
+  assert.equal(reader.released, true);
+});
+
+test('decodes multi-byte characters split across byte chunks', async () => {
+  const bytes = new TextEncoder().encode('€!');
+
+  assert.equal((await collect(decodeText([bytes.slice(0, 1), bytes.slice(1, 2), bytes.slice(2)]))).join(''), '€!');
+});
+
+test('waits for a full sink to drain before resolving', async () => {
+  const events: string[] = [];
+  let drain = () => {};
+  const sink = {
+    write: (chunk: string) => {
+      events.push(`write ${chunk}`);
+      return false;
+    },
+    once: (event: 'drain', listener: () => void) => {
+      drain = listener;
+    }
+  };
+
+  const written = writeToSink(sink, 'a').then(() => events.push('resolved'));
+  await new Promise(resolve => setImmediate(resolve));
+  events.push('drain');
+  drain();
+  await written;
+
+  assert.deepEqual(events, ['write a', 'drain', 'resolved']);
+});
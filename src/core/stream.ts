@@ -0,0 +1,119 @@
+import { Message } from './message.js';
+import { FNode } from './fnode.js';
+
+/**
+ * Minimal shape of a WHATWG ReadableStream, so web streams can feed a pipeline
+ */
+export interface ReadableStreamLike<T> {
+  getReader(): {
+    read(): Promise<{ done: boolean; value?: T }>;
+    releaseLock(): void;
+  };
+}
+
+/**
+ * Anything a streaming pipeline can pull from: async iterables (including Node
+ * Readable streams), plain iterables, or web ReadableStreams
+ */
+export type StreamSource<T> = AsyncIterable<T> | Iterable<T> | ReadableStreamLike<T>;
+
+/**
+ * Minimal shape of a writable destination: a Node Writable (honouring 'drain'),
+ * a WritableStreamDefaultWriter (returning promises), or any object with write()
+ */
+export interface WritableSink {
+  write(chunk: string): unknown;
+  once?(event: 'drain', listener: () => void): unknown;
+}
+
+/**
+ * Input adapter that yields items one at a time instead of a complete tree
+ */
+export interface StreamInputAdapter {
+  stream(options?: unknown): AsyncIterable<FNode>;
+
+  start?(): void | Promise<void>;
+  stop?(): void | Promise<void>;
+}
+
+/**
+ * Output adapter that receives item messages incrementally.
+ * The pipeline awaits each write before pulling the next item (backpressure).
+ */
+export interface StreamOutputAdapter<T = unknown> {
+  write(message: Message, options?: unknown): void | Promise<void>;
+  end(options?: unknown): T | Promise<T>;
+
+  start?(): void | Promise<void>;
+  stop?(): void | Promise<void>;
+}
+
+export function isStreamInputAdapter(obj: unknown): obj is StreamInputAdapter {
+  return typeof obj === 'object' && obj !== null && typeof (obj as StreamInputAdapter).stream === 'function';
+}
+
+/**
+ * Normalize a stream source to an AsyncIterable
+ */
+export function toAsyncIterable<T>(source: StreamSource<T>): AsyncIterable<T> {
+  // A string is iterable by character; it is passed on as a single chunk instead
+  if (typeof source === 'string') {
+    const chunk: T = source;
+    return (async function* () {
+      yield chunk;
+    })();
+  }
+
+  if (Symbol.asyncIterator in source) {
+    return source as AsyncIterable<T>;
+  }
+
+  if (Symbol.iterator in source) {
+    const iterable = source as Iterable<T>;
+    return (async function* () {
+      yield* iterable;
+    })();
+  }
+
+  const stream = source as ReadableStreamLike<T>;
+  return (async function* () {
+    const reader = stream.getReader();
+    try {
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) return;
+        yield value as T;
+      }
+    } finally {
+      reader.releaseLock();
+    }
+  })();
+}
+
+/**
+ * Decode a stream of text or byte chunks into strings, handling multi-byte
+ * characters split across chunk boundaries
+ */
+export async function* decodeText(source: StreamSource<string | Uint8Array>): AsyncIterable<string> {
+  const decoder = new TextDecoder();
+
+  for await (const chunk of toAsyncIterable(source)) {
+    yield typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true });
+  }
+
+  const rest = decoder.decode();
+  if (rest) yield rest;
+}
+
+/**
+ * Write a chunk, waiting for the sink to drain or settle before resolving
+ */
+export async function writeToSink(sink: WritableSink, chunk: string): Promise<void> {
+  const result = sink.write(chunk);
+
+  if (result instanceof Promise) {
+    await result;
+  } else if (result === false && sink.once) {
+    await new Promise<void>(resolve => sink.once!('drain', resolve));
+  }
+}
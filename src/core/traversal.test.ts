@@ -0,0 +1,87 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { TraversalContext, transformTree, walkBreadthFirst, walkDepthFirst } from './traversal.js';
+import { FNode, FNodeType } from './fnode.js';
+import { PipeFitter } from './pipefitter.js';
+import { XmlAdapter } from '../adapters/xml-adapter.js';
+import { load } from '../test-helpers.js';
+
+const library = load(XmlAdapter.string('<lib><!-- shelf --><book id="1"><title>A</title></book><book id="2"><title>B</title></book></lib>')).data;
+
+const label = ({ node, edge }: TraversalContext) => edge === 'attributes' ? `@${node.name}` : node.name;
+
+test('walks depth-first in document order, attributes before children', () => {
+  const entered: string[] = [];
+  const left: string[] = [];
+
+  walkDepthFirst(library, {
+    enter: context => {
+      entered.push(label(context));
+    },
+    leave: context => {
+      if (context.node.name === 'book') left.push(context.path.join('/'));
+    }
+  }, { dataOnly: true });
+
+  assert.deepEqual(entered, ['#document', 'lib', 'book', '@id', 'title', 'book', '@id', 'title']);
+  assert.deepEqual(left, ['#document/lib/book', '#document/lib/book']);
+});
+
+test('skip leaves out a subtree and stop ends the walk', () => {
+  const names: string[] = [];
+  const completed = walkDepthFirst(library, context => {
+    names.push(label(context));
+    if (context.node.name === 'book') return context.index === 1 ? 'skip' : 'stop';
+  }, { attributes: false, dataOnly: true });
+
+  assert.equal(completed, false);
+  assert.deepEqual(names, ['#document', 'lib', 'book', 'book']);
+});
+
+test('walks breadth-first level by level', () => {
+  const levels: number[] = [];
+  walkBreadthFirst(library, ({ depth }) => {
+    levels.push(depth);
+  }, { attributes: false });
+
+  assert.deepEqual(levels, [0, 1, 2, 2, 2, 3, 3]);
+});
+
+test('a node linking back to an ancestor is not entered again', () => {
+  const root: FNode = { type: FNodeType.RECORD, name: 'root', children: [] };
+  root.children!.push({ type: FNodeType.RECORD, name: 'child', children: [root] });
+
+  const names: string[] = [];
+  walkDepthFirst(root, ({ node }) => {
+    names.push(node.name);
+  });
+
+  assert.deepEqual(names, ['root', 'child']);
+});
+
+test('transformTree copies only the branches leading to a change', () => {
+  const result = transformTree(library, (node, { parent }) => {
+    if (node.type === FNodeType.COMMENT) return null;
+    if (node.name === 'title' && parent?.attributes?.[0].value === '2') return { ...node, value: 'B2' };
+  })!;
+
+  const [before] = library.children!;
+  const [after] = result.children!;
+  assert.equal(
+    new PipeFitter().from(result).to(XmlAdapter.stringify()),
+    '<lib><book id="1"><title>A</title></book><book id="2"><title>B2</title></book></lib>'
+  );
+  assert.equal(after.children![0], before.children![1]);
+  assert.notEqual(after.children![1], before.children![2]);
+  assert.equal(library.children![0].children!.length, 3);
+});
+
+test('a pre-order transform continues below its replacement', () => {
+  const renamed = transformTree(library, node => node.name === 'book' ? { ...node, name: 'item' } : undefined, { order: 'pre' })!;
+  const names: string[] = [];
+  walkDepthFirst(renamed, ({ node, path }) => {
+    if (node.name === 'title') names.push(path.join('/'));
+  });
+
+  assert.deepEqual(names, ['#document/lib/item/title', '#document/lib/item/title']);
+});
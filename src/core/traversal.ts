@@ -0,0 +1,211 @@
+import { FNode, FNodeType } from './fnode.js';
+
+/**
+ * Link from a node to the nodes below it
+ */
+export type TraversalEdge = 'attributes' | 'children';
+
+/**
+ * Where a visited node sits in the tree
+ */
+export interface TraversalContext {
+  node: FNode;
+
+  /** Node this one was reached from; undefined for the root */
+  parent?: FNode;
+
+  /** Nodes from the root down to the parent */
+  ancestors: FNode[];
+
+  /** Names from the root down to the node */
+  path: string[];
+
+  depth: number;
+
+  /** Position within the parent's attributes or children */
+  index: number;
+
+  /** How the node is linked to its parent; undefined for the root */
+  edge?: TraversalEdge;
+}
+
+/**
+ * Returned by a visitor: 'skip' leaves out the node's subtree, 'stop' ends the walk
+ */
+export type VisitAction = 'skip' | 'stop' | void;
+
+/**
+ * Callbacks for a depth-first walk; leave runs once the node's subtree is done
+ */
+export interface Visitor {
+  enter?: (context: TraversalContext) => VisitAction;
+  leave?: (context: TraversalContext) => VisitAction;
+}
+
+/**
+ * Traversal options
+ */
+export interface TraversalOptions {
+  /** Visit attribute nodes, before the children (default true) */
+  attributes?: boolean;
+
+  /** Leave out comments and processing instructions (default false) */
+  dataOnly?: boolean;
+}
+
+/**
+ * Options for transformTree
+ */
+export interface TransformTreeOptions extends TraversalOptions {
+  /**
+   * When the transform runs: 'post' (default) after the node's links are rebuilt, so it
+   * sees transformed descendants; 'pre' before, so the walk continues below its result
+   */
+  order?: 'pre' | 'post';
+}
+
+/**
+ * Replacement for a node: a node, null to remove it, or nothing to keep it
+ */
+export type TreeTransform = (node: FNode, context: TraversalContext) => FNode | null | void;
+
+/**
+ * Walk the tree depth-first in document order. Returns false when a visitor stopped the walk.
+ * A node that leads back to one of its ancestors is not entered again.
+ */
+export function walkDepthFirst(
+  root: FNode,
+  visitor: Visitor | ((context: TraversalContext) => VisitAction),
+  options: TraversalOptions = {}
+): boolean {
+  const { enter, leave } = typeof visitor === 'function' ? { enter: visitor, leave: undefined } : visitor;
+
+  const visit = (context: TraversalContext): boolean => {
+    const action = enter?.(context);
+    if (action === 'stop') return false;
+
+    if (action !== 'skip') {
+      for (const next of linksOf(context, options)) {
+        if (!visit(next)) return false;
+      }
+    }
+    return leave?.(context) !== 'stop';
+  };
+
+  return visit(rootContext(root));
+}
+
+/**
+ * Walk the tree level by level. Returns false when the visitor stopped the walk.
+ */
+export function walkBreadthFirst(
+  root: FNode,
+  visit: (context: TraversalContext) => VisitAction,
+  options: TraversalOptions = {}
+): boolean {
+  const queue: TraversalContext[] = [rootContext(root)];
+
+  for (let head = 0; head < queue.length; head++) {
+    const action = visit(queue[head]);
+    if (action === 'stop') return false;
+    if (action !== 'skip') queue.push(...linksOf(queue[head], options));
+  }
+  return true;
+}
+
+/**
+ * Rebuild the tree through a transform without modifying it. Unchanged subtrees keep their
+ * identity, so only the branches leading to a replaced node are copied. Returns null when
+ * the root itself is removed.
+ */
+export function transformTree(
+  root: FNode,
+  transform: TreeTransform,
+  options: TransformTreeOptions = {}
+): FNode | null {
+  const order = options.order ?? 'post';
+
+  const rebuild = (context: TraversalContext): FNode | null => {
+    let node = context.node;
+
+    if (order === 'pre') {
+      const replacement = transform(node, context);
+      if (replacement === null) return null;
+      if (replacement) node = replacement;
+    }
+
+    const current = { ...context, node };
+    const attributes = options.attributes === false ? node.attributes : rebuildLinks(current, 'attributes');
+    const children = rebuildLinks(current, 'children');
+    if (attributes !== node.attributes || children !== node.children) {
+      node = { ...node };
+      if (attributes !== current.node.attributes) node.attributes = attributes;
+      if (children !== current.node.children) node.children = children;
+    }
+
+    if (order === 'post') {
+      const replacement = transform(node, { ...context, node });
+      if (replacement === null) return null;
+      if (replacement) node = replacement;
+    }
+    return node;
+  };
+
+  const rebuildLinks = (context: TraversalContext, edge: TraversalEdge): FNode[] | undefined => {
+    const links = context.node[edge];
+    if (!links) return links;
+
+    let changed = false;
+    const result: FNode[] = [];
+    links.forEach((link, index) => {
+      if (!follows(context, link, options)) {
+        result.push(link);
+        return;
+      }
+
+      const rebuilt = rebuild(childContext(context, link, index, edge));
+      if (rebuilt !== link) changed = true;
+      if (rebuilt) result.push(rebuilt);
+    });
+    return changed ? result : links;
+  };
+
+  return rebuild(rootContext(root));
+}
+
+function rootContext(root: FNode): TraversalContext {
+  return { node: root, ancestors: [], path: [root.name], depth: 0, index: 0 };
+}
+
+function childContext(context: TraversalContext, node: FNode, index: number, edge: TraversalEdge): TraversalContext {
+  return {
+    node,
+    parent: context.node,
+    ancestors: [...context.ancestors, context.node],
+    path: [...context.path, node.name],
+    depth: context.depth + 1,
+    index,
+    edge
+  };
+}
+
+/**
+ * Whether the walk continues into a linked node: data nodes only when asked, and never back
+ * into an ancestor
+ */
+function follows(context: TraversalContext, node: FNode, options: TraversalOptions): boolean {
+  if (options.dataOnly && (node.type === FNodeType.COMMENT || node.type === FNodeType.INSTRUCTION)) return false;
+  return node !== context.node && !context.ancestors.includes(node);
+}
+
+function linksOf(context: TraversalContext, options: TraversalOptions): TraversalContext[] {
+  const links: TraversalContext[] = [];
+  const edges: TraversalEdge[] = options.attributes === false ? ['children'] : ['attributes', 'children'];
+
+  for (const edge of edges) {
+    context.node[edge]?.forEach((node, index) => {
+      if (follows(context, node, options)) links.push(childContext(context, node, index, edge));
+    });
+  }
+  return links;
+}
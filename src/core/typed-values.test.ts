@@ -0,0 +1,73 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { decodeBase64, encodeBase64, formatValue, parseValue, valueKey, valuesEqual } from './typed-values.js';
+import { FNode, FNodeType, createFNode } from './fnode.js';
+import { FormatError } from './errors.js';
+import { PipeFitter } from './pipefitter.js';
+import { JsonAdapter } from '../adapters/json-adapter.js';
+import { CsvAdapter } from '../adapters/csv-adapter.js';
+import { YamlAdapter } from '../adapters/yaml-adapter.js';
+import { load } from '../test-helpers.js';
+
+const when = new Date('2024-03-04T05:06:07.000Z');
+const bytes = new Uint8Array([0, 1, 254, 255]);
+
+function record(): FNode {
+  return {
+    type: FNodeType.RECORD,
+    name: 'root',
+    children: [
+      createFNode(FNodeType.FIELD, 'when', when),
+      createFNode(FNodeType.FIELD, 'big', 9007199254740993n),
+      createFNode(FNodeType.FIELD, 'amount', '1234.10', 'decimal'),
+      createFNode(FNodeType.FIELD, 'data', bytes)
+    ]
+  };
+}
+
+test('values survive their text forms', () => {
+  assert.equal(formatValue(when), '2024-03-04T05:06:07.000Z');
+  assert.deepEqual(parseValue(formatValue(when), 'timestamp'), when);
+  assert.equal(parseValue('9007199254740993', 'bigint'), 9007199254740993n);
+  assert.equal(encodeBase64(bytes), 'AAH+/w==');
+  assert.deepEqual(decodeBase64('AAH-_w'), bytes);
+  assert.throws(() => parseValue('soon', 'timestamp'), FormatError);
+  assert.throws(() => decodeBase64('A'), FormatError);
+});
+
+test('timestamps compare by time and bytes by content', () => {
+  assert.ok(valuesEqual(when, new Date(when.getTime())));
+  assert.ok(valuesEqual(bytes, new Uint8Array(bytes)));
+  assert.ok(!valuesEqual(1n, 1));
+  assert.equal(valueKey(new Date(when.getTime())), valueKey(when));
+  assert.notEqual(valueKey('1'), valueKey(1));
+});
+
+test('JSON text carries typed values as strings, or as Extended JSON wrappers', () => {
+  assert.equal(
+    new PipeFitter().from(record()).to(JsonAdapter.stringify()),
+    '{"when":"2024-03-04T05:06:07.000Z","big":"9007199254740993","amount":"1234.10","data":"AAH+/w=="}'
+  );
+
+  const extended = new PipeFitter().from(record()).to(JsonAdapter.stringify({ typedValues: 'extended' })) as string;
+  const message = load(JsonAdapter.string(extended, { typedValues: 'extended' }));
+
+  assert.deepEqual(
+    message.data.children!.map(child => [child.value, child.valueType]),
+    [[when, 'timestamp'], [9007199254740993n, 'bigint'], ['1234.10', 'decimal'], [bytes, 'bytes']]
+  );
+});
+
+test('CSV writes typed values as text; YAML tags them', () => {
+  const rows: FNode = { type: FNodeType.COLLECTION, name: 'root', children: [{ ...record(), name: 'row' }] };
+
+  assert.equal(
+    new PipeFitter().from(rows).to(CsvAdapter.stringify()),
+    'when,big,amount,data\r\n2024-03-04T05:06:07.000Z,9007199254740993,1234.10,AAH+/w==\r\n'
+  );
+
+  const yaml = new PipeFitter().from(record()).to(YamlAdapter.stringify()) as string;
+  const message = load(YamlAdapter.string(yaml));
+
+  assert.deepEqual(message.data.children!.map(child => child.value), [when, 9007199254740993n, '1234.10', bytes]);
+});
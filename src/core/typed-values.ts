@@ -0,0 +1,124 @@
+import { FNode, Primitive, ValueType } from './fnode.js';
+import { FormatError } from './errors.js';
+
+const BASE64_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+/**
+ * Type tag implied by a value's JavaScript type
+ */
+export function inferValueType(value: Primitive | undefined): ValueType {
+  if (value === null || value === undefined) return 'null';
+  if (value instanceof Date) return 'timestamp';
+  if (value instanceof Uint8Array) return 'bytes';
+
+  switch (typeof value) {
+    case 'bigint': return 'bigint';
+    case 'number': return 'number';
+    case 'boolean': return 'boolean';
+    default: return 'string';
+  }
+}
+
+/**
+ * Type tag of a node's value: its valueType, or the one implied by the value
+ */
+export function valueTypeOf(node: FNode): ValueType {
+  return node.valueType ?? inferValueType(node.value);
+}
+
+/**
+ * Whether a value needs a type tag or an encoding to survive text formats
+ */
+export function isTypedValue(value: unknown): value is Date | bigint | Uint8Array {
+  return value instanceof Date || value instanceof Uint8Array || typeof value === 'bigint';
+}
+
+/**
+ * Text form of a value: ISO 8601 timestamps, decimal digits, base64 bytes; null is ''
+ */
+export function formatValue(value: Primitive | undefined): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString();
+  if (value instanceof Uint8Array) return encodeBase64(value);
+  return String(value);
+}
+
+/**
+ * Read the text form of a value back into the given type
+ */
+export function parseValue(text: string, valueType: ValueType): Primitive {
+  switch (valueType) {
+    case 'null':
+      return null;
+    case 'number':
+      return Number(text);
+    case 'boolean':
+      return /^true$/i.test(text.trim());
+    case 'bigint':
+      try {
+        return BigInt(text.trim());
+      } catch {
+        throw new FormatError(`Invalid bigint value "${text}"`, { valueType, text });
+      }
+    case 'timestamp': {
+      const date = new Date(text.trim());
+      if (isNaN(date.getTime())) throw new FormatError(`Invalid timestamp value "${text}"`, { valueType, text });
+      return date;
+    }
+    case 'bytes':
+      return decodeBase64(text);
+    default:
+      return text;
+  }
+}
+
+/**
+ * Equality that compares timestamps by time and bytes by content
+ */
+export function valuesEqual(a: Primitive | undefined, b: Primitive | undefined): boolean {
+  if (a instanceof Date && b instanceof Date) return a.getTime() === b.getTime();
+  if (a instanceof Uint8Array && b instanceof Uint8Array) {
+    return a.length === b.length && a.every((byte, index) => byte === b[index]);
+  }
+  return a === b;
+}
+
+/**
+ * Stable string key for a value, safe for bigints, timestamps and bytes
+ */
+export function valueKey(value: Primitive | undefined): string {
+  if (isTypedValue(value)) return `${inferValueType(value)}:${formatValue(value)}`;
+  return value === undefined ? 'undefined' : JSON.stringify(value);
+}
+
+export function encodeBase64(bytes: Uint8Array): string {
+  let result = '';
+  for (let i = 0; i < bytes.length; i += 3) {
+    const chunk = (bytes[i] << 16) | ((bytes[i + 1] ?? 0) << 8) | (bytes[i + 2] ?? 0);
+    result += BASE64_ALPHABET[(chunk >> 18) & 63] + BASE64_ALPHABET[(chunk >> 12) & 63];
+    result += i + 1 < bytes.length ? BASE64_ALPHABET[(chunk >> 6) & 63] : '=';
+    result += i + 2 < bytes.length ? BASE64_ALPHABET[chunk & 63] : '=';
+  }
+  return result;
+}
+
+export function decodeBase64(text: string): Uint8Array {
+  const clean = text.replace(/\s+/g, '').replace(/-/g, '+').replace(/_/g, '/').replace(/=+$/, '');
+  if (/[^A-Za-z0-9+/]/.test(clean) || clean.length % 4 === 1) {
+    throw new FormatError('Invalid base64 data', { length: text.length });
+  }
+
+  const bytes = new Uint8Array(Math.floor(clean.length * 3 / 4));
+  let buffer = 0;
+  let bits = 0;
+  let index = 0;
+  for (const char of clean) {
+    buffer = (buffer << 6) | BASE64_ALPHABET.indexOf(char);
+    bits += 6;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes[index++] = (buffer >> bits) & 255;
+    }
+  }
+  return bytes;
+}
@@ -0,0 +1,91 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Lens, deleteIn, getIn, insertAt, removeAttribute, setAttribute, setIn, updateIn } from './updates.js';
+import { FNode, FNodeType, createFNode } from './fnode.js';
+import { TransformationError } from './errors.js';
+import { PipeFitter } from './pipefitter.js';
+import { JsonAdapter } from '../adapters/json-adapter.js';
+import { XmlAdapter } from '../adapters/xml-adapter.js';
+import { load } from '../test-helpers.js';
+
+function json(text: string): FNode {
+  return load(JsonAdapter.string(text)).data;
+}
+
+function output(node: FNode): unknown {
+  return new PipeFitter().from(node).to(JsonAdapter.output());
+}
+
+const store = json('{"users":[{"name":"ann","tags":["a"]},{"name":"bob"}],"meta":{"v":1}}');
+
+test('reads and sets nested values, sharing untouched subtrees', () => {
+  const updated = setIn(store, 'users.1.name', 'Bob');
+
+  assert.equal(getIn(updated, ['users', 1, 'name'])!.value, 'Bob');
+  assert.equal(getIn(store, 'users.1.name')!.value, 'bob');
+  assert.equal(getIn(updated, 'meta'), getIn(store, 'meta'));
+  assert.equal(getIn(updated, 'users.0'), getIn(store, 'users.0'));
+});
+
+test('setIn creates missing records and collections; updateIn leaves unresolved paths alone', () => {
+  assert.deepEqual(output(setIn(json('{}'), 'a.list.0', 1)), { a: { list: [1] } });
+  assert.equal(updateIn(store, 'missing.path', () => 1), store);
+  assert.deepEqual(output(updateIn(store, 'meta.v', node => Number(node.value) + 1)), {
+    users: [{ name: 'ann', tags: ['a'] }, { name: 'bob' }],
+    meta: { v: 2 }
+  });
+});
+
+test('deleteIn and insertAt renumber collection items', () => {
+  const removed = deleteIn(store, 'users.0');
+  const inserted = insertAt(store, 'users.0.tags', 0, 'z');
+
+  assert.deepEqual(output(removed), { users: [{ name: 'bob' }], meta: { v: 1 } });
+  assert.deepEqual(getIn(removed, 'users')!.children!.map(child => child.name), ['0']);
+  assert.deepEqual(output(getIn(inserted, 'users.0.tags')!), ['z', 'a']);
+  assert.throws(() => insertAt(store, 'users', 5, 'x'), TransformationError);
+  assert.throws(() => insertAt(store, 'meta', 0, 'x'), TransformationError);
+  assert.throws(() => deleteIn(store, ''), TransformationError);
+});
+
+test('collection edits keep comments and formatting whitespace in place', () => {
+  const list: FNode = {
+    type: FNodeType.COLLECTION,
+    name: 'list',
+    children: [
+      createFNode(FNodeType.VALUE, '#text', '\n  '),
+      createFNode(FNodeType.VALUE, '0', 'a'),
+      createFNode(FNodeType.COMMENT, '#comment', 'note'),
+      createFNode(FNodeType.VALUE, '1', 'b')
+    ]
+  };
+
+  const result = insertAt(deleteIn(list, '0'), [], 1, 'c');
+
+  assert.deepEqual(result.children!.map(child => [child.name, child.value]), [
+    ['#text', '\n  '],
+    ['0', 'b'],
+    ['#comment', 'note'],
+    ['1', 'c']
+  ]);
+});
+
+test('attributes and repeated XML siblings are addressed by path', () => {
+  const library = load(XmlAdapter.string('<lib><book id="1"/><book id="2"/></lib>')).data;
+
+  const updated = updateIn(library, 'lib.book[1]', book => removeAttribute(setAttribute(book, 'lang', 'en'), 'id'));
+
+  assert.equal(getIn(library, 'lib.book[1].@id')!.value, '2');
+  assert.equal(new PipeFitter().from(updated).to(XmlAdapter.stringify()), '<lib><book id="1"/><book lang="en"/></lib>');
+});
+
+test('lenses compose; setting through a missing part leaves the source unchanged', () => {
+  const firstUser = Lens.path('users.0');
+  const name = firstUser.compose(Lens.field('name'));
+  const tag = Lens.child('users').compose(Lens.child(0)).compose(Lens.field('tags.0'));
+
+  assert.equal(name.get(store), 'ann');
+  assert.deepEqual(output(name.set(store, 'Ann')), { users: [{ name: 'Ann', tags: ['a'] }, { name: 'bob' }], meta: { v: 1 } });
+  assert.equal(getIn(tag.update(store, value => `${value}!`), 'users.0.tags.0')!.value, 'a!');
+  assert.equal(Lens.path('nobody').compose(Lens.value()).set(store, 1), store);
+});
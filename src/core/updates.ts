@@ -0,0 +1,361 @@
+import {
+  FNode,
+  FNodeType,
+  Primitive,
+  ValueType,
+  createFNode,
+  isFNode,
+  isDataNode,
+  dataChildren,
+  spliceDataChildren
+} from './fnode.js';
+import { TransformationError } from './errors.js';
+import { inferValueType, isTypedValue, valuesEqual } from './typed-values.js';
+
+/**
+ * Path to a node: dot-separated segments, or an array of them. Each segment is
+ * - `name`: the first child with that name
+ * - `name[n]`: the n-th (zero-based) child with that name, as for repeated XML elements
+ * - a number: the item at that position in a collection, or the child with that name elsewhere
+ * - `@name`: an attribute
+ */
+export type UpdatePath = string | Array<string | number>;
+
+type Segment =
+  | { kind: 'child'; name: string; occurrence: number }
+  | { kind: 'index'; index: number }
+  | { kind: 'attribute'; name: string };
+
+type Edit = (target: FNode | undefined, segment: Segment) => FNode | undefined;
+
+/**
+ * The node at a path, or undefined when the path does not resolve
+ */
+export function getIn(root: FNode, path: UpdatePath): FNode | undefined {
+  let current: FNode | undefined = root;
+  for (const segment of parsePath(path)) {
+    if (!current) return undefined;
+    const { list, position } = locate(current, segment);
+    current = position === -1 ? undefined : list[position];
+  }
+  return current;
+}
+
+/**
+ * Place a node at a path, or set the value of the node there. Missing nodes are created:
+ * containers as records (collections when the next segment is a number), leaves as values
+ * and attributes.
+ */
+export function setIn(root: FNode, path: UpdatePath, value: FNode | Primitive): FNode {
+  const segments = parsePath(path);
+  if (segments.length === 0) return isFNode(value) ? value : withValue(root, value);
+
+  return editPath(root, segments, (target, segment) => {
+    if (isFNode(value)) return value;
+    if (target) return withValue(target, value);
+    return segment.kind === 'attribute'
+      ? createFNode(FNodeType.ATTRIBUTES, segment.name, value, typeTag(value))
+      : createFNode(FNodeType.VALUE, segmentName(segment), value, typeTag(value));
+  }, true);
+}
+
+/**
+ * Replace the node at a path with the result of update: a node, or a primitive that
+ * becomes its new value. Returns the root unchanged when the path does not resolve.
+ */
+export function updateIn(root: FNode, path: UpdatePath, update: (node: FNode) => FNode | Primitive): FNode {
+  const apply = (node: FNode): FNode => {
+    const result = update(node);
+    return isFNode(result) ? result : withValue(node, result);
+  };
+
+  const segments = parsePath(path);
+  if (segments.length === 0) return apply(root);
+  return editPath(root, segments, target => target && apply(target), false);
+}
+
+/**
+ * Remove the node at a path; items after a removed collection item move up
+ */
+export function deleteIn(root: FNode, path: UpdatePath): FNode {
+  const segments = parsePath(path);
+  if (segments.length === 0) {
+    throw new TransformationError('Cannot delete the root node', { path });
+  }
+  return editPath(root, segments, () => undefined, false);
+}
+
+/**
+ * Insert a node at a position among the data children of the node at a path. Collection
+ * items are renumbered; a primitive is only accepted for a collection, as a value item.
+ * Returns the root unchanged when the path does not resolve.
+ */
+export function insertAt(root: FNode, path: UpdatePath, index: number, value: FNode | Primitive): FNode {
+  return updateIn(root, path, container => {
+    const data = dataChildren(container);
+    if (!Number.isInteger(index) || index < 0 || index > data.length) {
+      throw new TransformationError(`Index ${index} is out of range`, { path, index, length: data.length });
+    }
+
+    const collection = container.type === FNodeType.COLLECTION;
+    if (!isFNode(value) && !collection) {
+      throw new TransformationError('Only a collection accepts an unnamed value', { path, index });
+    }
+
+    const node = isFNode(value) ? value : createFNode(FNodeType.VALUE, String(index), value, typeTag(value));
+    return spliceDataChildren(container, index, 0, [node]);
+  });
+}
+
+/**
+ * Set an attribute's value, adding the attribute when missing
+ */
+export function setAttribute(node: FNode, name: string, value: Primitive): FNode {
+  return setIn(node, [`@${name}`], value);
+}
+
+/**
+ * Remove an attribute; the node is returned unchanged when it has none of that name
+ */
+export function removeAttribute(node: FNode, name: string): FNode {
+  return deleteIn(node, [`@${name}`]);
+}
+
+/**
+ * Functional reference to a part of a structure: reading it, and returning a copy of the
+ * structure with that part replaced. Lenses compose, so a lens for a nested part is built
+ * from lenses for each step.
+ */
+export class Lens<S, A> {
+  private constructor(
+    private readonly getter: (source: S) => A,
+    private readonly setter: (source: S, value: A) => S
+  ) {}
+
+  static of<S, A>(get: (source: S) => A, set: (source: S, value: A) => S): Lens<S, A> {
+    return new Lens(get, set);
+  }
+
+  /**
+   * The node at a path; setting undefined removes it, setting a node creates missing ancestors
+   */
+  static path(path: UpdatePath): Lens<FNode, FNode | undefined> {
+    return new Lens(
+      root => getIn(root, path),
+      (root, node) => node === undefined ? deleteIn(root, path) : setIn(root, path, node)
+    );
+  }
+
+  /**
+   * A single child, attribute (`@name`) or collection item
+   */
+  static child(segment: string | number): Lens<FNode, FNode | undefined> {
+    return Lens.path([segment]);
+  }
+
+  /**
+   * A node's own value; setting undefined removes it
+   */
+  static value(): Lens<FNode, Primitive | undefined> {
+    return new Lens(
+      node => node.value,
+      (node, value) => {
+        if (value !== undefined) return withValue(node, value);
+        if (!('value' in node) && node.valueType === undefined) return node;
+
+        const copy = { ...node };
+        delete copy.value;
+        delete copy.valueType;
+        return copy;
+      }
+    );
+  }
+
+  /**
+   * The value at a path; setting creates the node, setting undefined removes it
+   */
+  static field(path: UpdatePath): Lens<FNode, Primitive | undefined> {
+    return new Lens(
+      root => getIn(root, path)?.value,
+      (root, value) => value === undefined ? deleteIn(root, path) : setIn(root, path, value)
+    );
+  }
+
+  /**
+   * An attribute's value; setting undefined removes the attribute
+   */
+  static attribute(name: string): Lens<FNode, Primitive | undefined> {
+    return Lens.field([`@${name}`]);
+  }
+
+  get(source: S): A {
+    return this.getter(source);
+  }
+
+  set(source: S, value: A): S {
+    return this.setter(source, value);
+  }
+
+  update(source: S, update: (value: A) => A): S {
+    return this.setter(source, update(this.getter(source)));
+  }
+
+  /**
+   * Focus further into the part this lens reaches. While that part is missing, reading gives
+   * undefined and setting leaves the source unchanged; path and field lenses create nodes.
+   */
+  compose<B>(inner: Lens<NonNullable<A>, B>): Lens<S, [A] extends [NonNullable<A>] ? B : B | undefined> {
+    type Result = [A] extends [NonNullable<A>] ? B : B | undefined;
+
+    return new Lens<S, Result>(
+      source => {
+        const part = this.getter(source);
+        return (part === undefined || part === null ? undefined : inner.get(part as NonNullable<A>)) as Result;
+      },
+      (source, value) => {
+        const part = this.getter(source);
+        if (part === undefined || part === null) return source;
+
+        const next = inner.set(part as NonNullable<A>, value as B);
+        return next === part ? source : this.setter(source, next);
+      }
+    );
+  }
+}
+
+function parsePath(path: UpdatePath): Segment[] {
+  const segments = typeof path === 'string' ? path.split('.').filter(segment => segment !== '') : path;
+  return segments.map(parseSegment);
+}
+
+function parseSegment(segment: string | number): Segment {
+  if (typeof segment === 'number') return { kind: 'index', index: segment };
+  if (segment.startsWith('@')) return { kind: 'attribute', name: segment.substring(1) };
+  if (/^(0|[1-9]\d*)$/.test(segment)) return { kind: 'index', index: Number(segment) };
+
+  const repeated = /^(.+)\[(\d+)\]$/.exec(segment);
+  return repeated
+    ? { kind: 'child', name: repeated[1], occurrence: Number(repeated[2]) }
+    : { kind: 'child', name: segment, occurrence: 0 };
+}
+
+function segmentName(segment: Segment): string {
+  return segment.kind === 'index' ? String(segment.index) : segment.name;
+}
+
+/**
+ * The list a segment selects from, and the position of its node there (-1 when missing)
+ */
+function locate(node: FNode, segment: Segment): { list: FNode[]; position: number } {
+  if (segment.kind === 'attribute') {
+    const list = node.attributes || [];
+    return { list, position: list.findIndex(attr => attr.name === segment.name) };
+  }
+
+  const list = node.children || [];
+  if (segment.kind === 'index' && node.type === FNodeType.COLLECTION) {
+    return { list, position: nthData(list, () => true, segment.index) };
+  }
+
+  const name = segmentName(segment);
+  const occurrence = segment.kind === 'child' ? segment.occurrence : 0;
+  return { list, position: nthData(list, child => child.name === name, occurrence) };
+}
+
+function nthData(list: FNode[], matches: (node: FNode) => boolean, n: number): number {
+  let seen = 0;
+  for (let i = 0; i < list.length; i++) {
+    if (!isDataNode(list[i]) || !matches(list[i])) continue;
+    if (seen++ === n) return i;
+  }
+  return -1;
+}
+
+/**
+ * Rebuild the branch leading to a path; nodes off the branch keep their identity
+ */
+function editPath(node: FNode, segments: Segment[], edit: Edit, create: boolean): FNode {
+  const [segment, ...rest] = segments;
+  const { list, position } = locate(node, segment);
+  const target = position === -1 ? undefined : list[position];
+
+  let next: FNode | undefined;
+  if (rest.length === 0) {
+    next = edit(target, segment);
+  } else {
+    if (segment.kind === 'attribute') {
+      throw new TransformationError(`Path continues below attribute "@${segment.name}"`, { segment: segment.name });
+    }
+    if (!target && !create) return node;
+
+    const container = target ?? createFNode(
+      rest[0].kind === 'index' ? FNodeType.COLLECTION : FNodeType.RECORD,
+      segmentName(segment)
+    );
+    next = editPath(container, rest, edit, create);
+  }
+
+  if (next === target) return node;
+  if (!next) return position === -1 ? node : removeLink(node, segment, position);
+
+  const named = withName(next, segmentName(segment));
+  return position === -1 ? addLink(node, segment, named) : replaceLink(node, segment, position, named);
+}
+
+function replaceLink(node: FNode, segment: Segment, position: number, next: FNode): FNode {
+  const key = segment.kind === 'attribute' ? 'attributes' : 'children';
+  const list = [...node[key]!];
+  list[position] = next;
+  return { ...node, [key]: list };
+}
+
+function removeLink(node: FNode, segment: Segment, position: number): FNode {
+  if (segment.kind === 'attribute') {
+    return { ...node, attributes: node.attributes!.filter((_, index) => index !== position) };
+  }
+  if (node.type === FNodeType.COLLECTION) {
+    return spliceDataChildren(node, node.children!.slice(0, position).filter(isDataNode).length, 1, []);
+  }
+  return { ...node, children: node.children!.filter((_, index) => index !== position) };
+}
+
+function addLink(node: FNode, segment: Segment, next: FNode): FNode {
+  if (segment.kind === 'attribute') {
+    return { ...node, attributes: [...(node.attributes || []), next] };
+  }
+
+  // A missing node can only be appended: the next item, or the next child of its name
+  const siblings = dataChildren(node);
+  const collection = node.type === FNodeType.COLLECTION && segment.kind === 'index';
+  const expected = collection ? siblings.length : siblings.filter(child => child.name === next.name).length;
+  const requested = collection ? segment.index : segment.kind === 'child' ? segment.occurrence : 0;
+
+  if (requested !== expected) {
+    throw new TransformationError(`Cannot create "${next.name}" at position ${requested}; only ${expected} exist`, {
+      name: next.name,
+      position: requested
+    });
+  }
+  return { ...node, children: [...(node.children || []), next] };
+}
+
+function withName(node: FNode, name: string): FNode {
+  return node.name === name ? node : { ...node, name };
+}
+
+/**
+ * Copy of a node with a new value. Typed values carry their tag; a decimal stays a decimal
+ * while it is set to text, any other tag is dropped.
+ */
+function withValue(node: FNode, value: Primitive): FNode {
+  const valueType = node.valueType === 'decimal' && typeof value === 'string' ? 'decimal' : typeTag(value);
+  if (valuesEqual(node.value, value) && node.valueType === valueType) return node;
+
+  const copy = { ...node, value };
+  delete copy.valueType;
+  return valueType === undefined ? copy : { ...copy, valueType };
+}
+
+function typeTag(value: Primitive): ValueType | undefined {
+  return isTypedValue(value) ? inferValueType(value) : undefined;
+}
@@ -1,10 +1,98 @@
 // src/index.ts
 // Core exports
-export { PipeFitter, PipelineHook } from './core/pipefitter.js';
+export {
+  PipeFitter,
+  PipelineHook,
+  ItemOptions,
+  DroppedOutcome,
+  isDropped,
+  SwitchCase,
+  SwitchOptions,
+  BranchResult,
+  ValidateOptions,
+  CoerceOptions,
+  MapFieldsOptions
+} from './core/pipefitter.js';
+export {
+  MergeStrategies,
+  MergeStrategy,
+  MergeOptions,
+  ItemMergeOptions,
+  MergeConflict,
+  ConflictResolution,
+  UpsertOptions
+} from './core/merge-strategies.js';
+export { StreamPipeline } from './core/stream-pipeline.js';
+export {
+  SplitPipeline,
+  Aggregator,
+  splitMessage,
+  SplitOptions,
+  SplitMetadata,
+  AggregateOptions,
+  CompletionReason
+} from './core/split-aggregate.js';
+export {
+  StreamSource,
+  ReadableStreamLike,
+  WritableSink,
+  StreamInputAdapter,
+  StreamOutputAdapter,
+  isStreamInputAdapter,
+  toAsyncIterable
+} from './core/stream.js';
+export {
+  diffNodes,
+  summarizeChanges,
+  toJsonPatch,
+  applyPatch,
+  NodeChange,
+  ChangeKind,
+  NodeProperty,
+  DiffSummary,
+  DiffOptions,
+  JsonPatchOperation
+} from './core/diff.js';
+export { PipelineDefinition, PipelineStep } from './core/pipeline-definition.js';
 
 // Data structures
-export { FNode, Primitive, FNodeType, createFNode, isFNode } from './core/fnode.js';
-export { Message, createMessage, createMessageFromFNode } from './core/message.js';
+export { FNode, Primitive, ValueType, FNodeType, createFNode, isFNode } from './core/fnode.js';
+export {
+  TraversalEdge,
+  TraversalContext,
+  VisitAction,
+  Visitor,
+  TraversalOptions,
+  TransformTreeOptions,
+  TreeTransform,
+  walkDepthFirst,
+  walkBreadthFirst,
+  transformTree
+} from './core/traversal.js';
+export {
+  UpdatePath,
+  Lens,
+  getIn,
+  setIn,
+  updateIn,
+  deleteIn,
+  insertAt,
+  setAttribute,
+  removeAttribute
+} from './core/updates.js';
+export {
+  inferValueType,
+  valueTypeOf,
+  isTypedValue,
+  formatValue,
+  parseValue,
+  valuesEqual,
+  valueKey,
+  encodeBase64,
+  decodeBase64
+} from './core/typed-values.js';
+export { GraphEdge, visitGraph, collectNodes, indexById, sameNode, findCycle } from './core/graph.js';
+export { Message, createMessage, createMessageFromFNode, dropMessage, isMessageDropped } from './core/message.js';
 export { Context, BranchState, createContext } from './core/context.js';
 
 // Infrastructure
@@ -14,7 +102,21 @@ export { ResourceManager, CleanupCallback, ManagedAdapter } from './core/resourc
 
 // Adapters
 export { Adapter, isAdapter } from './core/adapter.js';
-export { JsonAdapter, JsonAdapterOptions } from './adapters/index.js';
+export {
+  JsonAdapter,
+  JsonAdapterOptions,
+  JsonTypedValues,
+  JsonReferences,
+  JsonConversionOptions,
+  CsvAdapter,
+  CsvAdapterOptions,
+  XmlAdapter,
+  XmlAdapterOptions,
+  YamlAdapter,
+  YamlAdapterOptions,
+  NdjsonAdapter,
+  NdjsonAdapterOptions
+} from './adapters/index.js';
 
 // Errors
 export {
@@ -22,12 +124,44 @@ export {
   AdapterError,
   TransformationError,
   FormatError,
-  ConfigurationError
+  ConfigurationError,
+  QueryError,
+  PatchError,
+  ValidationError,
+  GraphError
 } from './core/errors.js';
 
 // Extensions
 export { Extension, ExtensionMethod, ExtensionRegistry } from './core/extensions.js';
 
+// Schema inference
+export {
+  SchemaType,
+  InferredSchema,
+  InferredField,
+  DatasetSchema,
+  InferenceOptions,
+  inferSchema,
+  inferMessageSchema,
+  JsonSchema,
+  JsonSchemaDefinition,
+  JsonSchemaOptions,
+  JSON_SCHEMA_DIALECT,
+  toJsonSchema,
+  resolveSchemaRef,
+  SchemaViolation,
+  ItemValidation,
+  ValidationOptions,
+  validateNode,
+  validateItems,
+  CoercionFailure,
+  CoercionReport,
+  CoercionOptions,
+  DateOrder,
+  coerceNode,
+  coerceItems
+} from './schema/index.js';
+
 // Utilities
 export { 
   TransformFunction, 
@@ -62,7 +196,26 @@ export {
   JSON_SEMANTICS,
   CSV_SEMANTICS,
   XML_SEMANTICS,
+  YAML_SEMANTICS,
   TransformationEngine,
+  createTransformationEngine,
   FormatAwareOperations,
-  FormatAwareQuery
+  FormatAwareQuery,
+  JoinOptions,
+  JoinType,
+  JoinKey,
+  Aggregation,
+  AggregateSpec,
+  ValueReader,
+  Aggregations,
+  FieldSelection,
+  FlattenOptions,
+  FieldMapping,
+  applyFieldMapping,
+  validateFieldMapping,
+  CompiledPath,
+  PathIndexing,
+  compilePath,
+  clearPathCache,
+  selectPath
 } from './semantic/index.js';
\ No newline at end of file
@@ -0,0 +1,83 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { coerceItems, coerceNode } from './coercion.js';
+import { PipeFitter } from '../core/pipefitter.js';
+import { FNode } from '../core/fnode.js';
+import { FormatType } from '../semantic/format-semantics.js';
+import { JsonAdapter } from '../adapters/json-adapter.js';
+import { CsvAdapter } from '../adapters/csv-adapter.js';
+import { load, run } from '../test-helpers.js';
+
+function csv(text: string): FNode {
+  return load(CsvAdapter.string(text)).data;
+}
+
+function json(node: FNode): unknown {
+  return new PipeFitter().from(node).to(JsonAdapter.output());
+}
+
+test('infers numbers, booleans, nulls and dates without a schema', () => {
+  const result = coerceNode(csv('n,flag,code,empty,day\n42,TRUE,007,,2024-03-04\n'));
+
+  assert.deepEqual(json(result.node), [{ n: 42, flag: true, code: '007', empty: null, day: '2024-03-04' }]);
+  assert.equal(result.converted, 3);
+  assert.deepEqual(result.failures, []);
+});
+
+test('follows a schema and lists the values that do not fit', () => {
+  const rows = csv('id,zip,when\n1,0150,2024-01-02 10:30\nx,0151,soon\n');
+  const result = coerceItems(rows, rows.children!, {
+    schema: {
+      type: 'object',
+      properties: {
+        id: { type: 'integer' },
+        zip: { type: 'string' },
+        when: { type: 'string', format: 'date-time' }
+      }
+    }
+  });
+
+  assert.deepEqual(json({ ...rows, children: result.items }), [
+    { id: 1, zip: '0150', when: '2024-01-02T10:30:00' },
+    { id: 'x', zip: '0151', when: 'soon' }
+  ]);
+  assert.deepEqual(result.failures, [
+    { path: 'root/row[1]/id', value: 'x', expected: 'integer' },
+    { path: 'root/row[1]/when', value: 'soon', expected: 'string (date-time)' }
+  ]);
+});
+
+test('reads locale numbers and dates', () => {
+  const result = coerceNode(csv('amount,day\n"1.234,5",03.04.2024\n'), { locale: 'de-DE' });
+
+  assert.deepEqual(json(result.node), [{ amount: 1234.5, day: '2024-04-03' }]);
+});
+
+test('custom null and boolean spellings override the defaults', () => {
+  const result = coerceNode(csv('a,b,c\nyes,no,N/A\n'), { trueValues: ['yes'], falseValues: ['no'], nullValues: ['N/A'] });
+
+  assert.deepEqual(json(result.node), [{ a: true, b: false, c: null }]);
+});
+
+test('the coerce step records its report in metadata.coercion', () => {
+  const message = run(new PipeFitter({ defaultFormat: FormatType.CSV })
+    .from(CsvAdapter.string('n\n1\nx\n'))
+    .coerce({ items: true, schema: { type: 'object', properties: { n: { type: 'number' } } } }));
+
+  assert.equal(message.metadata.coercion.converted, 1);
+  assert.deepEqual(message.metadata.coercion.failures, [{ path: 'root/row[1]/n', value: 'x', expected: 'number' }]);
+});
+
+test('a single object is coerced as one item and keeps its fields', () => {
+  const single = new PipeFitter()
+    .from(JsonAdapter.string('{"n":"1","addr":{"zip":"2"}}'))
+    .coerce({ items: true })
+    .to(JsonAdapter.output());
+  const list = new PipeFitter()
+    .from(JsonAdapter.string('["1",{"n":"2"}]'))
+    .coerce({ items: true })
+    .to(JsonAdapter.output());
+
+  assert.deepEqual(single, { n: 1, addr: { zip: 2 } });
+  assert.deepEqual(list, ['1', { n: 2 }]);
+});
@@ -0,0 +1,441 @@
+import { FNode, Primitive, dataChildren } from '../core/fnode.js';
+import { ConfigurationError } from '../core/errors.js';
+import { JsonSchemaDefinition, resolveSchemaRef } from './json-schema.js';
+import { shapeOf, pathSegments } from './shape.js';
+
+/**
+ * A value that could not be converted to the type its schema expects
+ */
+export interface CoercionFailure {
+  /** Slash-separated FNode location, as in schema violations */
+  path: string;
+
+  value: string;
+
+  /** Expected type, e.g. "integer" or "string (date)" */
+  expected: string;
+}
+
+/**
+ * Outcome of a coercion, recorded in metadata.coercion
+ */
+export interface CoercionReport {
+  /** Number of values that changed */
+  converted: number;
+
+  failures: CoercionFailure[];
+}
+
+/**
+ * Order of day, month and year in locale dates such as 03/04/2024
+ */
+export type DateOrder = 'DMY' | 'MDY' | 'YMD';
+
+/**
+ * Coercion options
+ */
+export interface CoercionOptions {
+  /**
+   * Target types (type, format: date / date-time, enum, const). Without a schema every
+   * string is converted by inference rules; with one, only the values it describes are.
+   */
+  schema?: JsonSchemaDefinition;
+
+  /** BCP 47 locale supplying the decimal and group separators and the date order */
+  locale?: string;
+
+  /** Decimal separator (default '.', or the locale's) */
+  decimalSeparator?: string;
+
+  /** Thousands separator (default none, or the locale's) */
+  groupSeparator?: string;
+
+  /** Order of locale dates (default 'YMD', or the locale's); ISO dates are always understood */
+  dateOrder?: DateOrder;
+
+  /** Strings read as null (default ['']) */
+  nullValues?: string[];
+
+  /** Strings read as true, case-insensitively (default ['true']) */
+  trueValues?: string[];
+
+  /** Strings read as false, case-insensitively (default ['false']) */
+  falseValues?: string[];
+
+  /** Convert recognized dates to ISO strings when inferring (default true) */
+  dates?: boolean;
+}
+
+interface Targets {
+  types: Set<string>;
+  format?: string;
+}
+
+interface ParsedDate {
+  date: string;
+  time?: string;
+  zone?: string;
+}
+
+const ISO_DATE = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/i;
+const DAY_FIRST_DATE = /^(\d{1,2})[./-](\d{1,2})[./-](\d{4})(?:[ T](\d{1,2}):(\d{2})(?::(\d{2}))?)?$/;
+const YEAR_FIRST_DATE = /^(\d{4})[./](\d{1,2})[./](\d{1,2})(?:[ T](\d{1,2}):(\d{2})(?::(\d{2}))?)?$/;
+
+/**
+ * Convert the string values of a node to numbers, booleans, nulls and ISO dates
+ */
+export function coerceNode(
+  node: FNode,
+  options: CoercionOptions = {},
+  path: string = node.name
+): { node: FNode } & CoercionReport {
+  const coercer = new ValueCoercer(options);
+  const result = coercer.coerce(node, options.schema, path);
+  return { node: result, ...coercer.report() };
+}
+
+/**
+ * Convert each item located by findItems; item paths are rooted at the container, which
+ * may be its own single item
+ */
+export function coerceItems(
+  container: FNode,
+  items: FNode[],
+  options: CoercionOptions = {}
+): { items: FNode[] } & CoercionReport {
+  const coercer = new ValueCoercer(options);
+  const segments = pathSegments(items);
+  const result = items.map((item, index) => coercer.coerce(
+    item,
+    options.schema,
+    item === container ? container.name : `${container.name}/${segments[index]}`
+  ));
+  return { items: result, ...coercer.report() };
+}
+
+class ValueCoercer {
+  private converted = 0;
+  private readonly failures: CoercionFailure[] = [];
+
+  private readonly decimal: string;
+  private readonly group?: string;
+  private readonly dateOrder: DateOrder;
+  private readonly nullValues: Set<string>;
+  private readonly trueValues: Set<string>;
+  private readonly falseValues: Set<string>;
+  private readonly numberPattern: RegExp;
+  private readonly groupPattern?: RegExp;
+
+  constructor(private readonly options: CoercionOptions) {
+    const conventions = options.locale ? localeConventions(options.locale) : undefined;
+    this.decimal = options.decimalSeparator ?? conventions?.decimal ?? '.';
+    this.group = options.groupSeparator ?? conventions?.group;
+    this.dateOrder = options.dateOrder ?? conventions?.dateOrder ?? 'YMD';
+    this.nullValues = new Set(options.nullValues ?? ['']);
+    this.trueValues = new Set((options.trueValues ?? ['true']).map(value => value.toLowerCase()));
+    this.falseValues = new Set((options.falseValues ?? ['false']).map(value => value.toLowerCase()));
+
+    // Grouped digits must come in threes; a whitespace separator also matches other spaces
+    const decimal = escapePattern(this.decimal);
+    const group = this.group === undefined ? undefined : /\s/.test(this.group) ? '[ \\u00a0\\u202f]' : escapePattern(this.group);
+    const integer = group ? `(\\d{1,3}(${group}\\d{3})+|\\d+)` : '\\d+';
+    if (group) this.groupPattern = new RegExp(group, 'g');
+    this.numberPattern = new RegExp(`^[+-]?${integer}(${decimal}\\d+)?([eE][+-]?\\d+)?$`);
+  }
+
+  report(): CoercionReport {
+    return { converted: this.converted, failures: this.failures };
+  }
+
+  coerce(node: FNode, schema: JsonSchemaDefinition | undefined, path: string): FNode {
+    switch (shapeOf(node)) {
+      case 'array': {
+        const elements = dataChildren(node);
+        const segments = pathSegments(elements);
+        return {
+          ...node,
+          children: node.children?.map(child => {
+            const position = elements.indexOf(child);
+            return position < 0 ? child : this.coerce(child, this.element(schema, position), `${path}/${segments[position]}`);
+          })
+        };
+      }
+      case 'object':
+        return this.coerceObject(node, schema, path);
+      case 'value':
+        return this.coerceLeaf(node, schema, path);
+    }
+  }
+
+  private coerceObject(node: FNode, schema: JsonSchemaDefinition | undefined, path: string): FNode {
+    const result: FNode = { ...node };
+
+    if (node.attributes) {
+      result.attributes = node.attributes.map(attribute =>
+        this.coerceLeaf(attribute, this.property(schema, `@${attribute.name}`), `${path}/@${attribute.name}`)
+      );
+    }
+    if (typeof node.value === 'string') {
+      result.value = this.coerceValue(node.value, this.property(schema, '#text'), `${path}/#text`);
+    }
+
+    if (node.children) {
+      const children = dataChildren(node);
+      const segments = pathSegments(children);
+      const occurrences = new Map<string, number>();
+
+      result.children = node.children.map(child => {
+        const position = children.indexOf(child);
+        if (position < 0) return child;
+
+        const occurrence = occurrences.get(child.name) ?? 0;
+        occurrences.set(child.name, occurrence + 1);
+
+        // Repeated (or single) sibling elements described by an array schema take its items
+        let childSchema = this.property(schema, child.name);
+        if (shapeOf(child) !== 'array' && this.isArraySchema(childSchema)) {
+          childSchema = this.element(childSchema, occurrence);
+        }
+        return this.coerce(child, childSchema, `${path}/${segments[position]}`);
+      });
+    }
+
+    return result;
+  }
+
+  private coerceLeaf(node: FNode, schema: JsonSchemaDefinition | undefined, path: string): FNode {
+    if (typeof node.value !== 'string') return node;
+
+    const value = this.coerceValue(node.value, schema, path);
+    return value === node.value ? node : { ...node, value };
+  }
+
+  private coerceValue(value: string, schema: JsonSchemaDefinition | undefined, path: string): Primitive {
+    if (this.options.schema === undefined) return this.track(value, this.infer(value));
+    if (schema === undefined) return value;
+
+    const { types, format } = this.targets(schema);
+    const text = value.trim();
+
+    if (types.has('null') && this.nullValues.has(text)) return this.track(value, null);
+
+    if (types.has('number') || types.has('integer')) {
+      const number = this.parseNumber(text);
+      if (number !== undefined && (types.has('number') || Number.isInteger(number))) return this.track(value, number);
+    }
+    if (types.has('boolean')) {
+      const boolean = this.parseBoolean(text);
+      if (boolean !== undefined) return this.track(value, boolean);
+    }
+
+    if (format === 'date' || format === 'date-time') {
+      const date = this.parseDate(text, format);
+      if (date !== undefined) return this.track(value, date);
+    } else if (types.has('string') || types.size === 0) {
+      return value;
+    }
+
+    const expected = [...types].join(' or ') || 'string';
+    this.failures.push({ path, value, expected: format ? `${expected} (${format})` : expected });
+    return value;
+  }
+
+  /**
+   * Inference rules: null tokens, booleans, numbers (except zero-padded codes) and dates
+   */
+  private infer(value: string): Primitive {
+    const text = value.trim();
+    if (this.nullValues.has(text)) return null;
+
+    const boolean = this.parseBoolean(text);
+    if (boolean !== undefined) return boolean;
+
+    if (!/^[+-]?0\d/.test(text)) {
+      const number = this.parseNumber(text);
+      if (number !== undefined) return number;
+    }
+
+    if (this.options.dates ?? true) {
+      const date = this.parseDate(text);
+      if (date !== undefined) return date;
+    }
+    return value;
+  }
+
+  private track(original: string, value: Primitive): Primitive {
+    if (value !== original) this.converted++;
+    return value;
+  }
+
+  private parseNumber(text: string): number | undefined {
+    if (!this.numberPattern.test(text)) return undefined;
+
+    const digits = this.groupPattern ? text.replace(this.groupPattern, '') : text;
+    const number = Number(digits.replace(this.decimal, '.'));
+    return Number.isFinite(number) ? number : undefined;
+  }
+
+  private parseBoolean(text: string): boolean | undefined {
+    const lower = text.toLowerCase();
+    if (this.trueValues.has(lower)) return true;
+    if (this.falseValues.has(lower)) return false;
+    return undefined;
+  }
+
+  /**
+   * ISO or locale date as an ISO string: YYYY-MM-DD, or a date-time (UTC when a zone is given)
+   */
+  private parseDate(text: string, format?: string): string | undefined {
+    const parsed = this.readDate(text);
+    if (!parsed) return undefined;
+
+    if (!parsed.time) return format === 'date-time' ? `${parsed.date}T00:00:00` : parsed.date;
+    if (format === 'date') return undefined;
+
+    if (!parsed.zone) return `${parsed.date}T${parsed.time}`;
+    const zone = parsed.zone.toUpperCase() === 'Z' ? 'Z' : parsed.zone.replace(/^([+-]\d{2}):?(\d{2})$/, '$1:$2');
+    return new Date(`${parsed.date}T${parsed.time}${zone}`).toISOString();
+  }
+
+  private readDate(text: string): ParsedDate | undefined {
+    let match = ISO_DATE.exec(text);
+    if (match) {
+      const [, year, month, day, hours, minutes, seconds, fraction, zone] = match;
+      return buildDate(year, month, day, hours, minutes, seconds, fraction, zone);
+    }
+
+    if (this.dateOrder === 'YMD') {
+      match = YEAR_FIRST_DATE.exec(text);
+      if (!match) return undefined;
+      const [, year, month, day, hours, minutes, seconds] = match;
+      return buildDate(year, month, day, hours, minutes, seconds);
+    }
+
+    match = DAY_FIRST_DATE.exec(text);
+    if (!match) return undefined;
+    const [, first, second, year, hours, minutes, seconds] = match;
+    return this.dateOrder === 'DMY'
+      ? buildDate(year, second, first, hours, minutes, seconds)
+      : buildDate(year, first, second, hours, minutes, seconds);
+  }
+
+  /**
+   * Types, and the string format, a schema admits across $ref, allOf, anyOf and oneOf
+   */
+  private targets(schema: JsonSchemaDefinition): Targets {
+    const targets: Targets = { types: new Set() };
+
+    for (const candidate of this.candidates(schema)) {
+      if (candidate.type !== undefined) {
+        for (const type of [candidate.type].flat()) targets.types.add(type);
+      }
+      const constants = 'const' in candidate ? [candidate.const] : candidate.enum ?? [];
+      for (const constant of constants) {
+        targets.types.add(constant === null ? 'null' : typeof constant);
+      }
+      if (candidate.format && !targets.format) targets.format = candidate.format;
+    }
+
+    return targets;
+  }
+
+  private property(schema: JsonSchemaDefinition | undefined, name: string): JsonSchemaDefinition | undefined {
+    if (schema === undefined) return undefined;
+
+    const candidates = this.candidates(schema);
+    for (const candidate of candidates) {
+      if (candidate.properties && name in candidate.properties) return candidate.properties[name];
+    }
+    for (const candidate of candidates) {
+      if (candidate.additionalProperties !== undefined) return candidate.additionalProperties;
+    }
+    return undefined;
+  }
+
+  private element(schema: JsonSchemaDefinition | undefined, index: number): JsonSchemaDefinition | undefined {
+    if (schema === undefined) return undefined;
+
+    for (const candidate of this.candidates(schema)) {
+      const element = candidate.prefixItems?.[index] ?? candidate.items;
+      if (element !== undefined) return element;
+    }
+    return undefined;
+  }
+
+  private isArraySchema(schema: JsonSchemaDefinition | undefined): boolean {
+    if (schema === undefined) return false;
+
+    const { types } = this.targets(schema);
+    return types.has('array') && !types.has('object');
+  }
+
+  /**
+   * A schema and the schemas it defers to, with references resolved
+   */
+  private candidates(schema: JsonSchemaDefinition, seen = new Set<JsonSchemaDefinition>()): Exclude<JsonSchemaDefinition, boolean>[] {
+    if (typeof schema === 'boolean' || seen.has(schema)) return [];
+    seen.add(schema);
+
+    const result = [schema];
+    if (schema.$ref !== undefined) {
+      result.push(...this.candidates(resolveSchemaRef(this.options.schema!, schema.$ref), seen));
+    }
+    for (const branch of [...(schema.allOf ?? []), ...(schema.anyOf ?? []), ...(schema.oneOf ?? [])]) {
+      result.push(...this.candidates(branch, seen));
+    }
+    return result;
+  }
+}
+
+function buildDate(
+  year: string,
+  month: string,
+  day: string,
+  hours?: string,
+  minutes?: string,
+  seconds?: string,
+  fraction?: string,
+  zone?: string
+): ParsedDate | undefined {
+  const [y, m, d] = [Number(year), Number(month), Number(day)];
+  const check = new Date(Date.UTC(y, m - 1, d));
+  if (check.getUTCFullYear() !== y || check.getUTCMonth() !== m - 1 || check.getUTCDate() !== d) return undefined;
+
+  const date = `${year}-${pad(m)}-${pad(d)}`;
+  if (hours === undefined) return { date };
+
+  const [h, min, s] = [Number(hours), Number(minutes), Number(seconds ?? 0)];
+  if (h > 23 || min > 59 || s > 59) return undefined;
+  return { date, time: `${pad(h)}:${pad(min)}:${pad(s)}${fraction ?? ''}`, zone };
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+function escapePattern(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Decimal and group separators and date order of a locale, read from Intl
+ */
+function localeConventions(locale: string): { decimal: string; group?: string; dateOrder: DateOrder } {
+  try {
+    const number = new Intl.NumberFormat(locale).formatToParts(12345.6);
+    const date = new Intl.DateTimeFormat(locale, { year: 'numeric', month: '2-digit', day: '2-digit', timeZone: 'UTC' })
+      .formatToParts(new Date(Date.UTC(2000, 0, 2)));
+    const order = date
+      .filter(part => part.type === 'day' || part.type === 'month' || part.type === 'year')
+      .map(part => part.type[0].toUpperCase())
+      .join('');
+
+    return {
+      decimal: number.find(part => part.type === 'decimal')?.value ?? '.',
+      group: number.find(part => part.type === 'group')?.value,
+      dateOrder: order === 'DMY' || order === 'MDY' ? order : 'YMD'
+    };
+  } catch (error) {
+    throw new ConfigurationError(`Unsupported locale "${locale}"`, { locale, error });
+  }
+}
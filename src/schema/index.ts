@@ -0,0 +1,33 @@
+// Schema inference exports
+export {
+  SchemaType,
+  InferredSchema,
+  InferredField,
+  DatasetSchema,
+  InferenceOptions,
+  inferSchema,
+  inferMessageSchema
+} from './inference.js';
+
+// JSON Schema exports
+export {
+  JsonSchema,
+  JsonSchemaDefinition,
+  JsonSchemaOptions,
+  JSON_SCHEMA_DIALECT,
+  toJsonSchema,
+  resolveSchemaRef
+} from './json-schema.js';
+
+// Validation exports
+export { SchemaViolation, ItemValidation, ValidationOptions, validateNode, validateItems } from './validation.js';
+
+// Coercion exports
+export {
+  CoercionFailure,
+  CoercionReport,
+  CoercionOptions,
+  DateOrder,
+  coerceNode,
+  coerceItems
+} from './coercion.js';
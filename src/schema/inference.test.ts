@@ -0,0 +1,90 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { inferMessageSchema } from './inference.js';
+import { resolveSchemaRef, toJsonSchema } from './json-schema.js';
+import { PipeFitter } from '../core/pipefitter.js';
+import { ConfigurationError } from '../core/errors.js';
+import { FormatType } from '../semantic/format-semantics.js';
+import { JsonAdapter } from '../adapters/json-adapter.js';
+import { CsvAdapter } from '../adapters/csv-adapter.js';
+import { XmlAdapter } from '../adapters/xml-adapter.js';
+import { load, run } from '../test-helpers.js';
+
+test('merges item shapes into optional, nullable and enum fields; enums need repeated values', () => {
+  const schema = inferMessageSchema(load(JsonAdapter.string(JSON.stringify([
+    { id: 1, status: 'open', note: null, tags: ['a'] },
+    { id: 2.5, status: 'open', tags: [] },
+    { id: 3, status: 'closed', note: 'x', tags: ['b', 'c'] }
+  ]))), FormatType.JSON);
+
+  assert.equal(schema.itemCount, 3);
+  assert.deepEqual(toJsonSchema(schema.item, { dialect: false }), {
+    type: 'object',
+    properties: {
+      id: { type: 'number', minimum: 1, maximum: 3 },
+      status: { type: 'string', enum: ['closed', 'open'] },
+      note: { type: ['string', 'null'] },
+      tags: { type: 'array', items: { type: 'string' } }
+    },
+    required: ['id', 'status', 'tags']
+  });
+});
+
+test('a single JSON object is inferred as one item; an empty array as none', () => {
+  const single = inferMessageSchema(load(JsonAdapter.string('{"name":"ann","age":31}')), FormatType.JSON);
+  const empty = inferMessageSchema(load(JsonAdapter.string('[]')), FormatType.JSON);
+
+  assert.equal(single.itemCount, 1);
+  assert.deepEqual(Object.keys(single.item.properties!), ['name', 'age']);
+  assert.equal(empty.itemCount, 0);
+  assert.deepEqual(empty.item.types, []);
+});
+
+test('a single object with a nested object is still one item', () => {
+  const schema = inferMessageSchema(load(JsonAdapter.string('{"id":1,"name":"x","addr":{"zip":"1"}}')), FormatType.JSON);
+
+  assert.equal(schema.itemCount, 1);
+  assert.deepEqual(Object.keys(schema.item.properties!), ['id', 'name', 'addr']);
+});
+
+test('parseStrings types CSV text as numbers, booleans and null', () => {
+  const schema = inferMessageSchema(load(CsvAdapter.string('n,flag,day\n1,true,2024-01-02\n,false,2024-02-03\n')), FormatType.CSV, {
+    parseStrings: true,
+    maxEnumValues: 0
+  });
+
+  assert.deepEqual(toJsonSchema(schema.item, { dialect: false }).properties, {
+    n: { type: ['integer', 'null'], minimum: 1, maximum: 1 },
+    flag: { type: 'boolean' },
+    day: { type: 'string', format: 'date' }
+  });
+});
+
+test('XML attributes become @ fields and repeated siblings arrays', () => {
+  const schema = inferMessageSchema(
+    load(XmlAdapter.string('<lib><book id="1"><author>a</author><author>b</author></book><book id="2"><author>c</author></book></lib>')),
+    FormatType.XML
+  );
+
+  assert.equal(schema.itemCount, 2);
+  assert.deepEqual(Object.keys(schema.item.properties!), ['@id', 'author']);
+  assert.deepEqual(schema.item.properties!.author.types, ['array', 'string']);
+});
+
+test('the inferSchema step records the schema and its JSON Schema export', () => {
+  const message = run(new PipeFitter()
+    .from(JsonAdapter.string('[{"a":1}]'))
+    .inferSchema({ title: 'Row' }));
+
+  assert.equal(message.metadata.schema.jsonSchema.title, 'Row');
+  assert.equal(message.metadata.schema.jsonSchema.$schema, 'https://json-schema.org/draft/2020-12/schema');
+});
+
+test('resolves local schema references', () => {
+  const root = { $defs: { 'a/b': { type: 'string' } } };
+
+  assert.deepEqual(resolveSchemaRef(root, '#/$defs/a~1b'), { type: 'string' });
+  assert.equal(resolveSchemaRef(root, '#'), root);
+  assert.throws(() => resolveSchemaRef(root, '#/$defs/missing'), ConfigurationError);
+  assert.throws(() => resolveSchemaRef(root, 'other.json#/x'), ConfigurationError);
+});
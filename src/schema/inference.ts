@@ -0,0 +1,249 @@
+import { FNode, Primitive, ValueType, dataChildren, objectFields } from '../core/fnode.js';
+import { valueTypeOf } from '../core/typed-values.js';
+import { Message } from '../core/message.js';
+import { FormatError } from '../core/errors.js';
+import { FormatType, itemsOf } from '../semantic/format-semantics.js';
+import { STRING_FORMATS, shapeOf } from './shape.js';
+
+/**
+ * Value types distinguished by inference
+ */
+export type SchemaType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+
+/**
+ * Shape inferred for a set of values
+ */
+export interface InferredSchema {
+  /** Non-null types observed; 'integer' is dropped when non-integral numbers were also seen */
+  types: SchemaType[];
+
+  /** Whether null (or an empty leaf) was observed */
+  nullable: boolean;
+
+  /** Number of values observed */
+  samples: number;
+
+  /** Fields of objects, by name; attributes are named `@name` */
+  properties?: Record<string, InferredField>;
+
+  /** Merged shape of array elements */
+  items?: InferredSchema;
+
+  /** Distinct string values, when few enough to look like an enumeration */
+  enum?: string[];
+
+  minimum?: number;
+  maximum?: number;
+
+  /** String format shared by every string value: date, date-time, email, uri, or byte (base64) */
+  format?: string;
+}
+
+/**
+ * Shape of an object field
+ */
+export interface InferredField extends InferredSchema {
+  /** Whether the field was missing from some objects */
+  optional: boolean;
+}
+
+/**
+ * Inferred schema of a dataset, recorded in metadata.schema
+ */
+export interface DatasetSchema {
+  format: FormatType;
+
+  /** Number of items the schema was merged from */
+  itemCount: number;
+
+  /** Shape of one item */
+  item: InferredSchema;
+}
+
+/**
+ * Inference options
+ */
+export interface InferenceOptions {
+  /**
+   * Type numeric and boolean strings (as CSV and XML carry them) as numbers and booleans,
+   * and empty strings as null (default false)
+   */
+  parseStrings?: boolean;
+
+  /** Most distinct string values reported as an enum candidate (default 10; 0 disables enums) */
+  maxEnumValues?: number;
+}
+
+const TYPE_ORDER: SchemaType[] = ['object', 'array', 'string', 'number', 'integer', 'boolean'];
+
+/**
+ * Collects observations of one position in the data
+ */
+class ShapeAccumulator {
+  private samples = 0;
+  private nulls = 0;
+  private readonly types = new Set<SchemaType>();
+
+  private objects = 0;
+  private readonly properties = new Map<string, { shape: ShapeAccumulator; present: number }>();
+  private items?: ShapeAccumulator;
+
+  private strings = 0;
+  private distinct: Set<string> | null = new Set();
+  private formats = new Set<string | undefined>();
+  private minimum?: number;
+  private maximum?: number;
+
+  constructor(private readonly options: Required<InferenceOptions>) {}
+
+  addNode(node: FNode): void {
+    switch (shapeOf(node)) {
+      case 'array':
+        this.addArray(dataChildren(node));
+        break;
+      case 'object':
+        this.addObject(node);
+        break;
+      case 'value':
+        this.addValue(node.value, valueTypeOf(node));
+        break;
+    }
+  }
+
+  result(): InferredSchema {
+    const types = TYPE_ORDER.filter(type => this.types.has(type) && !(type === 'integer' && this.types.has('number')));
+    const schema: InferredSchema = { types, nullable: this.nulls > 0, samples: this.samples };
+
+    if (this.types.has('object')) {
+      schema.properties = {};
+      for (const [name, { shape, present }] of this.properties) {
+        schema.properties[name] = { ...shape.result(), optional: present < this.objects };
+      }
+    }
+    if (this.items) schema.items = this.items.result();
+
+    if (this.distinct && this.distinct.size > 0 && this.distinct.size <= this.options.maxEnumValues && this.strings > this.distinct.size) {
+      schema.enum = [...this.distinct].sort();
+    }
+    if (this.minimum !== undefined) {
+      schema.minimum = this.minimum;
+      schema.maximum = this.maximum;
+    }
+    if (this.formats.size === 1) {
+      const [format] = this.formats;
+      if (format) schema.format = format;
+    }
+
+    return schema;
+  }
+
+  private addArray(elements: FNode[]): void {
+    this.samples++;
+    this.types.add('array');
+    this.items ??= new ShapeAccumulator(this.options);
+    for (const element of elements) {
+      this.items.addNode(element);
+    }
+  }
+
+  private addObject(node: FNode): void {
+    this.samples++;
+    this.types.add('object');
+    this.objects++;
+
+    // Repeated names (XML siblings) form an array field
+    for (const { name, nodes } of objectFields(node)) {
+      const shape = this.property(name);
+      if (nodes.length > 1) {
+        shape.addArray(nodes);
+      } else {
+        shape.addNode(nodes[0]);
+      }
+    }
+  }
+
+  private property(name: string): ShapeAccumulator {
+    let entry = this.properties.get(name);
+    if (!entry) {
+      entry = { shape: new ShapeAccumulator(this.options), present: 0 };
+      this.properties.set(name, entry);
+    }
+    entry.present++;
+    return entry.shape;
+  }
+
+  private addValue(value: Primitive | undefined, valueType: ValueType): void {
+    this.samples++;
+
+    if (value === null || value === undefined || (this.options.parseStrings && value === '')) {
+      this.nulls++;
+    } else if (value instanceof Date || value instanceof Uint8Array) {
+      // Timestamps and bytes travel as ISO and base64 strings
+      this.types.add('string');
+      this.formats.add(valueType === 'bytes' ? 'byte' : 'date-time');
+    } else if (typeof value === 'bigint' || valueType === 'decimal') {
+      this.addNumber(Number(value));
+      if (valueType === 'decimal') this.types.add('number');
+    } else if (typeof value === 'boolean') {
+      this.types.add('boolean');
+    } else if (typeof value === 'number') {
+      this.addNumber(value);
+    } else if (this.options.parseStrings && /^(true|false)$/i.test(value.trim())) {
+      this.types.add('boolean');
+    } else if (this.options.parseStrings && value.trim() !== '' && !isNaN(Number(value))) {
+      this.addNumber(Number(value));
+    } else {
+      this.addString(value);
+    }
+  }
+
+  private addNumber(value: number): void {
+    this.types.add(Number.isInteger(value) ? 'integer' : 'number');
+    this.minimum = this.minimum === undefined ? value : Math.min(this.minimum, value);
+    this.maximum = this.maximum === undefined ? value : Math.max(this.maximum, value);
+  }
+
+  private addString(value: string): void {
+    this.types.add('string');
+    this.strings++;
+    this.formats.add(STRING_FORMATS.find(([, pattern]) => pattern.test(value))?.[0]);
+
+    if (this.distinct) {
+      this.distinct.add(value);
+      if (this.distinct.size > this.options.maxEnumValues) this.distinct = null;
+    }
+  }
+}
+
+/**
+ * Infer the merged shape of a set of items
+ */
+export function inferSchema(items: FNode[], options: InferenceOptions = {}): InferredSchema {
+  const shape = new ShapeAccumulator({
+    parseStrings: options.parseStrings ?? false,
+    maxEnumValues: options.maxEnumValues ?? 10
+  });
+
+  for (const item of items) {
+    shape.addNode(item);
+  }
+  return shape.result();
+}
+
+/**
+ * Infer the schema of the message's items (see itemsOf): a single object is inferred
+ * as one item, an empty collection gives no items.
+ */
+export function inferMessageSchema(message: Message, format: FormatType, options: InferenceOptions = {}): DatasetSchema {
+  const engine = message.context.engine;
+  if (!engine) {
+    throw new FormatError('Schema inference requires format semantics on the message context', { format });
+  }
+
+  const items = itemsOf(message.data, engine.getSemantics(format));
+  return {
+    format,
+    itemCount: items.length,
+    item: inferSchema(items, options)
+  };
+}
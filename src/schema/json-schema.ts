@@ -0,0 +1,127 @@
+import { ConfigurationError } from '../core/errors.js';
+import { InferredSchema } from './inference.js';
+
+/**
+ * JSON Schema (draft 2020-12) keywords understood by validation; toJsonSchema
+ * produces a subset of them
+ */
+export interface JsonSchema {
+  $schema?: string;
+  $ref?: string;
+  $defs?: Record<string, JsonSchemaDefinition>;
+  definitions?: Record<string, JsonSchemaDefinition>;
+  title?: string;
+  description?: string;
+
+  type?: string | string[];
+  enum?: unknown[];
+  const?: unknown;
+
+  properties?: Record<string, JsonSchemaDefinition>;
+  required?: string[];
+  additionalProperties?: JsonSchemaDefinition;
+  minProperties?: number;
+  maxProperties?: number;
+
+  items?: JsonSchemaDefinition;
+  prefixItems?: JsonSchemaDefinition[];
+  minItems?: number;
+  maxItems?: number;
+  uniqueItems?: boolean;
+
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  format?: string;
+
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  multipleOf?: number;
+
+  allOf?: JsonSchemaDefinition[];
+  anyOf?: JsonSchemaDefinition[];
+  oneOf?: JsonSchemaDefinition[];
+  not?: JsonSchemaDefinition;
+}
+
+/**
+ * A schema, or `true` / `false` to accept or reject everything
+ */
+export type JsonSchemaDefinition = JsonSchema | boolean;
+
+/**
+ * Resolve a local reference ("#", "#/$defs/name", "#/definitions/name", ...) against the root schema
+ */
+export function resolveSchemaRef(root: JsonSchemaDefinition, ref: string): JsonSchemaDefinition {
+  if (!ref.startsWith('#')) {
+    throw new ConfigurationError(`Only local schema references are supported: "${ref}"`, { ref });
+  }
+
+  let target: unknown = root;
+  for (const segment of ref.substring(1).split('/').filter(segment => segment !== '')) {
+    const key = decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~');
+    target = target !== null && typeof target === 'object' ? (target as Record<string, unknown>)[key] : undefined;
+    if (target === undefined) {
+      throw new ConfigurationError(`Unresolvable schema reference "${ref}"`, { ref });
+    }
+  }
+  return target as JsonSchemaDefinition;
+}
+
+/**
+ * Options for toJsonSchema
+ */
+export interface JsonSchemaOptions {
+  title?: string;
+
+  /** Include the $schema dialect URI (default true) */
+  dialect?: boolean;
+}
+
+export const JSON_SCHEMA_DIALECT = 'https://json-schema.org/draft/2020-12/schema';
+
+/**
+ * Export an inferred schema as JSON Schema. Fields missing from some items are left
+ * out of `required`; nullable values accept null.
+ */
+export function toJsonSchema(schema: InferredSchema, options: JsonSchemaOptions = {}): JsonSchema {
+  const result: JsonSchema = {};
+  if (options.dialect ?? true) result.$schema = JSON_SCHEMA_DIALECT;
+  if (options.title) result.title = options.title;
+
+  return { ...result, ...convert(schema) };
+}
+
+function convert(schema: InferredSchema): JsonSchema {
+  const result: JsonSchema = {};
+
+  const types: string[] = [...schema.types];
+  if (schema.nullable) types.push('null');
+  if (types.length > 0) result.type = types.length === 1 ? types[0] : types;
+
+  if (schema.properties) {
+    result.properties = {};
+    const required: string[] = [];
+    for (const [name, field] of Object.entries(schema.properties)) {
+      result.properties[name] = convert(field);
+      if (!field.optional) required.push(name);
+    }
+    if (required.length > 0) result.required = required;
+  }
+
+  if (schema.items) result.items = convert(schema.items);
+
+  // An enum must still admit the other observed types
+  if (schema.enum && schema.types.length === 1) {
+    result.enum = schema.nullable ? [...schema.enum, null] : [...schema.enum];
+  }
+  if (schema.minimum !== undefined) {
+    result.minimum = schema.minimum;
+    result.maximum = schema.maximum;
+  }
+  if (schema.format) result.format = schema.format;
+
+  return result;
+}
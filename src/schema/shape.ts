@@ -0,0 +1,37 @@
+import { FNode, FNodeType, dataChildren } from '../core/fnode.js';
+
+/**
+ * How a node reads as schema data
+ */
+export type NodeShape = 'array' | 'object' | 'value';
+
+/**
+ * Recognized string formats, in matching order
+ */
+export const STRING_FORMATS: Array<[string, RegExp]> = [
+  ['date-time', /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/],
+  ['date', /^\d{4}-\d{2}-\d{2}$/],
+  ['email', /^[^\s@]+@[^\s@]+\.[^\s@]+$/],
+  ['uri', /^[a-zA-Z][a-zA-Z0-9+.-]*:\/\/\S+$/]
+];
+
+/**
+ * Path segment of each node; repeated names carry an occurrence index, as in `row[2]`
+ */
+export function pathSegments(nodes: FNode[]): string[] {
+  const seen = new Map<string, number>();
+  return nodes.map(node => {
+    const occurrence = seen.get(node.name) ?? 0;
+    seen.set(node.name, occurrence + 1);
+    return occurrence > 0 ? `${node.name}[${occurrence}]` : node.name;
+  });
+}
+
+/**
+ * Collections are arrays; records and nodes with children or attributes are objects
+ */
+export function shapeOf(node: FNode): NodeShape {
+  if (node.type === FNodeType.COLLECTION) return 'array';
+  if (node.type === FNodeType.RECORD || dataChildren(node).length > 0 || node.attributes?.length) return 'object';
+  return 'value';
+}
@@ -0,0 +1,111 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { SchemaViolation, validateItems, validateNode } from './validation.js';
+import { JsonSchema } from './json-schema.js';
+import { PipeFitter, isDropped } from '../core/pipefitter.js';
+import { Message } from '../core/message.js';
+import { ValidationError } from '../core/errors.js';
+import { FormatType } from '../semantic/format-semantics.js';
+import { JsonAdapter } from '../adapters/json-adapter.js';
+import { CsvAdapter } from '../adapters/csv-adapter.js';
+import { XmlAdapter } from '../adapters/xml-adapter.js';
+import { load, run } from '../test-helpers.js';
+
+const user: JsonSchema = {
+  type: 'object',
+  required: ['name', 'age'],
+  properties: {
+    name: { type: 'string', minLength: 1 },
+    age: { type: 'integer', minimum: 0 },
+    email: { type: 'string', format: 'email' }
+  }
+};
+
+test('reports every violation with its path and keyword', () => {
+  const violations = validateNode(load(JsonAdapter.string('{"name":"","age":-1,"email":"nope"}')).data, user);
+
+  assert.deepEqual(violations.map(violation => [violation.path, violation.keyword]), [
+    ['root/name', 'minLength'],
+    ['root/age', 'minimum'],
+    ['root/email', 'format']
+  ]);
+});
+
+test('items are validated separately with paths rooted at the container', () => {
+  const data = load(JsonAdapter.string('[{"name":"ann","age":31},{"name":"bob"}]')).data;
+  const results = validateItems(data, data.children!, user);
+
+  assert.deepEqual(results.map(result => result.violations.map(violation => [violation.path, violation.keyword])), [
+    [],
+    [['root/1/age', 'required']]
+  ]);
+});
+
+test('parseStrings accepts CSV text for numbers', () => {
+  const rows = load(CsvAdapter.string('name,age\nann,31\n')).data;
+  const row = rows.children![0];
+
+  assert.equal(validateNode(row, user).length, 1);
+  assert.deepEqual(validateNode(row, user, { parseStrings: true }), []);
+});
+
+test('siblingArrays accepts a single XML element for an array', () => {
+  const schema: JsonSchema = {
+    type: 'object',
+    properties: { '@id': { type: 'string' }, author: { type: 'array', items: { type: 'string' } } }
+  };
+  const book = load(XmlAdapter.string('<lib><book id="1"><author>a</author></book></lib>')).data.children![0].children![0];
+
+  assert.equal(validateNode(book, schema).length, 1);
+  assert.deepEqual(validateNode(book, schema, { siblingArrays: true }), []);
+});
+
+test('the validate step throws a ValidationError listing the violations', () => {
+  assert.throws(
+    () => new PipeFitter().from(JsonAdapter.string('{"name":"ann"}')).validate(user).to(JsonAdapter.output()),
+    (error: unknown) => error instanceof ValidationError &&
+      /^Validation failed at root\/age: is required$/.test(error.message) &&
+      (error.context as { violations: unknown[] }).violations.length === 1
+  );
+});
+
+test('annotate mode records counts; route mode sends invalid items to their own pipeline', () => {
+  const rows = '[{"name":"ann","age":31},{"name":"bob","age":"x"},{"name":"cy","age":5}]';
+  const annotated = run(new PipeFitter()
+    .from(JsonAdapter.string(rows))
+    .validate(user, { mode: 'annotate', items: true }));
+
+  assert.equal(annotated.metadata.validation.valid, false);
+  assert.deepEqual([annotated.metadata.validation.validCount, annotated.metadata.validation.invalidCount], [2, 1]);
+
+  let rejected: unknown;
+  const valid = new PipeFitter({ defaultFormat: FormatType.JSON })
+    .from(JsonAdapter.string(rows))
+    .validate(user, {
+      mode: 'route',
+      invalid: branch => branch.to({ handle: (message: Message) => (rejected = JsonAdapter.output().handle(message)) })
+    })
+    .to(JsonAdapter.output());
+
+  assert.deepEqual(valid, [{ name: 'ann', age: 31 }, { name: 'cy', age: 5 }]);
+  assert.deepEqual(rejected, [{ name: 'bob', age: 'x' }]);
+});
+
+test('a single object is validated as one item, nested objects included', () => {
+  const single = '{"id":1,"name":"ann","addr":{"zip":"0150"}}';
+  const schema: JsonSchema = { type: 'object', required: ['id', 'name'] };
+
+  const annotated = run(new PipeFitter().from(JsonAdapter.string(single)).validate(schema, { mode: 'annotate', items: true }));
+  assert.deepEqual(annotated.metadata.validation, { valid: true, violations: [], validCount: 1, invalidCount: 0 });
+
+  let rejected: Message | undefined;
+  const valid = new PipeFitter()
+    .from(JsonAdapter.string('{"name":"bob","addr":{"zip":"0150"}}'))
+    .validate(schema, { mode: 'route', invalid: branch => branch.to({ handle: (message: Message) => (rejected = message) }) })
+    .to({ handle: () => assert.fail('a single invalid record must be dropped') });
+
+  assert.ok(isDropped(valid));
+  assert.equal(valid.step, 'validate');
+  assert.deepEqual(JsonAdapter.output().handle(rejected!), { name: 'bob', addr: { zip: '0150' } });
+  assert.deepEqual(rejected!.metadata.validation.violations.map((violation: SchemaViolation) => violation.path), ['root/id']);
+});
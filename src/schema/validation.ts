@@ -0,0 +1,385 @@
+import { FNode, Primitive, dataChildren, objectFields } from '../core/fnode.js';
+import { formatValue, isTypedValue, valueTypeOf } from '../core/typed-values.js';
+import { JsonSchema, JsonSchemaDefinition, resolveSchemaRef } from './json-schema.js';
+import { NodeShape, STRING_FORMATS, shapeOf, pathSegments } from './shape.js';
+
+/**
+ * One failed schema check
+ */
+export interface SchemaViolation {
+  /** Slash-separated FNode location, e.g. "root/users/2/email" or "catalog/book[1]/@id" */
+  path: string;
+
+  /** Schema keyword that failed */
+  keyword: string;
+
+  message: string;
+}
+
+/**
+ * Validation of one item located by findItems
+ */
+export interface ItemValidation {
+  item: FNode;
+  violations: SchemaViolation[];
+}
+
+/**
+ * Validation options
+ */
+export interface ValidationOptions {
+  /**
+   * Accept numeric and boolean strings (as CSV and XML carry them) as numbers and booleans,
+   * and empty strings as null (default false)
+   */
+  parseStrings?: boolean;
+
+  /** Accept a single child element where the schema expects an array of repeated siblings (XML) */
+  siblingArrays?: boolean;
+}
+
+/**
+ * A node as seen by the validator
+ */
+interface Instance {
+  shape: NodeShape;
+  path: string;
+
+  /** Object node */
+  node?: FNode;
+
+  /** Array elements */
+  elements?: Instance[];
+
+  /** Leaf value */
+  value?: Primitive;
+
+  /** A single child element, which may stand for an array of repeated siblings */
+  sibling?: boolean;
+}
+
+const FORMAT_PATTERNS = new Map(STRING_FORMATS);
+
+/**
+ * Check a node against a schema, reporting every violation
+ */
+export function validateNode(
+  node: FNode,
+  schema: JsonSchemaDefinition,
+  options: ValidationOptions = {},
+  path: string = node.name
+): SchemaViolation[] {
+  const violations: SchemaViolation[] = [];
+  new SchemaValidator(schema, options).validate(instanceOf(node, path), schema, violations);
+  return violations;
+}
+
+/**
+ * Check each item against a schema; item paths are rooted at the container, which may
+ * be its own single item
+ */
+export function validateItems(
+  container: FNode,
+  items: FNode[],
+  schema: JsonSchemaDefinition,
+  options: ValidationOptions = {}
+): ItemValidation[] {
+  const validator = new SchemaValidator(schema, options);
+  const segments = pathSegments(items);
+
+  return items.map((item, index) => {
+    const violations: SchemaViolation[] = [];
+    const path = item === container ? container.name : `${container.name}/${segments[index]}`;
+    validator.validate(instanceOf(item, path), schema, violations);
+    return { item, violations };
+  });
+}
+
+function instanceOf(node: FNode, path: string, sibling = false): Instance {
+  const shape = shapeOf(node);
+  switch (shape) {
+    case 'array': {
+      const children = dataChildren(node);
+      const segments = pathSegments(children);
+      return { shape, path, elements: children.map((child, index) => instanceOf(child, `${path}/${segments[index]}`)) };
+    }
+    case 'object':
+      return { shape, path, node, sibling };
+    case 'value':
+      return { shape, path, value: plainValue(node), sibling };
+  }
+}
+
+/**
+ * Typed values validate as their JSON forms: timestamps and bytes as strings, bigints and decimals as numbers
+ */
+function plainValue(node: FNode): Primitive | undefined {
+  const valueType = valueTypeOf(node);
+  if ((valueType === 'bigint' || valueType === 'decimal') && node.value !== null) return Number(node.value);
+  return isTypedValue(node.value) ? formatValue(node.value) : node.value;
+}
+
+/**
+ * Instances of an object's fields; repeated names become arrays of their siblings
+ */
+function fieldsOf(instance: Instance): Map<string, Instance> {
+  const fields = new Map<string, Instance>();
+
+  for (const { name, nodes } of objectFields(instance.node!)) {
+    const path = `${instance.path}/${name}`;
+    if (nodes.length > 1) {
+      fields.set(name, {
+        shape: 'array',
+        path,
+        elements: nodes.map((node, index) => instanceOf(node, index > 0 ? `${path}[${index}]` : path))
+      });
+    } else {
+      fields.set(name, instanceOf(nodes[0], path, !name.startsWith('@') && name !== '#text'));
+    }
+  }
+
+  return fields;
+}
+
+class SchemaValidator {
+  private readonly patterns = new Map<string, RegExp>();
+
+  constructor(
+    private readonly root: JsonSchemaDefinition,
+    private readonly options: ValidationOptions
+  ) {}
+
+  validate(instance: Instance, schema: JsonSchemaDefinition, violations: SchemaViolation[]): void {
+    if (schema === true) return;
+    if (schema === false) {
+      violations.push({ path: instance.path, keyword: 'false', message: 'no value is allowed here' });
+      return;
+    }
+
+    if (schema.$ref !== undefined) {
+      this.validate(instance, resolveSchemaRef(this.root, schema.$ref), violations);
+    }
+
+    const types = schema.type === undefined ? [] : [schema.type].flat();
+    if (this.options.siblingArrays && instance.sibling && types.includes('array') && !types.some(type => this.hasType(instance, type))) {
+      instance = { shape: 'array', path: instance.path, elements: [{ ...instance, sibling: false }] };
+    }
+
+    if (types.length > 0 && !types.some(type => this.hasType(instance, type))) {
+      violations.push({
+        path: instance.path,
+        keyword: 'type',
+        message: `expected ${types.join(' or ')}, got ${this.describe(instance)}`
+      });
+      return;
+    }
+
+    if (schema.enum && !schema.enum.some(expected => this.equals(instance, expected))) {
+      violations.push({
+        path: instance.path,
+        keyword: 'enum',
+        message: `must be one of ${schema.enum.map(value => JSON.stringify(value)).join(', ')}`
+      });
+    }
+    if ('const' in schema && !this.equals(instance, schema.const)) {
+      violations.push({ path: instance.path, keyword: 'const', message: `must equal ${JSON.stringify(schema.const)}` });
+    }
+
+    switch (instance.shape) {
+      case 'value':
+        this.validateValue(instance, schema, violations);
+        break;
+      case 'object':
+        this.validateObject(instance, schema, violations);
+        break;
+      case 'array':
+        this.validateArray(instance.path, instance.elements!, schema, violations);
+        break;
+    }
+
+    this.validateCombinators(instance, schema, violations);
+  }
+
+  private validateValue(instance: Instance, schema: JsonSchema, violations: SchemaViolation[]): void {
+    const fail = (keyword: string, message: string) => violations.push({ path: instance.path, keyword, message });
+    const value = instance.value;
+
+    const number = this.numberOf(value);
+    if (number !== undefined) {
+      if (schema.minimum !== undefined && number < schema.minimum) fail('minimum', `must be >= ${schema.minimum}`);
+      if (schema.maximum !== undefined && number > schema.maximum) fail('maximum', `must be <= ${schema.maximum}`);
+      if (schema.exclusiveMinimum !== undefined && number <= schema.exclusiveMinimum) {
+        fail('exclusiveMinimum', `must be > ${schema.exclusiveMinimum}`);
+      }
+      if (schema.exclusiveMaximum !== undefined && number >= schema.exclusiveMaximum) {
+        fail('exclusiveMaximum', `must be < ${schema.exclusiveMaximum}`);
+      }
+      if (schema.multipleOf !== undefined && !Number.isInteger(Number((number / schema.multipleOf).toPrecision(12)))) {
+        fail('multipleOf', `must be a multiple of ${schema.multipleOf}`);
+      }
+    }
+
+    // With parseStrings an empty cell reads as null, so string checks only apply when null is not allowed
+    const emptyNull = value === '' && this.options.parseStrings && [schema.type].flat().includes('null');
+    if (typeof value === 'string' && !emptyNull) {
+      const length = [...value].length;
+      if (schema.minLength !== undefined && length < schema.minLength) fail('minLength', `must have at least ${schema.minLength} characters`);
+      if (schema.maxLength !== undefined && length > schema.maxLength) fail('maxLength', `must have at most ${schema.maxLength} characters`);
+      if (schema.pattern !== undefined && !this.pattern(schema.pattern).test(value)) fail('pattern', `must match ${schema.pattern}`);
+
+      const format = schema.format === undefined ? undefined : FORMAT_PATTERNS.get(schema.format);
+      if (format && !format.test(value)) fail('format', `must be a valid ${schema.format}`);
+    }
+  }
+
+  private validateObject(instance: Instance, schema: JsonSchema, violations: SchemaViolation[]): void {
+    const fields = fieldsOf(instance);
+
+    for (const name of schema.required || []) {
+      if (!fields.has(name)) {
+        violations.push({ path: `${instance.path}/${name}`, keyword: 'required', message: 'is required' });
+      }
+    }
+
+    if (schema.minProperties !== undefined && fields.size < schema.minProperties) {
+      violations.push({ path: instance.path, keyword: 'minProperties', message: `must have at least ${schema.minProperties} fields` });
+    }
+    if (schema.maxProperties !== undefined && fields.size > schema.maxProperties) {
+      violations.push({ path: instance.path, keyword: 'maxProperties', message: `must have at most ${schema.maxProperties} fields` });
+    }
+
+    for (const [name, field] of fields) {
+      const property = schema.properties?.[name];
+      if (property !== undefined) {
+        this.validate(field, property, violations);
+      } else if (schema.additionalProperties === false) {
+        violations.push({ path: field.path, keyword: 'additionalProperties', message: 'is not allowed' });
+      } else if (schema.additionalProperties !== undefined) {
+        this.validate(field, schema.additionalProperties, violations);
+      }
+    }
+  }
+
+  private validateArray(path: string, elements: Instance[], schema: JsonSchema, violations: SchemaViolation[]): void {
+    if (schema.minItems !== undefined && elements.length < schema.minItems) {
+      violations.push({ path, keyword: 'minItems', message: `must have at least ${schema.minItems} items` });
+    }
+    if (schema.maxItems !== undefined && elements.length > schema.maxItems) {
+      violations.push({ path, keyword: 'maxItems', message: `must have at most ${schema.maxItems} items` });
+    }
+
+    const prefix = schema.prefixItems || [];
+    elements.forEach((element, index) => {
+      const itemSchema = index < prefix.length ? prefix[index] : schema.items;
+      if (itemSchema !== undefined) this.validate(element, itemSchema, violations);
+    });
+
+    if (schema.uniqueItems) {
+      const seen = new Set<string>();
+      for (const element of elements) {
+        const key = JSON.stringify(this.plain(element));
+        if (seen.has(key)) {
+          violations.push({ path: element.path, keyword: 'uniqueItems', message: 'duplicates an earlier item' });
+        }
+        seen.add(key);
+      }
+    }
+  }
+
+  private validateCombinators(instance: Instance, schema: JsonSchema, violations: SchemaViolation[]): void {
+    for (const subschema of schema.allOf || []) {
+      this.validate(instance, subschema, violations);
+    }
+
+    if (schema.anyOf && !schema.anyOf.some(subschema => this.passes(instance, subschema))) {
+      violations.push({ path: instance.path, keyword: 'anyOf', message: 'must match at least one of the anyOf schemas' });
+    }
+
+    if (schema.oneOf) {
+      const matches = schema.oneOf.filter(subschema => this.passes(instance, subschema)).length;
+      if (matches !== 1) {
+        violations.push({ path: instance.path, keyword: 'oneOf', message: `must match exactly one of the oneOf schemas (matched ${matches})` });
+      }
+    }
+
+    if (schema.not !== undefined && this.passes(instance, schema.not)) {
+      violations.push({ path: instance.path, keyword: 'not', message: 'must not match the "not" schema' });
+    }
+  }
+
+  private passes(instance: Instance, schema: JsonSchemaDefinition): boolean {
+    const violations: SchemaViolation[] = [];
+    this.validate(instance, schema, violations);
+    return violations.length === 0;
+  }
+
+  private hasType(instance: Instance, type: string): boolean {
+    if (type === 'array' || type === 'object') return instance.shape === type;
+    if (instance.shape !== 'value') return false;
+
+    const value = instance.value;
+    switch (type) {
+      case 'null':
+        return value === null || value === undefined || (!!this.options.parseStrings && value === '');
+      case 'boolean':
+        return typeof value === 'boolean' || (!!this.options.parseStrings && typeof value === 'string' && /^(true|false)$/i.test(value.trim()));
+      case 'number':
+        return this.numberOf(value) !== undefined;
+      case 'integer': {
+        const number = this.numberOf(value);
+        return number !== undefined && Number.isInteger(number);
+      }
+      case 'string':
+        return typeof value === 'string';
+      default:
+        return false;
+    }
+  }
+
+  private numberOf(value: Primitive | undefined): number | undefined {
+    if (typeof value === 'number') return value;
+    if (this.options.parseStrings && typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) {
+      return Number(value);
+    }
+    return undefined;
+  }
+
+  private describe(instance: Instance): string {
+    if (instance.shape !== 'value') return instance.shape;
+    const value = instance.value;
+    if (value === null || value === undefined) return 'null';
+    if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+    return typeof value === 'string' ? `string ${JSON.stringify(value)}` : typeof value;
+  }
+
+  private equals(instance: Instance, expected: unknown): boolean {
+    const actual = this.plain(instance);
+    if (this.options.parseStrings && typeof actual === 'string' && expected !== null && typeof expected !== 'object') {
+      return actual === String(expected);
+    }
+    return JSON.stringify(actual) === JSON.stringify(expected);
+  }
+
+  /**
+   * Plain JavaScript reading of an instance, for enum, const and uniqueItems
+   */
+  private plain(instance: Instance): unknown {
+    if (instance.shape === 'value') return instance.value ?? null;
+    if (instance.shape === 'array') return instance.elements!.map(element => this.plain(element));
+
+    const result: Record<string, unknown> = {};
+    for (const [name, field] of fieldsOf(instance)) {
+      result[name] = this.plain(field);
+    }
+    return result;
+  }
+
+  private pattern(source: string): RegExp {
+    let pattern = this.patterns.get(source);
+    if (!pattern) {
+      pattern = new RegExp(source, 'u');
+      this.patterns.set(source, pattern);
+    }
+    return pattern;
+  }
+}
@@ -0,0 +1,79 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Aggregations } from './aggregations.js';
+import { FormatAwareOperations } from './format-aware-operations.js';
+import { createTransformationEngine } from './transformation-engine.js';
+import { FormatType } from './format-semantics.js';
+import { PipeFitter } from '../core/pipefitter.js';
+import { Message } from '../core/message.js';
+import { JsonAdapter } from '../adapters/json-adapter.js';
+import { CsvAdapter } from '../adapters/csv-adapter.js';
+import { load } from '../test-helpers.js';
+
+const operations = new FormatAwareOperations(createTransformationEngine());
+
+const sales = 'region,amount,customer\nnorth,10,a\nsouth,5,b\nnorth,x,a\nnorth,2.5,c\nwest,,d\n';
+
+function loadCsv(csv: string): Message {
+  return load(CsvAdapter.string(csv), { defaultFormat: FormatType.CSV });
+}
+
+test('groups items by field and applies each aggregation', () => {
+  const result = operations.query(loadCsv(sales), FormatType.CSV)
+    .aggregate({
+      groupBy: 'region',
+      aggregations: {
+        orders: Aggregations.count(),
+        revenue: Aggregations.sum('amount'),
+        average: Aggregations.avg('amount'),
+        smallest: Aggregations.min('amount'),
+        largest: Aggregations.max('amount'),
+        customers: Aggregations.distinct('customer')
+      }
+    })
+    .execute();
+
+  assert.equal(
+    CsvAdapter.stringify().handle(result),
+    'region,orders,revenue,average,smallest,largest,customers\r\n' +
+    'north,3,12.5,6.25,2.5,x,2\r\n' +
+    'south,1,5,5,5,5,1\r\n' +
+    'west,1,,,,,1\r\n'
+  );
+});
+
+test('sum and avg give null for a group without numeric values', () => {
+  const result = operations.aggregate(loadCsv('amount\nn/a\n\n'), {
+    aggregations: { total: Aggregations.sum('amount'), mean: Aggregations.avg('amount') }
+  }, FormatType.CSV);
+
+  assert.deepEqual(new PipeFitter().from(result.data).to(JsonAdapter.output()), [{ total: null, mean: null }]);
+});
+
+test('min and max compare numeric strings as numbers', () => {
+  const result = operations.aggregate(loadCsv('n\n9\n10\n'), {
+    aggregations: { low: Aggregations.min('n'), high: Aggregations.max('n') }
+  }, FormatType.CSV);
+
+  assert.deepEqual(new PipeFitter().from(result.data).to(JsonAdapter.output()), [{ low: 9, high: 10 }]);
+});
+
+test('a key function groups JSON items and reduce folds them', () => {
+  const message = load(JsonAdapter.string('[{"n":1},{"n":2},{"n":3},{"n":4}]'));
+
+  const result = operations.aggregate(message, {
+    groupBy: item => Number(item.children![0].value) % 2 === 0 ? 'even' : 'odd',
+    aggregations: {
+      values: Aggregations.reduce<number[]>(
+        (values, item, read) => [...values, Number(read(item, 'n'))],
+        () => [],
+        values => values.join('+')
+      )
+    }
+  }, FormatType.JSON);
+
+  assert.deepEqual(new PipeFitter().from(result.data).to(JsonAdapter.output()), [
+    { key: 'odd', values: '1+3' },
+    { key: 'even', values: '2+4' }
+  ]);
+});
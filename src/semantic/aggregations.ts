@@ -0,0 +1,139 @@
+import { FNode, Primitive } from '../core/fnode.js';
+
+/**
+ * Reads a field from an item through the active format's extractValue
+ */
+export type ValueReader = (item: FNode, field: string) => Primitive | undefined;
+
+/**
+ * An aggregation operator: folds the items of a group into one primitive
+ */
+export interface Aggregation<A = unknown> {
+  initial(): A;
+  add(accumulator: A, item: FNode, read: ValueReader): A;
+  result(accumulator: A): Primitive;
+}
+
+/**
+ * Grouping and aggregation specification
+ */
+export interface AggregateSpec {
+  /** Field name(s) read with extractValue, or a key function; omit for a single group */
+  groupBy?: string | string[] | ((item: FNode) => Primitive);
+
+  /** Output field name → aggregation */
+  aggregations: Record<string, Aggregation>;
+}
+
+/**
+ * Numeric reading of a value; text formats carry numbers as strings
+ */
+function toNumber(value: unknown): number | undefined {
+  if (typeof value === 'number') return isNaN(value) ? undefined : value;
+  if (typeof value === 'bigint') return Number(value);
+  if (typeof value === 'string' && value.trim() !== '') {
+    const number = Number(value);
+    return isNaN(number) ? undefined : number;
+  }
+  return undefined;
+}
+
+/**
+ * Order two values, numerically when both are numeric, by time when both are timestamps
+ */
+function compareValues(a: Primitive, b: Primitive): number {
+  if (a instanceof Date && b instanceof Date) return a.getTime() - b.getTime();
+
+  const x = toNumber(a);
+  const y = toNumber(b);
+  if (x !== undefined && y !== undefined) return x - y;
+  return String(a) < String(b) ? -1 : String(a) > String(b) ? 1 : 0;
+}
+
+function extreme(field: string, sign: 1 | -1): Aggregation<Primitive | undefined> {
+  return {
+    initial: () => undefined,
+    add: (current, item, read) => {
+      const value = read(item, field);
+      if (value === undefined || value === null || value === '') return current;
+      return current === undefined || sign * compareValues(value, current) > 0 ? value : current;
+    },
+    result: current => current === undefined ? null : (toNumber(current) ?? current)
+  };
+}
+
+/**
+ * Built-in aggregation operators
+ * Missing and empty values are ignored; sum and avg also skip non-numeric values and
+ * give null for a group without any.
+ * min and max compare numerically when both values are numeric, as strings otherwise.
+ */
+export class Aggregations {
+  static count(): Aggregation<number> {
+    return {
+      initial: () => 0,
+      add: count => count + 1,
+      result: count => count
+    };
+  }
+
+  static sum(field: string): Aggregation<number | undefined> {
+    return {
+      initial: () => undefined,
+      add: (total, item, read) => {
+        const value = toNumber(read(item, field));
+        return value === undefined ? total : (total ?? 0) + value;
+      },
+      result: total => total ?? null
+    };
+  }
+
+  static avg(field: string): Aggregation<{ total: number; count: number }> {
+    return {
+      initial: () => ({ total: 0, count: 0 }),
+      add: (state, item, read) => {
+        const value = toNumber(read(item, field));
+        return value === undefined ? state : { total: state.total + value, count: state.count + 1 };
+      },
+      result: state => state.count === 0 ? null : state.total / state.count
+    };
+  }
+
+  static min(field: string): Aggregation<Primitive | undefined> {
+    return extreme(field, -1);
+  }
+
+  static max(field: string): Aggregation<Primitive | undefined> {
+    return extreme(field, 1);
+  }
+
+  /**
+   * Number of distinct non-null values of a field
+   */
+  static distinct(field: string): Aggregation<Set<string>> {
+    return {
+      initial: () => new Set<string>(),
+      add: (seen, item, read) => {
+        const value = read(item, field);
+        if (value !== undefined && value !== null) seen.add(String(value));
+        return seen;
+      },
+      result: seen => seen.size
+    };
+  }
+
+  /**
+   * Custom reducer over the items of a group
+   */
+  static reduce<A>(
+    reducer: (accumulator: A, item: FNode, read: ValueReader) => A,
+    initial: A | (() => A),
+    finish: (accumulator: A) => Primitive = accumulator => accumulator as unknown as Primitive
+  ): Aggregation<A> {
+    return {
+      initial: () => typeof initial === 'function' ? (initial as () => A)() : initial,
+      add: reducer,
+      result: finish
+    };
+  }
+}
@@ -0,0 +1,114 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { FieldMapping, applyFieldMapping, validateFieldMapping } from './field-mapping.js';
+import { FormatType } from './format-semantics.js';
+import { FNode } from '../core/fnode.js';
+import { ConfigurationError, TransformationError } from '../core/errors.js';
+import { PipeFitter } from '../core/pipefitter.js';
+import { JsonAdapter } from '../adapters/json-adapter.js';
+import { CsvAdapter } from '../adapters/csv-adapter.js';
+import { XmlAdapter } from '../adapters/xml-adapter.js';
+import { load } from '../test-helpers.js';
+
+function json(text: string): FNode {
+  return load(JsonAdapter.string(text)).data;
+}
+
+function output(node: FNode): unknown {
+  return new PipeFitter().from(node).to(JsonAdapter.output());
+}
+
+test('the sections run in order, each seeing the previous result', () => {
+  const mapping: FieldMapping = {
+    rename: { cust_id: 'customerId' },
+    move: { 'addr.zip': 'postalCode' },
+    defaults: { status: 'active', note: null },
+    compute: { fullName: '{first} {last}', id: '{customerId}' },
+    cast: { age: 'number' },
+    remove: ['first', 'last', 'addr']
+  };
+
+  const item = json('{"cust_id":7,"first":"Ann","last":"Lee","age":"41","addr":{"zip":"0150"}}');
+
+  assert.deepEqual(output(applyFieldMapping(item, mapping)), {
+    customerId: 7,
+    age: 41,
+    postalCode: '0150',
+    status: 'active',
+    note: null,
+    fullName: 'Ann Lee',
+    id: 7
+  });
+});
+
+test('a value that cannot be cast throws a TransformationError', () => {
+  assert.throws(() => applyFieldMapping(json('{"age":"old"}'), { cast: { age: 'number' } }), TransformationError);
+});
+
+test('malformed mappings are rejected before any data is read', () => {
+  const invalid = [
+    { reshape: {} },
+    { rename: { a: '' } },
+    { compute: { a: '{b' } },
+    { cast: { a: 'date' } },
+    { remove: 'a' }
+  ];
+
+  for (const mapping of invalid) {
+    assert.throws(() => validateFieldMapping(mapping as FieldMapping), ConfigurationError);
+  }
+
+  assert.throws(() => new PipeFitter().from(JsonAdapter.string('{}')).mapFields({ rename: { a: '' } }), ConfigurationError);
+  validateFieldMapping({ compute: { a: '{{literal}}' } });
+});
+
+test('maps each CSV row', () => {
+  const result = new PipeFitter()
+    .from(CsvAdapter.string('id,name\n1,ann\n2,bob\n'))
+    .mapFields({ rename: { name: 'who' }, cast: { id: 'number' } }, { format: FormatType.CSV })
+    .to(JsonAdapter.output());
+
+  assert.deepEqual(result, [{ id: 1, who: 'ann' }, { id: 2, who: 'bob' }]);
+});
+
+test('a single JSON object is mapped as one item', () => {
+  const result = new PipeFitter()
+    .from(JsonAdapter.string('{"a":1}'))
+    .mapFields({ rename: { a: 'b' } })
+    .to(JsonAdapter.output());
+
+  assert.deepEqual(result, { b: 1 });
+  assert.deepEqual(new PipeFitter().from(JsonAdapter.string('[]')).mapFields({ defaults: { a: 1 } }).to(JsonAdapter.output()), []);
+});
+
+test('a single object with a nested object keeps its top-level fields', () => {
+  const result = new PipeFitter()
+    .from(JsonAdapter.string('{"cust_id":1,"first":"A","last":"B","age":"30","addr":{"zip":"123"}}'))
+    .mapFields({ rename: { cust_id: 'customerId' }, defaults: { status: 'active' }, compute: { fullName: '{first} {last}' } })
+    .to(JsonAdapter.output());
+
+  assert.deepEqual(result, {
+    customerId: 1,
+    first: 'A',
+    last: 'B',
+    age: '30',
+    addr: { zip: '123' },
+    status: 'active',
+    fullName: 'A B'
+  });
+});
+
+test('values move to and from XML attributes', () => {
+  const book = load(XmlAdapter.string('<book id="1"><title>A</title></book>')).data.children![0];
+
+  const result = applyFieldMapping(book, { move: { title: '@title', id: 'ref' } });
+
+  assert.equal(new PipeFitter().from(result).to(XmlAdapter.stringify()), '<book title="A"><ref>1</ref></book>');
+});
+
+test('moving a field with nested fields to an attribute throws', () => {
+  assert.throws(
+    () => applyFieldMapping(json('{"addr":{"zip":"0150"}}'), { move: { addr: '@addr' } }),
+    (error: unknown) => error instanceof TransformationError && (error.context as { target: string }).target === '@addr'
+  );
+});
@@ -0,0 +1,212 @@
+import { FNode, FNodeType, Primitive, ValueType, createFNode } from '../core/fnode.js';
+import { ConfigurationError, TransformationError } from '../core/errors.js';
+import { formatValue, parseValue } from '../core/typed-values.js';
+import { deleteIn, getIn, setIn } from '../core/updates.js';
+import { fieldSegments, omitFields, renameFields } from './projection.js';
+
+/**
+ * Declarative reshaping of an item, kept to plain JSON so it can live in configuration.
+ * Paths are dot-separated field names; `@name` addresses an attribute, and a plain name
+ * falls back to an attribute of that name (XML elements carry fields as either).
+ *
+ * The sections run in a fixed order, each seeing the result of the previous ones:
+ * rename, move, defaults, compute, cast, remove.
+ */
+export interface FieldMapping {
+  /** Field path → new name; the field keeps its position */
+  rename?: Record<string, string>;
+
+  /** Source path → target path; missing target ancestors are created */
+  move?: Record<string, string>;
+
+  /** Field path → value used when the field is missing or null */
+  defaults?: Record<string, string | number | boolean | null>;
+
+  /**
+   * Field path → template. `{path}` inserts the text of another field ('' when missing),
+   * `{{` and `}}` are literal braces. A template that is a single placeholder copies the
+   * value with its type. Templates may read fields computed before them.
+   */
+  compute?: Record<string, string>;
+
+  /** Field path → type the value is converted to */
+  cast?: Record<string, ValueType>;
+
+  /** Fields to remove */
+  remove?: string[];
+}
+
+const SECTIONS = ['rename', 'move', 'defaults', 'compute', 'cast', 'remove'];
+const CAST_TYPES: ValueType[] = ['string', 'number', 'boolean', 'null', 'timestamp', 'decimal', 'bigint', 'bytes'];
+const TAGGED_TYPES: ValueType[] = ['timestamp', 'decimal', 'bigint', 'bytes'];
+const PLACEHOLDER = /\{\{|\}\}|\{([^{}]*)\}/g;
+
+/**
+ * Check that a mapping loaded from configuration is well formed, so that mistakes surface
+ * before any data is processed
+ */
+export function validateFieldMapping(mapping: FieldMapping): void {
+  if (mapping === null || typeof mapping !== 'object' || Array.isArray(mapping)) {
+    throw new ConfigurationError('Field mapping must be an object', { mapping });
+  }
+
+  for (const key of Object.keys(mapping)) {
+    if (!SECTIONS.includes(key)) {
+      throw new ConfigurationError(`Unknown field mapping section "${key}"`, { section: key, expected: SECTIONS });
+    }
+  }
+
+  for (const section of ['rename', 'move', 'compute'] as const) {
+    for (const [path, target] of entriesOf(mapping, section)) {
+      if (typeof target !== 'string' || target === '') {
+        throw new ConfigurationError(`Field mapping ${section} for "${path}" must be a non-empty string`, { section, path });
+      }
+    }
+  }
+
+  for (const [path, value] of entriesOf(mapping, 'defaults')) {
+    if (value !== null && !['string', 'number', 'boolean'].includes(typeof value)) {
+      throw new ConfigurationError(`Default for "${path}" must be a string, number, boolean or null`, { path });
+    }
+  }
+
+  for (const [path, template] of entriesOf(mapping, 'compute')) {
+    const unmatched = template.replace(PLACEHOLDER, (token, field) => field === '' ? '{' : '');
+    if (/[{}]/.test(unmatched)) {
+      throw new ConfigurationError(`Unbalanced braces in template for "${path}"`, { path, template });
+    }
+  }
+
+  for (const [path, type] of entriesOf(mapping, 'cast')) {
+    if (!CAST_TYPES.includes(type)) {
+      throw new ConfigurationError(`Unknown cast type "${type}" for "${path}"`, { path, type, expected: CAST_TYPES });
+    }
+  }
+
+  if (mapping.remove !== undefined && (!Array.isArray(mapping.remove) || mapping.remove.some(path => typeof path !== 'string'))) {
+    throw new ConfigurationError('Field mapping remove must be an array of paths', { remove: mapping.remove });
+  }
+}
+
+/**
+ * Apply a field mapping to one item
+ */
+export function applyFieldMapping(item: FNode, mapping: FieldMapping): FNode {
+  let result = mapping.rename ? renameFields(item, mapping.rename) : item;
+
+  for (const [source, target] of entriesOf(mapping, 'move')) {
+    const from = resolveField(result, source);
+    if (!from) continue;
+
+    const node = getIn(result, from)!;
+    result = deleteIn(result, from);
+    result = setIn(result, resolveField(result, target) ?? fieldSegments(target), asLink(node, target));
+  }
+
+  for (const [path, value] of entriesOf(mapping, 'defaults')) {
+    const field = resolveField(result, path);
+    const current = field && getIn(result, field);
+    if (current && current.value !== null && (current.value !== undefined || current.children?.length)) continue;
+
+    result = setIn(result, field ?? fieldSegments(path), value);
+  }
+
+  for (const [path, template] of entriesOf(mapping, 'compute')) {
+    result = setIn(result, resolveField(result, path) ?? fieldSegments(path), renderTemplate(result, template));
+  }
+
+  for (const [path, type] of entriesOf(mapping, 'cast')) {
+    const field = resolveField(result, path);
+    const node = field && getIn(result, field);
+    if (!node) continue;
+
+    const cast: FNode = { ...node, value: castValue(node.value, type, path) };
+    delete cast.valueType;
+    if (cast.value !== null && TAGGED_TYPES.includes(type)) cast.valueType = type;
+    result = setIn(result, field, cast);
+  }
+
+  return mapping.remove ? omitFields(result, mapping.remove) : result;
+}
+
+function entriesOf<K extends 'rename' | 'move' | 'defaults' | 'compute' | 'cast'>(
+  mapping: FieldMapping,
+  section: K
+): Array<[string, NonNullable<FieldMapping[K]>[string]]> {
+  return Object.entries(mapping[section] ?? {}) as Array<[string, NonNullable<FieldMapping[K]>[string]]>;
+}
+
+/**
+ * Segments of an existing field, trying an attribute when a plain name has no child
+ */
+function resolveField(item: FNode, path: string): string[] | undefined {
+  const segments = fieldSegments(path);
+  if (getIn(item, segments)) return segments;
+
+  const last = segments[segments.length - 1];
+  if (last === undefined || last.startsWith('@')) return undefined;
+
+  const attribute = [...segments.slice(0, -1), `@${last}`];
+  return getIn(item, attribute) ? attribute : undefined;
+}
+
+/**
+ * A moved node becomes an attribute or a child to match its target
+ */
+function asLink(node: FNode, target: string): FNode {
+  const toAttribute = fieldSegments(target).pop()?.startsWith('@') ?? false;
+  if (toAttribute === (node.type === FNodeType.ATTRIBUTES)) return node;
+
+  if (toAttribute && (node.children?.length || node.attributes?.length)) {
+    throw new TransformationError(`Cannot move "${node.name}" with nested fields to attribute "${target}"`, { target, name: node.name });
+  }
+
+  return createFNode(toAttribute ? FNodeType.ATTRIBUTES : FNodeType.VALUE, node.name, node.value ?? null, node.valueType);
+}
+
+function renderTemplate(item: FNode, template: string): Primitive {
+  const single = /^\{([^{}]+)\}$/.exec(template);
+  if (single) return readValue(item, single[1].trim()) ?? null;
+
+  return template.replace(PLACEHOLDER, (token, path: string | undefined) => {
+    if (path === undefined) return token[0];
+    return formatValue(readValue(item, path.trim()));
+  });
+}
+
+function readValue(item: FNode, path: string): Primitive | undefined {
+  const field = resolveField(item, path);
+  return field && getIn(item, field)!.value;
+}
+
+/**
+ * Convert a value to a type through its text form; null and empty text stay null
+ */
+function castValue(value: Primitive | undefined, type: ValueType, path: string): Primitive {
+  if (type === 'string') return value === null || value === undefined ? null : formatValue(value);
+
+  const text = formatValue(value).trim();
+  if (type === 'null' || text === '') return null;
+
+  const fail = (): never => {
+    throw new TransformationError(`Cannot cast "${text}" at "${path}" to ${type}`, { path, value, type });
+  };
+
+  switch (type) {
+    case 'number': {
+      const number = Number(text);
+      return isNaN(number) ? fail() : number;
+    }
+    case 'boolean':
+      if (/^(true|1)$/i.test(text)) return true;
+      return /^(false|0)$/i.test(text) ? false : fail();
+    case 'decimal':
+      return /^[-+]?(\d+\.?\d*|\.\d+)$/.test(text) ? text : fail();
+    default:
+      try {
+        return parseValue(text, type);
+      } catch {
+        return fail();
+      }
+  }
+}
@@ -0,0 +1,80 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { FormatAwareOperations, JoinOptions } from './format-aware-operations.js';
+import { createTransformationEngine } from './transformation-engine.js';
+import { FormatType } from './format-semantics.js';
+import { PipeFitter } from '../core/pipefitter.js';
+import { Message } from '../core/message.js';
+import { JsonAdapter } from '../adapters/json-adapter.js';
+import { CsvAdapter } from '../adapters/csv-adapter.js';
+import { load } from '../test-helpers.js';
+
+const operations = new FormatAwareOperations(createTransformationEngine());
+
+const people = '[{"id":1,"name":"ann"},{"id":2,"name":"bob"}]';
+const orders = '[{"id":1,"total":10},{"id":3,"total":30}]';
+
+function join(left: string, right: string, options: JoinOptions): unknown {
+  const result = operations.join(load(JsonAdapter.string(left)), load(JsonAdapter.string(right)), options, FormatType.JSON);
+  return new PipeFitter().from(result.data).to(JsonAdapter.output());
+}
+
+test('inner join keeps matched items and emits a shared key once', () => {
+  assert.deepEqual(join(people, orders, { leftKey: 'id' }), [{ id: 1, name: 'ann', total: 10 }]);
+});
+
+test('outer joins pad unmatched items with null fields', () => {
+  assert.deepEqual(join(people, orders, { leftKey: 'id', type: 'left' }), [
+    { id: 1, name: 'ann', total: 10 },
+    { id: 2, name: 'bob', total: null }
+  ]);
+  assert.deepEqual(join(people, orders, { leftKey: 'id', type: 'right' }), [
+    { id: 1, name: 'ann', total: 10 },
+    { id: 3, name: null, total: 30 }
+  ]);
+  assert.deepEqual(join(people, orders, { leftKey: 'id', type: 'full' }), [
+    { id: 1, name: 'ann', total: 10 },
+    { id: 2, name: 'bob', total: null },
+    { id: 3, name: null, total: 30 }
+  ]);
+});
+
+test('conflicting fields are suffixed, picked by side or renamed', () => {
+  const left = '[{"id":1,"name":"ann"}]';
+  const right = '[{"id":1,"name":"Ann"}]';
+
+  assert.deepEqual(join(left, right, { leftKey: 'id' }), [{ id: 1, name_left: 'ann', name_right: 'Ann' }]);
+  assert.deepEqual(join(left, right, { leftKey: 'id', suffixes: ['_a', '_b'] }), [{ id: 1, name_a: 'ann', name_b: 'Ann' }]);
+  assert.deepEqual(join(left, right, { leftKey: 'id', onConflict: 'right' }), [{ id: 1, name: 'Ann' }]);
+  assert.deepEqual(
+    join(left, right, { leftKey: 'id', onConflict: (name, side) => `${side}.${name}` }),
+    [{ id: 1, 'left.name': 'ann', 'right.name': 'Ann' }]
+  );
+});
+
+test('function keys and distinct key names join across formats', () => {
+  const csv = load(CsvAdapter.string('customer,total\n1,10\n2,20\n'));
+  const json = load(JsonAdapter.string(people));
+
+  const result = operations.join(csv, json, {
+    leftKey: item => item.children![0].value,
+    rightKey: 'id',
+    rightFormat: FormatType.JSON
+  }, FormatType.CSV);
+
+  assert.equal(CsvAdapter.stringify().handle(result), 'customer,total,id,name\r\n1,10,1,ann\r\n2,20,2,bob\r\n');
+  assert.deepEqual(result.metadata.join, { type: 'inner', leftCount: 2, rightCount: 2, matched: 2, resultCount: 2 });
+});
+
+test('PipeFitter.join waits for an asynchronous other pipeline', async () => {
+  const other = new PipeFitter().from({
+    handle: (message: Message) => Promise.resolve(JsonAdapter.string(orders).handle(message) as Message)
+  });
+
+  const output = await new PipeFitter()
+    .from(JsonAdapter.string(people))
+    .join(other, { leftKey: 'id', type: 'left', onConflict: 'left' })
+    .to(JsonAdapter.output());
+
+  assert.deepEqual(output, [{ id: 1, name: 'ann', total: 10 }, { id: 2, name: 'bob', total: null }]);
+});
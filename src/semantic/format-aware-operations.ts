@@ -1,7 +1,59 @@
-import { FNode, FNodeType } from '../core/fnode.js';
+import { FNode, FNodeType, Primitive, documentElement, isFormattingWhitespace } from '../core/fnode.js';
 import { Message } from '../core/message.js';
-import { FormatType } from './format-semantics.js';
+import { formatValue, valueKey } from '../core/typed-values.js';
+import { FormatSemantics, FormatType, XML_SEMANTICS } from './format-semantics.js';
 import { TransformationEngine } from './transformation-engine.js';
+import { CompiledPath, selectPath } from './path-query.js';
+import { AggregateSpec } from './aggregations.js';
+import {
+  FieldSelection,
+  FlattenOptions,
+  projectItem,
+  omitFields,
+  renameFields,
+  flattenItem,
+  structuralKey
+} from './projection.js';
+import { FieldMapping, applyFieldMapping, validateFieldMapping } from './field-mapping.js';
+import { QueryStep, optimizePlan, runOperator, describePlan } from './query-plan.js';
+
+/**
+ * Join variants
+ */
+export type JoinType = 'inner' | 'left' | 'right' | 'full';
+
+/**
+ * Key of a join side: a field name resolved through the format's extractValue, or a function
+ */
+export type JoinKey = string | ((item: FNode) => Primitive | undefined);
+
+/**
+ * Options for joining two messages
+ */
+export interface JoinOptions {
+  /** Join variant (default 'inner') */
+  type?: JoinType;
+  
+  /** Key of each left item */
+  leftKey: JoinKey;
+  
+  /** Key of each right item (defaults to leftKey) */
+  rightKey?: JoinKey;
+  
+  /** Format of the right message (defaults to the left format) */
+  rightFormat?: FormatType;
+  
+  /**
+   * How fields present on both sides are named in the merged record
+   * - suffix: keep both, renamed with `suffixes` (default)
+   * - left / right: keep only that side's field
+   * - a function returning the name to use for each side's field
+   */
+  onConflict?: 'suffix' | 'left' | 'right' | ((name: string, side: 'left' | 'right') => string);
+  
+  /** Suffixes for the 'suffix' conflict naming (default ['_left', '_right']) */
+  suffixes?: [string, string];
+}
 
 /**
  * Format-aware functional operations
@@ -94,6 +146,13 @@ export class FormatAwareOperations {
     };
   }
   
+  /**
+   * Semantics the operations use for a format
+   */
+  getSemantics(format: FormatType): FormatSemantics {
+    return this.engine.getSemantics(format);
+  }
+  
   /**
    * Extract value from node in format-aware manner
    */
@@ -110,6 +169,14 @@ export class FormatAwareOperations {
     return semantics.queryStrategy.navigatePath(node, path);
   }
   
+  /**
+   * Select nodes matching a path expression in format-aware manner
+   */
+  selectPath(node: FNode, path: string | CompiledPath, format: FormatType): FNode[] {
+    const semantics = this.engine.getSemantics(format);
+    return selectPath(node, path, semantics);
+  }
+  
   /**
    * Group items by key extractor
    */
@@ -133,6 +200,76 @@ export class FormatAwareOperations {
     return groups;
   }
   
+  /**
+   * Group items and apply aggregation operators per group, producing a COLLECTION
+   * of RECORDs (group key fields followed by one field per aggregation)
+   */
+  aggregate(
+    message: Message,
+    spec: AggregateSpec,
+    format: FormatType
+  ): Message {
+    const semantics = this.engine.getSemantics(format);
+    const items = semantics.queryStrategy.findItems(message.data);
+    const read = (item: FNode, field: string) => semantics.queryStrategy.extractValue(item, field);
+    
+    const keyFields = typeof spec.groupBy === 'string' ? [spec.groupBy] : Array.isArray(spec.groupBy) ? spec.groupBy : [];
+    const keyOf = (item: FNode): Primitive[] => typeof spec.groupBy === 'function'
+      ? [spec.groupBy(item)]
+      : keyFields.map(field => read(item, field) ?? null);
+    
+    const groups = new Map<string, { key: Primitive[]; accumulators: Record<string, unknown> }>();
+    for (const item of items) {
+      const key = keyOf(item);
+      const id = JSON.stringify(key.map(value => valueKey(value)));
+      
+      let group = groups.get(id);
+      if (!group) {
+        group = { key, accumulators: {} };
+        for (const [name, aggregation] of Object.entries(spec.aggregations)) {
+          group.accumulators[name] = aggregation.initial();
+        }
+        groups.set(id, group);
+      }
+      
+      for (const [name, aggregation] of Object.entries(spec.aggregations)) {
+        group.accumulators[name] = aggregation.add(group.accumulators[name], item, read);
+      }
+    }
+    
+    const keyNames = typeof spec.groupBy === 'function' ? ['key'] : keyFields;
+    const records: FNode[] = [...groups.values()].map(group => ({
+      type: FNodeType.RECORD,
+      name: format === FormatType.CSV ? 'row' : 'group',
+      children: [
+        ...keyNames.map((name, index) => ({ type: FNodeType.FIELD, name, value: group.key[index] })),
+        ...Object.entries(spec.aggregations).map(([name, aggregation]) => ({
+          type: FNodeType.FIELD,
+          name,
+          value: aggregation.result(group.accumulators[name])
+        }))
+      ]
+    }));
+    
+    return {
+      ...message,
+      data: {
+        type: FNodeType.COLLECTION,
+        name: 'root',
+        children: records
+      },
+      metadata: {
+        ...message.metadata,
+        processing: {
+          operation: 'aggregate',
+          originalCount: items.length,
+          groupCount: records.length,
+          timestamp: new Date().toISOString()
+        }
+      }
+    };
+  }
+  
   /**
    * Reduce items to single value
    */
@@ -293,6 +430,196 @@ export class FormatAwareOperations {
     };
   }
   
+  /**
+   * Keep only the selected fields of each item; see FieldSelection for paths and aliases
+   */
+  select(
+    message: Message,
+    fields: FieldSelection,
+    format: FormatType
+  ): Message {
+    return this.mapItems(message, format, 'select', item => [projectItem(item, fields)]);
+  }
+  
+  /**
+   * Remove fields (dot-separated paths, `@name` for attributes) from each item
+   */
+  omit(
+    message: Message,
+    fields: string[],
+    format: FormatType
+  ): Message {
+    return this.mapItems(message, format, 'omit', item => [omitFields(item, fields)]);
+  }
+  
+  /**
+   * Rename fields of each item in place; keys are field paths, values the new names
+   */
+  rename(
+    message: Message,
+    renames: Record<string, string>,
+    format: FormatType
+  ): Message {
+    return this.mapItems(message, format, 'rename', item => [renameFields(item, renames)]);
+  }
+  
+  /**
+   * Reshape each item with a declarative field mapping; see FieldMapping for the sections
+   */
+  mapFields(
+    message: Message,
+    mapping: FieldMapping,
+    format: FormatType
+  ): Message {
+    validateFieldMapping(mapping);
+    return this.mapItems(message, format, 'mapFields', item => [applyFieldMapping(item, mapping)]);
+  }
+  
+  /**
+   * Keep the first item for each key (default: the item's structure and values)
+   */
+  distinct(
+    message: Message,
+    format: FormatType,
+    keyExtractor: (item: FNode) => unknown = structuralKey
+  ): Message {
+    const seen = new Set<unknown>();
+    return this.mapItems(message, format, 'distinct', item => {
+      const key = keyExtractor(item);
+      if (seen.has(key)) return [];
+      seen.add(key);
+      return [item];
+    });
+  }
+  
+  /**
+   * Unwind the collection at a path into one item per element.
+   * Formats with sibling indexing (XML) unwind repeated sibling elements instead.
+   */
+  flatten(
+    message: Message,
+    path: string,
+    format: FormatType,
+    options: FlattenOptions = {}
+  ): Message {
+    const siblings = this.engine.getSemantics(format).queryStrategy.indexing === 'siblings';
+    return this.mapItems(message, format, 'flatten', item => flattenItem(item, path, siblings, options));
+  }
+  
+  /**
+   * Replace each item with zero or more items, preserving the container
+   */
+  private mapItems(
+    message: Message,
+    format: FormatType,
+    operation: string,
+    mapper: (item: FNode) => FNode[]
+  ): Message {
+    const semantics = this.engine.getSemantics(format);
+    const items = semantics.queryStrategy.findItems(message.data);
+    const mappedItems = items.flatMap(mapper);
+    
+    return {
+      ...message,
+      data: this.reconstructWithItems(message.data, mappedItems, format),
+      metadata: {
+        ...message.metadata,
+        processing: {
+          operation,
+          originalCount: items.length,
+          itemCount: mappedItems.length,
+          timestamp: new Date().toISOString()
+        }
+      }
+    };
+  }
+  
+  /**
+   * Join the items of two messages by key. Keys are compared as strings, so a CSV
+   * "42" matches a JSON 42. Unmatched items in outer joins are padded with null fields
+   * for the other side. The result keeps the left message's container.
+   */
+  join(
+    left: Message,
+    right: Message,
+    options: JoinOptions,
+    format: FormatType
+  ): Message {
+    const type = options.type ?? 'inner';
+    const rightFormat = options.rightFormat ?? format;
+    const leftItems = this.engine.getSemantics(format).queryStrategy.findItems(left.data);
+    const rightItems = this.engine.getSemantics(rightFormat).queryStrategy.findItems(right.data);
+  
+    const leftKey = this.keyExtractor(options.leftKey, format);
+    const rightKey = this.keyExtractor(options.rightKey ?? options.leftKey, rightFormat);
+  
+    const index = new Map<string, FNode[]>();
+    for (const item of rightItems) {
+      const key = joinKeyString(rightKey(item));
+      if (key === undefined) continue;
+      if (!index.has(key)) index.set(key, []);
+      index.get(key)!.push(item);
+    }
+  
+    const leftPadding = nullRecord(leftItems);
+    const rightPadding = nullRecord(rightItems);
+    const matchedRight = new Set<FNode>();
+    const joined: FNode[] = [];
+    let matched = 0;
+  
+    for (const item of leftItems) {
+      const key = joinKeyString(leftKey(item));
+      const matches = key === undefined ? undefined : index.get(key);
+  
+      if (matches) {
+        matched++;
+        for (const match of matches) {
+          matchedRight.add(match);
+          joined.push(joinRecords(item, match, options));
+        }
+      } else if (type === 'left' || type === 'full') {
+        joined.push(joinRecords(item, rightPadding, options));
+      }
+    }
+  
+    if (type === 'right' || type === 'full') {
+      for (const item of rightItems) {
+        if (!matchedRight.has(item)) {
+          joined.push(joinRecords({ ...leftPadding, name: item.name }, item, options));
+        }
+      }
+    }
+  
+    const result = this.withItems(left, joined, format);
+    return {
+      ...result,
+      metadata: {
+        ...left.metadata,
+        join: {
+          type,
+          leftCount: leftItems.length,
+          rightCount: rightItems.length,
+          matched,
+          resultCount: joined.length
+        }
+      }
+    };
+  }
+  
+  private keyExtractor(key: JoinKey, format: FormatType): (item: FNode) => Primitive | undefined {
+    return typeof key === 'function' ? key : item => this.extractValue(item, key, format);
+  }
+  
+  /**
+   * Replace the items of a message, preserving the surrounding container
+   */
+  withItems(message: Message, items: FNode[], format: FormatType): Message {
+    return {
+      ...message,
+      data: this.reconstructWithItems(message.data, items, format)
+    };
+  }
+  
   /**
    * Reconstruct data structure with new items while preserving format semantics
    */
@@ -313,8 +640,10 @@ export class FormatAwareOperations {
           }))
         };
         
-      case FormatType.JSON:
       case FormatType.XML:
+        return replaceXmlItems(originalData, items);
+        
+      case FormatType.JSON:
       default:
         return {
           ...originalData,
@@ -333,8 +662,14 @@ export class FormatAwareOperations {
 
 /**
  * Query builder for complex format-aware operations
+ * Steps are recorded into a plan and run in a single pass by execute(): adjacent
+ * filters and maps are fused, take/skip stop reading items early, and a take after
+ * a sort keeps only the needed items in a bounded heap. Terminal operations
+ * (map, count, groupBy, selectPath) execute the pending plan first.
  */
 export class FormatAwareQuery {
+  private steps: QueryStep[] = [];
+  
   constructor(
     private message: Message,
     private format: FormatType,
@@ -342,43 +677,238 @@ export class FormatAwareQuery {
   ) {}
   
   filter(predicate: (item: FNode) => boolean): FormatAwareQuery {
-    this.message = this.operations.filter(this.message, predicate, this.format);
-    return this;
+    return this.record({ kind: 'filter', name: 'filter', predicate });
   }
   
   transform(transformer: (item: FNode) => FNode): FormatAwareQuery {
-    this.message = this.operations.transform(this.message, transformer, this.format);
-    return this;
+    return this.record({ kind: 'map', name: 'transform', mapper: item => [transformer(item)] });
   }
   
   sort(comparator: (a: FNode, b: FNode) => number): FormatAwareQuery {
-    this.message = this.operations.sort(this.message, comparator, this.format);
-    return this;
+    return this.record({ kind: 'sort', comparator });
   }
   
   take(count: number): FormatAwareQuery {
-    this.message = this.operations.take(this.message, count, this.format);
-    return this;
+    return this.record({ kind: 'take', count });
   }
   
   skip(count: number): FormatAwareQuery {
-    this.message = this.operations.skip(this.message, count, this.format);
-    return this;
+    return this.record({ kind: 'skip', count });
+  }
+  
+  select(fields: FieldSelection): FormatAwareQuery {
+    return this.record({ kind: 'map', name: 'select', mapper: item => [projectItem(item, fields)] });
+  }
+  
+  omit(fields: string[]): FormatAwareQuery {
+    return this.record({ kind: 'map', name: 'omit', mapper: item => [omitFields(item, fields)] });
+  }
+  
+  rename(renames: Record<string, string>): FormatAwareQuery {
+    return this.record({ kind: 'map', name: 'rename', mapper: item => [renameFields(item, renames)] });
+  }
+  
+  mapFields(mapping: FieldMapping): FormatAwareQuery {
+    validateFieldMapping(mapping);
+    return this.record({ kind: 'map', name: 'mapFields', mapper: item => [applyFieldMapping(item, mapping)] });
+  }
+  
+  distinct(keyExtractor: (item: FNode) => unknown = structuralKey): FormatAwareQuery {
+    const seen = new Set<unknown>();
+    return this.record({
+      kind: 'filter',
+      name: 'distinct',
+      predicate: item => {
+        const key = keyExtractor(item);
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      }
+    });
+  }
+  
+  flatten(path: string, options?: FlattenOptions): FormatAwareQuery {
+    const siblings = this.operations.getSemantics(this.format).queryStrategy.indexing === 'siblings';
+    return this.record({ kind: 'map', name: 'flatten', mapper: item => flattenItem(item, path, siblings, options) });
+  }
+  
+  /**
+   * Replace the items with one aggregated RECORD per group
+   */
+  aggregate(spec: AggregateSpec): FormatAwareQuery {
+    return this.record({ kind: 'aggregate', spec });
+  }
+  
+  /**
+   * Describe the plan execute() will run for the pending steps
+   */
+  explain(): string {
+    return describePlan(optimizePlan(this.steps), this.format);
   }
   
+  /**
+   * Run the pending plan and return the resulting message
+   */
   execute(): Message {
+    if (this.steps.length === 0) return this.message;
+    
+    const names = this.steps.map(step => step.kind === 'filter' || step.kind === 'map' ? step.name : step.kind);
+    const plan = optimizePlan(this.steps);
+    this.steps = [];
+    
+    const findItems = this.operations.getSemantics(this.format).queryStrategy.findItems;
+    let message = this.message;
+    const originalCount = findItems(message.data).length;
+    let items: Iterable<FNode> = findItems(message.data);
+    
+    for (const operator of plan) {
+      if (operator.kind === 'aggregate') {
+        message = this.operations.withItems(message, [...items], this.format);
+        message = this.operations.aggregate(message, operator.spec, this.format);
+        items = findItems(message.data);
+      } else {
+        items = runOperator(items, operator);
+      }
+    }
+    
+    const result = this.operations.withItems(message, [...items], this.format);
+    this.message = {
+      ...result,
+      metadata: {
+        ...result.metadata,
+        processing: {
+          operation: 'query',
+          steps: names,
+          originalCount,
+          itemCount: findItems(result.data).length,
+          timestamp: new Date().toISOString()
+        }
+      }
+    };
     return this.message;
   }
   
   map<T>(mapper: (item: FNode) => T): T[] {
-    return this.operations.map(this.message, mapper, this.format);
+    return this.operations.map(this.execute(), mapper, this.format);
   }
   
   count(predicate?: (item: FNode) => boolean): number {
-    return this.operations.count(this.message, this.format, predicate);
+    return this.operations.count(this.execute(), this.format, predicate);
   }
   
   groupBy(keyExtractor: (item: FNode) => string): Map<string, FNode[]> {
-    return this.operations.groupBy(this.message, keyExtractor, this.format);
+    return this.operations.groupBy(this.execute(), keyExtractor, this.format);
+  }
+  
+  selectPath(path: string | CompiledPath): FNode[] {
+    return this.operations.selectPath(this.execute().data, path, this.format);
+  }
+  
+  private record(step: QueryStep): FormatAwareQuery {
+    this.steps.push(step);
+    return this;
+  }
+}
+
+/**
+ * Normalize a join key so values from text and typed formats compare equal
+ */
+function joinKeyString(value: Primitive | undefined): string | undefined {
+  return value === undefined || value === null ? undefined : formatValue(value);
+}
+
+/**
+ * A record holding a null field for every field name found on one side
+ */
+function nullRecord(items: FNode[]): FNode {
+  const names: string[] = [];
+  const seen = new Set<string>();
+  for (const item of items) {
+    for (const child of item.children || []) {
+      if ((child.type === FNodeType.FIELD || child.type === FNodeType.VALUE) && !seen.has(child.name)) {
+        seen.add(child.name);
+        names.push(child.name);
+      }
+    }
   }
-}
\ No newline at end of file
+  
+  return {
+    type: FNodeType.RECORD,
+    name: items[0]?.name ?? 'record',
+    children: names.map(name => ({ type: FNodeType.FIELD, name, value: null }))
+  };
+}
+
+/**
+ * Merge two records into one, renaming or dropping fields that appear on both sides
+ */
+function joinRecords(left: FNode, right: FNode, options: JoinOptions): FNode {
+  const leftNames = new Set((left.children || []).map(child => child.name));
+  const rightNames = new Set((right.children || []).map(child => child.name));
+  const [leftSuffix, rightSuffix] = options.suffixes ?? ['_left', '_right'];
+  const conflict = options.onConflict ?? 'suffix';
+  
+  // A key field shared by name is emitted once, taking whichever side has a value
+  const sharedKey = typeof options.leftKey === 'string' &&
+    (options.rightKey === undefined || options.rightKey === options.leftKey)
+    ? options.leftKey
+    : undefined;
+  const leftKeyField = left.children?.find(child => child.name === sharedKey);
+  const keyFromRight = leftKeyField !== undefined && leftKeyField.value === null;
+  
+  const rename = (child: FNode, side: 'left' | 'right', others: Set<string>): FNode | undefined => {
+    if (!others.has(child.name)) return child;
+    if (child.name === sharedKey) return (side === 'right') === keyFromRight ? child : undefined;
+    
+    if (typeof conflict === 'function') return { ...child, name: conflict(child.name, side) };
+    if (conflict === 'left') return side === 'left' ? child : undefined;
+    if (conflict === 'right') return side === 'right' ? child : undefined;
+    return { ...child, name: child.name + (side === 'left' ? leftSuffix : rightSuffix) };
+  };
+  
+  const children = [
+    ...(left.children || []).map(child => rename(child, 'left', rightNames)),
+    ...(right.children || []).map(child => rename(child, 'right', leftNames))
+  ].filter((child): child is FNode => child !== undefined);
+  
+  const attributes = [...(left.attributes || []), ...(right.attributes || [])];
+  
+  return {
+    ...left,
+    type: FNodeType.RECORD,
+    children,
+    ...(attributes.length > 0 ? { attributes } : {})
+  };
+}
+
+/**
+ * Put items back under the XML document element, one per original item; a removed
+ * item takes its indentation with it and extra items follow the last one. Comments, text
+ * and other elements keep their positions.
+ */
+function replaceXmlItems(data: FNode, items: FNode[]): FNode {
+  const element = documentElement(data);
+  if (element !== data) {
+    return { ...data, children: data.children!.map(child => child === element ? replaceXmlItems(child, items) : child) };
+  }
+  
+  const original = new Set(XML_SEMANTICS.queryStrategy.findItems(data));
+  const children: FNode[] = [];
+  let next = 0;
+  let end = -1;
+  
+  for (const child of data.children || []) {
+    if (!original.has(child)) {
+      children.push(child);
+    } else if (next < items.length) {
+      children.push(items[next++]);
+      end = children.length;
+    } else if (children.length > 0 && isFormattingWhitespace(children[children.length - 1])) {
+      children.pop();
+    }
+  }
+  
+  const position = end === -1 ? children.length : end;
+  children.splice(position, 0, ...items.slice(next));
+  return { ...data, children };
+}
@@ -0,0 +1,69 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { FormatType, XML_SEMANTICS } from './format-semantics.js';
+import { FormatAwareOperations } from './format-aware-operations.js';
+import { createTransformationEngine } from './transformation-engine.js';
+import { XmlAdapter } from '../adapters/xml-adapter.js';
+import { PipeFitter } from '../core/pipefitter.js';
+import { FNode } from '../core/fnode.js';
+import { Message } from '../core/message.js';
+import { load } from '../test-helpers.js';
+
+const catalog = '<lib>\n  <book id="1"><title>A</title></book>\n  <book id="2"><title>B</title></book>\n</lib>';
+
+function xml(): PipeFitter {
+  return new PipeFitter({ defaultFormat: FormatType.XML }).from(XmlAdapter.string(catalog));
+}
+
+function message(text: string): Message {
+  return load(XmlAdapter.string(text));
+}
+
+test('XML items are the element children of the document element', () => {
+  const items = XML_SEMANTICS.queryStrategy.findItems(message(catalog).data);
+
+  assert.deepEqual(items.map(item => item.attributes![0].value), ['1', '2']);
+});
+
+test('repeated text-only elements are XML items; a single record\'s fields are not', () => {
+  const list = message('<list><i>1</i><i>2</i><i>3</i></list>');
+  const output = new PipeFitter({ defaultFormat: FormatType.XML })
+    .from(XmlAdapter.string('<list><i>1</i><i>2</i><i>3</i></list>'))
+    .filter(msg => msg.data.value !== '2', { items: true })
+    .to(XmlAdapter.stringify());
+
+  assert.deepEqual(XML_SEMANTICS.queryStrategy.findItems(list.data).map(item => item.value), ['1', '2', '3']);
+  assert.deepEqual(XML_SEMANTICS.queryStrategy.findItems(message('<p><name>a</name><age>1</age></p>').data), []);
+  assert.equal(output, '<list><i>1</i><i>3</i></list>');
+});
+
+test('item filters on XML keep the document element and its indentation', () => {
+  const output = xml()
+    .filter(msg => msg.data.attributes![0].value === '2', { items: true })
+    .to(XmlAdapter.stringify());
+
+  assert.equal(output, '<lib>\n  <book id="2"><title>B</title></book>\n</lib>');
+});
+
+test('select on XML projects each item under the document element', () => {
+  const operations = new FormatAwareOperations(createTransformationEngine());
+  const result = operations.select(message('<r><i a="1"><x>2</x></i></r>'), ['@a'], FormatType.XML);
+
+  assert.equal(XmlAdapter.stringify().handle(result), '<r><i a="1"/></r>');
+});
+
+test('validate in route mode sends invalid XML items to the invalid pipeline', () => {
+  const invalid: FNode[] = [];
+  const output = xml()
+    .validate(
+      { type: 'object', properties: { title: { const: 'A' } } },
+      {
+        mode: 'route',
+        invalid: branch => branch.to({ handle: (msg: Message) => invalid.push(...XML_SEMANTICS.queryStrategy.findItems(msg.data)) })
+      }
+    )
+    .to(XmlAdapter.stringify());
+
+  assert.equal(output, '<lib>\n  <book id="1"><title>A</title></book>\n</lib>');
+  assert.deepEqual(invalid.map(item => item.attributes![0].value), ['2']);
+});
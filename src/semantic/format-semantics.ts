@@ -1,4 +1,5 @@
-import { FNode, FNodeType } from '../core/fnode.js';
+import { FNode, FNodeType, documentElement } from '../core/fnode.js';
+import type { PathIndexing } from './path-query.js';
 
 /**
  * Supported format types
@@ -62,6 +63,8 @@ export interface FormatSemantics {
     findItems: (node: FNode) => FNode[];
     extractValue: (node: FNode, key: string) => any;
     navigatePath: (node: FNode, path: string[]) => FNode | undefined;
+    /** Whether path indexes address children or matched siblings (default children) */
+    indexing?: PathIndexing;
   };
 }
 
@@ -132,7 +135,45 @@ export const CSV_SEMANTICS: FormatSemantics = {
     extractValue: (node, key) => node.children?.find(child => 
       child.name === key
     )?.value,
-    navigatePath: (node, path) => navigateCsvPath(node, path)
+    navigatePath: (node, path) => navigateCsvPath(node, path),
+    indexing: 'siblings'
+  }
+};
+
+/**
+ * YAML format semantics
+ */
+export const YAML_SEMANTICS: FormatSemantics = {
+  format: FormatType.YAML,
+  typeToRole: new Map([
+    [FNodeType.COLLECTION, SemanticRole.CONTAINER],
+    [FNodeType.RECORD, SemanticRole.ITEM],
+    [FNodeType.FIELD, SemanticRole.PROPERTY],
+    [FNodeType.VALUE, SemanticRole.VALUE],
+    [FNodeType.COMMENT, SemanticRole.ANNOTATION]
+  ]),
+  roleToType: new Map([
+    [SemanticRole.ROOT, FNodeType.RECORD],
+    [SemanticRole.CONTAINER, FNodeType.COLLECTION],
+    [SemanticRole.ITEM, FNodeType.RECORD],
+    [SemanticRole.PROPERTY, FNodeType.FIELD],
+    [SemanticRole.VALUE, FNodeType.VALUE],
+    [SemanticRole.ANNOTATION, FNodeType.COMMENT]
+  ]),
+  transformationRules: {
+    collections: TransformationStrategy.PRESERVE,
+    records: TransformationStrategy.PRESERVE,
+    attributes: TransformationStrategy.CONVERT, // Convert to fields
+    comments: TransformationStrategy.PRESERVE   // Comments survive a round-trip
+  },
+  queryStrategy: {
+    findItems: node => node.children?.filter(child => 
+      child.type === FNodeType.RECORD || child.type === FNodeType.COLLECTION
+    ) || [],
+    extractValue: (node, key) => node.children?.find(child => 
+      child.name === key && child.type !== FNodeType.COMMENT
+    )?.value,
+    navigatePath: (node, path) => navigateJsonPath(node, path)
   }
 };
 
@@ -166,9 +207,7 @@ export const XML_SEMANTICS: FormatSemantics = {
     comments: TransformationStrategy.PRESERVE
   },
   queryStrategy: {
-    findItems: (node) => node.children?.filter(child => 
-      child.type === FNodeType.RECORD
-    ) || [],
+    findItems: node => findXmlItems(node),
     extractValue: (node, key) => {
       // First check attributes
       const attrValue = node.attributes?.find(attr => attr.name === key)?.value;
@@ -177,10 +216,34 @@ export const XML_SEMANTICS: FormatSemantics = {
       // Then check child elements
       return node.children?.find(child => child.name === key)?.value;
     },
-    navigatePath: (node, path) => navigateXmlPath(node, path)
+    navigatePath: (node, path) => navigateXmlPath(node, path),
+    indexing: 'siblings'
   }
 };
 
+/**
+ * The items of a tree for steps that work item by item: a record root is one item, any
+ * other root holds the items found by the format's queryStrategy.findItems
+ */
+export function itemsOf(node: FNode, semantics: FormatSemantics): FNode[] {
+  return node.type === FNodeType.RECORD ? [node] : semantics.queryStrategy.findItems(node);
+}
+
+/**
+ * Item elements under an XML document element: its records, or else text-only elements
+ * sharing one name, as in `<list><i>1</i><i>2</i></list>`
+ */
+function findXmlItems(node: FNode): FNode[] {
+  const elements = documentElement(node).children?.filter(child =>
+    child.type === FNodeType.RECORD || child.type === FNodeType.FIELD
+  ) || [];
+
+  const records = elements.filter(child => child.type === FNodeType.RECORD);
+  if (records.length > 0) return records;
+
+  return elements.length > 1 && elements.every(child => child.name === elements[0].name) ? elements : [];
+}
+
 // Helper functions for path navigation
 
 function navigateJsonPath(node: FNode, path: string[]): FNode | undefined {
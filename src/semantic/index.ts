@@ -6,11 +6,40 @@ export {
   TransformationStrategy,
   JSON_SEMANTICS,
   CSV_SEMANTICS,
-  XML_SEMANTICS
+  XML_SEMANTICS,
+  YAML_SEMANTICS
 } from './format-semantics.js';
 
 // Transformation engine exports
-export { SemanticNode, TransformationEngine } from './transformation-engine.js';
+export { SemanticNode, TransformationEngine, createTransformationEngine } from './transformation-engine.js';
+
+// Path query exports
+export {
+  CompiledPath,
+  PathSegment,
+  PathIndexing,
+  FilterExpression,
+  FilterOperand,
+  ComparisonOperator,
+  compilePath,
+  clearPathCache,
+  selectPath
+} from './path-query.js';
+
+// Aggregation exports
+export { Aggregation, AggregateSpec, ValueReader, Aggregations } from './aggregations.js';
+
+// Projection exports
+export { FieldSelection, FlattenOptions } from './projection.js';
+
+// Field mapping exports
+export { FieldMapping, applyFieldMapping, validateFieldMapping } from './field-mapping.js';
 
 // Format-aware operations exports
-export { FormatAwareOperations, FormatAwareQuery } from './format-aware-operations.js';
\ No newline at end of file
+export {
+  FormatAwareOperations,
+  FormatAwareQuery,
+  JoinOptions,
+  JoinType,
+  JoinKey
+} from './format-aware-operations.js';
\ No newline at end of file
@@ -0,0 +1,75 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { compilePath, selectPath } from './path-query.js';
+import { CSV_SEMANTICS, JSON_SEMANTICS, XML_SEMANTICS } from './format-semantics.js';
+import { JsonAdapter } from '../adapters/json-adapter.js';
+import { XmlAdapter } from '../adapters/xml-adapter.js';
+import { CsvAdapter } from '../adapters/csv-adapter.js';
+import { PipeFitter } from '../core/pipefitter.js';
+import { QueryError } from '../core/errors.js';
+import { FNode } from '../core/fnode.js';
+import { load } from '../test-helpers.js';
+
+const store = JSON.stringify({
+  users: [
+    { name: 'ann', age: 31, tags: ['a'] },
+    { name: 'bob', age: 17, tags: [] },
+    { name: 'cy', age: 45, tags: ['b', 'c'] }
+  ]
+});
+
+function values(nodes: FNode[]): unknown[] {
+  return nodes.map(node => node.value);
+}
+
+const json = load(JsonAdapter.string(store)).data;
+
+test('selects children by name, index, slice and wildcard', () => {
+  assert.deepEqual(values(selectPath(json, '$.users[0].name', JSON_SEMANTICS)), ['ann']);
+  assert.deepEqual(values(selectPath(json, '$.users[-1].name', JSON_SEMANTICS)), ['cy']);
+  assert.deepEqual(values(selectPath(json, '$.users[1:].age', JSON_SEMANTICS)), [17, 45]);
+  assert.deepEqual(values(selectPath(json, '$.users[::-1].name', JSON_SEMANTICS)), ['cy', 'bob', 'ann']);
+  assert.deepEqual(values(selectPath(json, '$.users[*].tags[*]', JSON_SEMANTICS)), ['a', 'b', 'c']);
+});
+
+test('selects by recursive descent in document order', () => {
+  assert.deepEqual(values(selectPath(json, '$..name', JSON_SEMANTICS)), ['ann', 'bob', 'cy']);
+});
+
+test('filters with comparisons, regular expressions and boolean operators', () => {
+  const names = selectPath(json, '$.users[?(@.age > 18 && @.name =~ /^c/ || @.age < 18)].name', JSON_SEMANTICS);
+
+  assert.deepEqual(values(names), ['bob', 'cy']);
+});
+
+test('indexes repeated XML siblings and reads attributes', () => {
+  const xml = load(XmlAdapter.string('<library><book lang="en"><price>12</price></book><book lang="de"><price>30</price></book></library>')).data;
+
+  assert.deepEqual(values(selectPath(xml, '$.library.book[1].@lang', XML_SEMANTICS)), ['de']);
+  assert.deepEqual(values(selectPath(xml, '$..book[?(@.price < 20)].@lang', XML_SEMANTICS)), ['en']);
+});
+
+test('indexes and filters CSV rows as siblings', () => {
+  const csv = load(CsvAdapter.string('a,b\nx,3\ny,7\nz,9\n')).data;
+
+  assert.deepEqual(values(selectPath(csv, '$.row[1].b', CSV_SEMANTICS)), ['7']);
+  assert.deepEqual(values(selectPath(csv, '$.row[?(@.b > 5)].a', CSV_SEMANTICS)), ['y', 'z']);
+  assert.deepEqual(values(selectPath(csv, '$.row[-1:].a', CSV_SEMANTICS)), ['z']);
+});
+
+test('caches compiled expressions', () => {
+  assert.equal(compilePath('$.a.b'), compilePath('$.a.b'));
+});
+
+test('reports the position of a syntax error', () => {
+  assert.throws(() => compilePath('$.users[?(@.age >)]'), (error: unknown) =>
+    error instanceof QueryError && /Invalid path '\$\.users\[\?\(@\.age >\)\]' at position \d+/.test(error.message)
+  );
+  assert.throws(() => compilePath('$.users['), QueryError);
+});
+
+test('select() wraps the matches in a selection collection', () => {
+  const output = new PipeFitter().from(JsonAdapter.string(store)).select('$.users[?(@.age > 30)].name').to(JsonAdapter.output());
+
+  assert.deepEqual(output, ['ann', 'cy']);
+});
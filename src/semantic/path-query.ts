@@ -0,0 +1,588 @@
+import { FNode, FNodeType, Primitive } from '../core/fnode.js';
+import { QueryError } from '../core/errors.js';
+import { formatValue, isTypedValue } from '../core/typed-values.js';
+import { FormatSemantics } from './format-semantics.js';
+
+/**
+ * How index, slice and filter steps pick their candidates
+ * - children: the children of each current node (JSONPath style: `users[0]`)
+ * - siblings: the nodes matched by the previous step, per parent (XPath style: `book[0]`)
+ */
+export type PathIndexing = 'children' | 'siblings';
+
+/**
+ * Comparison operators available in filter expressions
+ */
+export type ComparisonOperator = '==' | '!=' | '<' | '<=' | '>' | '>=' | '=~';
+
+/**
+ * Operand of a filter comparison
+ */
+export type FilterOperand =
+  | { kind: 'literal'; value: Primitive }
+  | { kind: 'regex'; pattern: RegExp }
+  | { kind: 'path'; absolute: boolean; segments: PathSegment[] };
+
+/**
+ * Filter expression tree
+ */
+export type FilterExpression =
+  | { kind: 'and' | 'or'; left: FilterExpression; right: FilterExpression }
+  | { kind: 'not'; operand: FilterExpression }
+  | { kind: 'compare'; operator: ComparisonOperator; left: FilterOperand; right: FilterOperand }
+  | { kind: 'test'; operand: FilterOperand };
+
+/**
+ * One step of a compiled path
+ */
+export type PathSegment =
+  | { kind: 'child'; names: string[] }
+  | { kind: 'wildcard' }
+  | { kind: 'attribute'; name: string }
+  | { kind: 'descendants' }
+  | { kind: 'index'; indices: number[] }
+  | { kind: 'slice'; start?: number; end?: number; step: number }
+  | { kind: 'filter'; expression: FilterExpression };
+
+/**
+ * Parsed path expression, reusable across evaluations
+ */
+export interface CompiledPath {
+  readonly source: string;
+  readonly segments: readonly PathSegment[];
+}
+
+const MAX_CACHED_PATHS = 500;
+const pathCache = new Map<string, CompiledPath>();
+
+const COMPARISON_OPERATORS: ComparisonOperator[] = ['==', '!=', '<=', '>=', '=~', '<', '>'];
+const NAME_PATTERN = /[^\s.[\]()'"@*$=!<>&|,:?/]+(?::[^\s.[\]()'"@*$=!<>&|,:?/]+)?/y;
+const NUMBER_PATTERN = /-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?/y;
+
+/**
+ * Recursive descent parser for path expressions
+ *
+ * Grammar (JSONPath-inspired):
+ *   $              root (optional at the start)
+ *   .name / ['a']  child by name (`prefix:name` matches namespaced nodes)
+ *   .* / [*]       all children
+ *   .@name / .@*   attributes
+ *   ..             recursive descent
+ *   [0] [-1] [0,2] index (zero-based)
+ *   [1:3] [::2]    slice
+ *   [?(expr)]      filter, with `@` as the current node and `$` as the root
+ */
+class PathParser {
+  private pos = 0;
+
+  constructor(private readonly source: string) {}
+
+  parse(): PathSegment[] {
+    this.skipSpace();
+    const rooted = this.peek() === '$';
+    if (rooted) this.pos++;
+
+    const segments = this.parseSegments(!rooted);
+
+    this.skipSpace();
+    if (this.pos < this.source.length) {
+      this.fail(`Unexpected '${this.peek()}'`);
+    }
+    return segments;
+  }
+
+  private parseSegments(implicitFirst: boolean): PathSegment[] {
+    const segments: PathSegment[] = [];
+
+    for (;;) {
+      const ch = this.peek();
+
+      if (this.source.startsWith('..', this.pos)) {
+        this.pos += 2;
+        segments.push({ kind: 'descendants' });
+        if (this.peek() !== '[') segments.push(this.parseSelector());
+      } else if (ch === '.') {
+        this.pos++;
+        segments.push(this.parseSelector());
+      } else if (ch === '[') {
+        segments.push(this.parseBracket());
+      } else if (implicitFirst && segments.length === 0 && ch !== undefined && ch !== ' ') {
+        segments.push(this.parseSelector());
+      } else {
+        return segments;
+      }
+    }
+  }
+
+  private parseSelector(): PathSegment {
+    if (this.peek() === '*') {
+      this.pos++;
+      return { kind: 'wildcard' };
+    }
+    if (this.peek() === '@') {
+      this.pos++;
+      if (this.peek() === '*') {
+        this.pos++;
+        return { kind: 'attribute', name: '*' };
+      }
+      return { kind: 'attribute', name: this.parseName() };
+    }
+    return { kind: 'child', names: [this.parseName()] };
+  }
+
+  private parseName(): string {
+    NAME_PATTERN.lastIndex = this.pos;
+    const match = NAME_PATTERN.exec(this.source);
+    if (!match) this.fail('Expected a name');
+    this.pos += match![0].length;
+    return match![0];
+  }
+
+  private parseBracket(): PathSegment {
+    this.expect('[');
+    this.skipSpace();
+
+    let segment: PathSegment;
+    const ch = this.peek();
+
+    if (ch === '?') {
+      this.pos++;
+      this.skipSpace();
+      const expression = this.parseOr();
+      segment = { kind: 'filter', expression };
+    } else if (ch === '*') {
+      this.pos++;
+      segment = { kind: 'wildcard' };
+    } else if (ch === '\'' || ch === '"') {
+      const names = [this.parseString()];
+      while (this.consume(',')) {
+        names.push(this.parseString());
+      }
+      segment = { kind: 'child', names };
+    } else {
+      segment = this.parseIndexOrSlice();
+    }
+
+    this.skipSpace();
+    this.expect(']');
+    return segment;
+  }
+
+  private parseIndexOrSlice(): PathSegment {
+    const parts: (number | undefined)[] = [this.parseOptionalInteger()];
+
+    if (this.peek() === ':') {
+      while (this.consume(':')) {
+        parts.push(this.parseOptionalInteger());
+      }
+      if (parts.length > 3) this.fail('Slice takes at most start:end:step');
+
+      const step = parts[2] ?? 1;
+      if (step === 0) this.fail('Slice step cannot be zero');
+      return { kind: 'slice', start: parts[0], end: parts[1], step };
+    }
+
+    if (parts[0] === undefined) this.fail('Expected an index, slice, name or filter');
+
+    const indices = [parts[0]!];
+    while (this.consume(',')) {
+      const index = this.parseOptionalInteger();
+      if (index === undefined) this.fail('Expected an index');
+      indices.push(index!);
+    }
+    return { kind: 'index', indices };
+  }
+
+  private parseOptionalInteger(): number | undefined {
+    this.skipSpace();
+    const match = /-?\d+/y;
+    match.lastIndex = this.pos;
+    const result = match.exec(this.source);
+    if (!result) return undefined;
+    this.pos += result[0].length;
+    this.skipSpace();
+    return parseInt(result[0], 10);
+  }
+
+  private parseOr(): FilterExpression {
+    let left = this.parseAnd();
+    while (this.consume('||')) {
+      left = { kind: 'or', left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): FilterExpression {
+    let left = this.parseUnary();
+    while (this.consume('&&')) {
+      left = { kind: 'and', left, right: this.parseUnary() };
+    }
+    return left;
+  }
+
+  private parseUnary(): FilterExpression {
+    this.skipSpace();
+
+    if (this.peek() === '!' && this.source[this.pos + 1] !== '=') {
+      this.pos++;
+      return { kind: 'not', operand: this.parseUnary() };
+    }
+    if (this.consume('(')) {
+      const inner = this.parseOr();
+      this.skipSpace();
+      this.expect(')');
+      return inner;
+    }
+
+    const left = this.parseOperand();
+    this.skipSpace();
+
+    const operator = COMPARISON_OPERATORS.find(op => this.source.startsWith(op, this.pos));
+    if (!operator) {
+      return { kind: 'test', operand: left };
+    }
+
+    this.pos += operator.length;
+    const right = this.parseOperand();
+    if (operator === '=~' && right.kind !== 'regex') {
+      this.fail('=~ expects a regular expression literal');
+    }
+    return { kind: 'compare', operator, left, right };
+  }
+
+  private parseOperand(): FilterOperand {
+    this.skipSpace();
+    const ch = this.peek();
+
+    if (ch === '@' || ch === '$') {
+      this.pos++;
+      return { kind: 'path', absolute: ch === '$', segments: this.parseSegments(false) };
+    }
+    if (ch === '\'' || ch === '"') {
+      return { kind: 'literal', value: this.parseString() };
+    }
+    if (ch === '/') {
+      return { kind: 'regex', pattern: this.parseRegex() };
+    }
+
+    NUMBER_PATTERN.lastIndex = this.pos;
+    const number = NUMBER_PATTERN.exec(this.source);
+    if (number) {
+      this.pos += number[0].length;
+      return { kind: 'literal', value: Number(number[0]) };
+    }
+
+    for (const [keyword, value] of [['true', true], ['false', false], ['null', null]] as const) {
+      if (this.source.startsWith(keyword, this.pos) && !/\w/.test(this.source[this.pos + keyword.length] ?? '')) {
+        this.pos += keyword.length;
+        return { kind: 'literal', value };
+      }
+    }
+
+    return this.fail('Expected a path, string, number, boolean, null or regular expression');
+  }
+
+  private parseString(): string {
+    this.skipSpace();
+    const quote = this.peek();
+    if (quote !== '\'' && quote !== '"') this.fail('Expected a quoted string');
+    this.pos++;
+
+    let value = '';
+    while (this.pos < this.source.length) {
+      const ch = this.source[this.pos++];
+      if (ch === quote) {
+        this.skipSpace();
+        return value;
+      }
+      if (ch === '\\' && this.pos < this.source.length) {
+        value += this.source[this.pos++];
+      } else {
+        value += ch;
+      }
+    }
+    return this.fail('Unterminated string');
+  }
+
+  private parseRegex(): RegExp {
+    const start = this.pos++;
+    let pattern = '';
+    while (this.pos < this.source.length && this.source[this.pos] !== '/') {
+      if (this.source[this.pos] === '\\') pattern += this.source[this.pos++];
+      pattern += this.source[this.pos++];
+    }
+    if (!this.consume('/')) {
+      this.pos = start;
+      this.fail('Unterminated regular expression');
+    }
+
+    const flags = /[a-z]*/y;
+    flags.lastIndex = this.pos;
+    const flagText = flags.exec(this.source)![0];
+    this.pos += flagText.length;
+
+    try {
+      return new RegExp(pattern, flagText);
+    } catch (error) {
+      this.pos = start;
+      return this.fail(error instanceof Error ? error.message : 'Invalid regular expression');
+    }
+  }
+
+  private peek(): string | undefined {
+    return this.source[this.pos];
+  }
+
+  private consume(token: string): boolean {
+    this.skipSpace();
+    if (this.source.startsWith(token, this.pos)) {
+      this.pos += token.length;
+      return true;
+    }
+    return false;
+  }
+
+  private expect(token: string): void {
+    if (!this.consume(token)) this.fail(`Expected '${token}'`);
+  }
+
+  private skipSpace(): void {
+    while (this.pos < this.source.length && /\s/.test(this.source[this.pos])) this.pos++;
+  }
+
+  private fail(reason: string): never {
+    throw new QueryError(`Invalid path '${this.source}' at position ${this.pos}: ${reason}`, {
+      expression: this.source,
+      position: this.pos
+    });
+  }
+}
+
+/**
+ * Parse a path expression, reusing a cached compilation when available
+ */
+export function compilePath(expression: string): CompiledPath {
+  const cached = pathCache.get(expression);
+  if (cached) return cached;
+
+  const compiled: CompiledPath = {
+    source: expression,
+    segments: new PathParser(expression).parse()
+  };
+
+  if (pathCache.size >= MAX_CACHED_PATHS) {
+    pathCache.delete(pathCache.keys().next().value!);
+  }
+  pathCache.set(expression, compiled);
+  return compiled;
+}
+
+/**
+ * Drop all cached path compilations
+ */
+export function clearPathCache(): void {
+  pathCache.clear();
+}
+
+/**
+ * Evaluate a path expression against a node, returning matches in document order
+ */
+export function selectPath(
+  node: FNode,
+  path: string | CompiledPath,
+  semantics: FormatSemantics
+): FNode[] {
+  const compiled = typeof path === 'string' ? compilePath(path) : path;
+  const scope: EvaluationScope = {
+    root: node,
+    indexing: semantics.queryStrategy.indexing ?? 'children'
+  };
+  return evaluate(compiled.segments, [node], scope);
+}
+
+interface EvaluationScope {
+  root: FNode;
+  indexing: PathIndexing;
+}
+
+function evaluate(segments: readonly PathSegment[], start: FNode[], scope: EvaluationScope): FNode[] {
+  // Matches stay grouped by parent so sibling-style predicates can index within each group
+  let groups: FNode[][] = [start];
+
+  for (const segment of segments) {
+    const nodes = groups.flat();
+
+    switch (segment.kind) {
+      case 'child':
+        groups = nodes.map(node =>
+          dataChildren(node).filter(child => segment.names.some(name => matchesName(child, name)))
+        );
+        break;
+
+      case 'wildcard':
+        groups = nodes.map(dataChildren);
+        break;
+
+      case 'attribute':
+        groups = nodes.map(node =>
+          (node.attributes || []).filter(attr => segment.name === '*' || matchesName(attr, segment.name))
+        );
+        break;
+
+      case 'descendants':
+        groups = descendantsOrSelf(nodes).map(node => [node]);
+        break;
+
+      default:
+        if (scope.indexing === 'children') {
+          groups = nodes.map(dataChildren);
+        }
+        groups = groups.map(group => applyPredicate(segment, group, scope));
+    }
+  }
+
+  return groups.flat();
+}
+
+function applyPredicate(segment: PathSegment, group: FNode[], scope: EvaluationScope): FNode[] {
+  switch (segment.kind) {
+    case 'index':
+      return segment.indices
+        .map(index => group[index < 0 ? group.length + index : index])
+        .filter((node): node is FNode => node !== undefined);
+
+    case 'slice':
+      return slice(group, segment.start, segment.end, segment.step);
+
+    case 'filter':
+      return group.filter(node => test(segment.expression, node, scope));
+
+    default:
+      return group;
+  }
+}
+
+function slice(group: FNode[], start: number | undefined, end: number | undefined, step: number): FNode[] {
+  const length = group.length;
+  const normalize = (index: number) => index < 0 ? Math.max(length + index, -1) : Math.min(index, length);
+  const result: FNode[] = [];
+
+  if (step > 0) {
+    const from = Math.max(normalize(start ?? 0), 0);
+    const to = normalize(end ?? length);
+    for (let i = from; i < to; i += step) result.push(group[i]);
+  } else {
+    const from = Math.min(normalize(start ?? length - 1), length - 1);
+    const to = end === undefined ? -1 : normalize(end);
+    for (let i = from; i > to; i += step) result.push(group[i]);
+  }
+
+  return result;
+}
+
+function test(expression: FilterExpression, node: FNode, scope: EvaluationScope): boolean {
+  switch (expression.kind) {
+    case 'and':
+      return test(expression.left, node, scope) && test(expression.right, node, scope);
+    case 'or':
+      return test(expression.left, node, scope) || test(expression.right, node, scope);
+    case 'not':
+      return !test(expression.operand, node, scope);
+    case 'test':
+      // A bare operand holds when it resolves to anything other than false or null
+      return resolve(expression.operand, node, scope).some(value => value !== false && value !== null);
+    case 'compare': {
+      const left = resolve(expression.left, node, scope);
+      const { operator, right } = expression;
+
+      if (right.kind === 'regex') {
+        return left.some(value => value !== undefined && right.pattern.test(String(value)));
+      }
+
+      // Path operands may match several nodes; the comparison holds if any pair satisfies it
+      const rightValues = resolve(right, node, scope);
+      return left.some(a => rightValues.some(b => compare(a, b, operator)));
+    }
+  }
+}
+
+/**
+ * Resolve an operand to the values it denotes; matched nodes without a value count as present
+ */
+function resolve(operand: FilterOperand, node: FNode, scope: EvaluationScope): (Primitive | undefined)[] {
+  switch (operand.kind) {
+    case 'literal':
+      return [operand.value];
+    case 'regex':
+      return [];
+    case 'path': {
+      const start = operand.absolute ? scope.root : node;
+      return evaluate(operand.segments, [start], scope).map(match => match.value);
+    }
+  }
+}
+
+function compare(a: Primitive | undefined, b: Primitive | undefined, operator: ComparisonOperator): boolean {
+  if (operator === '!=') return !compare(a, b, '==');
+  if (a === undefined || b === undefined) return false;
+
+  // Typed values compare as numbers (bigints) or through their text form (ISO timestamps, base64)
+  if (isTypedValue(a)) a = typeof a === 'bigint' ? Number(a) : formatValue(a);
+  if (isTypedValue(b)) b = typeof b === 'bigint' ? Number(b) : formatValue(b);
+
+  // Text formats (CSV, XML) carry numbers and booleans as strings
+  if (typeof a === 'number' && typeof b === 'string') b = toNumber(b);
+  if (typeof b === 'number' && typeof a === 'string') a = toNumber(a);
+  if (typeof a === 'boolean' && typeof b === 'string') b = b === 'true' ? true : b === 'false' ? false : b;
+  if (typeof b === 'boolean' && typeof a === 'string') a = a === 'true' ? true : a === 'false' ? false : a;
+
+  if (operator === '==') return a === b;
+  if (a === null || b === null || typeof a !== typeof b) return false;
+
+  switch (operator) {
+    case '<': return a < b;
+    case '<=': return a <= b;
+    case '>': return a > b;
+    case '>=': return a >= b;
+    default: return false;
+  }
+}
+
+function toNumber(value: string): number | string {
+  const number = Number(value);
+  return value.trim() !== '' && !isNaN(number) ? number : value;
+}
+
+/**
+ * Children that carry data, excluding comments, processing instructions and attribute nodes
+ */
+function dataChildren(node: FNode): FNode[] {
+  return (node.children || []).filter(child =>
+    child.type !== FNodeType.COMMENT &&
+    child.type !== FNodeType.INSTRUCTION &&
+    child.type !== FNodeType.ATTRIBUTES
+  );
+}
+
+function descendantsOrSelf(nodes: FNode[]): FNode[] {
+  const seen = new Set<FNode>();
+  const result: FNode[] = [];
+
+  const visit = (node: FNode) => {
+    if (seen.has(node)) return;
+    seen.add(node);
+    result.push(node);
+    dataChildren(node).forEach(visit);
+  };
+
+  nodes.forEach(visit);
+  return result;
+}
+
+/**
+ * Match by local name, or by `prefix:name` against the node's namespace prefix
+ */
+function matchesName(node: FNode, name: string): boolean {
+  if (node.name === name) return true;
+  return node.label !== undefined && `${node.label}:${node.name}` === name;
+}
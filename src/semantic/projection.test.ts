@@ -0,0 +1,65 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { flattenItem, omitFields, projectItem, renameFields, structuralKey } from './projection.js';
+import { FormatAwareOperations } from './format-aware-operations.js';
+import { createTransformationEngine } from './transformation-engine.js';
+import { FormatType } from './format-semantics.js';
+import { PipeFitter } from '../core/pipefitter.js';
+import { FNode } from '../core/fnode.js';
+import { JsonAdapter } from '../adapters/json-adapter.js';
+import { XmlAdapter } from '../adapters/xml-adapter.js';
+import { load } from '../test-helpers.js';
+
+const operations = new FormatAwareOperations(createTransformationEngine());
+
+function json(node: FNode): unknown {
+  return new PipeFitter().from(node).to(JsonAdapter.output());
+}
+
+const user = load(JsonAdapter.string('{"id":1,"name":"ann","address":{"city":"Oslo","zip":"0150"},"tags":["a","b"]}')).data;
+
+test('select keeps nested paths in place or places them under aliases', () => {
+  assert.deepEqual(json(projectItem(user, ['id', 'address.city'])), { id: 1, address: { city: 'Oslo' } });
+  assert.deepEqual(json(projectItem(user, { key: 'id', city: 'address.city', missing: 'nope' })), { key: 1, city: 'Oslo' });
+});
+
+test('omit and rename address fields by path', () => {
+  assert.deepEqual(json(omitFields(user, ['tags', 'address.zip'])), { id: 1, name: 'ann', address: { city: 'Oslo' } });
+  assert.deepEqual(
+    json(renameFields(omitFields(user, ['tags']), { 'address.city': 'town', name: 'fullName' })),
+    { id: 1, fullName: 'ann', address: { town: 'Oslo', zip: '0150' } }
+  );
+});
+
+test('flatten unwinds a JSON collection into one item per element', () => {
+  assert.deepEqual(flattenItem(user, 'tags', false).map(item => json(item)), [
+    { id: 1, name: 'ann', address: { city: 'Oslo', zip: '0150' }, tags: 'a' },
+    { id: 1, name: 'ann', address: { city: 'Oslo', zip: '0150' }, tags: 'b' }
+  ]);
+  assert.deepEqual(flattenItem(user, 'missing', false), []);
+  assert.deepEqual(flattenItem(user, 'missing', false, { preserveEmpty: true }), [user]);
+});
+
+test('structural keys ignore item names but not values', () => {
+  const [first, second, third] = load(JsonAdapter.string('[{"a":1},{"a":1},{"a":"1"}]')).data.children!;
+
+  assert.equal(structuralKey(first), structuralKey(second));
+  assert.notEqual(structuralKey(first), structuralKey(third));
+});
+
+test('query operators respect XML attributes and repeated siblings', () => {
+  const message = load(XmlAdapter.string(
+    '<orders><order id="1"><item>a</item><item>b</item></order><order id="2"><item>a</item></order></orders>'
+  ), { defaultFormat: FormatType.XML });
+
+  const result = operations.query(message, FormatType.XML)
+    .flatten('item')
+    .rename({ '@id': 'ref' })
+    .distinct(item => item.children![0].value)
+    .execute();
+
+  assert.equal(
+    XmlAdapter.stringify().handle(result),
+    '<orders><order ref="1"><item>a</item></order><order ref="1"><item>b</item></order></orders>'
+  );
+});
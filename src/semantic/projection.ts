@@ -0,0 +1,206 @@
+import { FNode, FNodeType } from '../core/fnode.js';
+import { valueKey } from '../core/typed-values.js';
+
+/**
+ * Fields to keep in each item
+ * - an array of field paths, keeping nested fields at their original position in the tree
+ * - a map of output name → field path, placing each field on the item under its alias
+ *
+ * Paths are dot-separated field names; `@name` addresses an attribute.
+ */
+export type FieldSelection = string[] | Record<string, string>;
+
+/**
+ * Options for flatten()
+ */
+export interface FlattenOptions {
+  /** Keep items whose path is missing or empty unchanged instead of dropping them */
+  preserveEmpty?: boolean;
+}
+
+interface FieldMatch {
+  node: FNode;
+  attribute: boolean;
+}
+
+export function fieldSegments(path: string): string[] {
+  return path.split('.').filter(segment => segment !== '');
+}
+
+/**
+ * Resolve one path segment: `@name` is an attribute, a plain name a child field,
+ * falling back to an attribute of that name (XML elements carry fields as either)
+ */
+function lookup(node: FNode, segment: string): FieldMatch | undefined {
+  if (segment.startsWith('@')) {
+    const attribute = node.attributes?.find(attr => attr.name === segment.substring(1));
+    return attribute ? { node: attribute, attribute: true } : undefined;
+  }
+
+  const child = node.children?.find(child => child.name === segment && child.type !== FNodeType.COMMENT);
+  if (child) return { node: child, attribute: false };
+
+  const attribute = node.attributes?.find(attr => attr.name === segment);
+  return attribute ? { node: attribute, attribute: true } : undefined;
+}
+
+function lookupPath(node: FNode, segments: string[]): FieldMatch | undefined {
+  let match: FieldMatch | undefined = { node, attribute: false };
+  for (const segment of segments) {
+    if (!match || match.attribute) return undefined;
+    match = lookup(match.node, segment);
+  }
+  return match;
+}
+
+/**
+ * Replace the node at a path, or remove it when update returns undefined.
+ * Returns the node unchanged when the path does not resolve.
+ */
+function updateAt(node: FNode, segments: string[], update: (target: FNode) => FNode | undefined): FNode {
+  if (segments.length === 0) return update(node) ?? node;
+
+  const [segment, ...rest] = segments;
+  const match = lookup(node, segment);
+  if (!match || (match.attribute && rest.length > 0)) return node;
+
+  const next = rest.length === 0 ? update(match.node) : updateAt(match.node, rest, update);
+  if (next === match.node) return node;
+
+  const key = match.attribute ? 'attributes' : 'children';
+  const list = node[key]!;
+  return {
+    ...node,
+    [key]: next
+      ? list.map(child => child === match.node ? next : child)
+      : list.filter(child => child !== match.node)
+  };
+}
+
+/**
+ * Copy of a node without its children and attributes
+ */
+function shell(node: FNode): FNode {
+  const copy = { ...node };
+  delete copy.children;
+  delete copy.attributes;
+  return copy;
+}
+
+function append(target: FNode, node: FNode, attribute: boolean): void {
+  if (attribute) {
+    target.attributes = [...(target.attributes || []), node];
+  } else {
+    target.children = [...(target.children || []), node];
+  }
+}
+
+/**
+ * Copy the field at a path into target, recreating the intermediate fields
+ */
+function copyPath(source: FNode, target: FNode, segments: string[]): void {
+  const [segment, ...rest] = segments;
+  const match = lookup(source, segment);
+  if (!match) return;
+
+  if (rest.length === 0) {
+    append(target, match.node, match.attribute);
+    return;
+  }
+  if (match.attribute) return;
+
+  let copy = target.children?.find(child => child.name === match.node.name);
+  if (!copy) {
+    copy = shell(match.node);
+    append(target, copy, false);
+  }
+  copyPath(match.node, copy, rest);
+}
+
+/**
+ * Keep only the selected fields of an item
+ */
+export function projectItem(item: FNode, selection: FieldSelection): FNode {
+  const result = shell(item);
+
+  if (Array.isArray(selection)) {
+    for (const path of selection) {
+      copyPath(item, result, fieldSegments(path));
+    }
+  } else {
+    for (const [alias, path] of Object.entries(selection)) {
+      const match = lookupPath(item, fieldSegments(path));
+      if (match) append(result, { ...match.node, name: alias.replace(/^@/, '') }, match.attribute);
+    }
+  }
+
+  result.children ??= [];
+  return result;
+}
+
+/**
+ * Remove fields from an item
+ */
+export function omitFields(item: FNode, paths: string[]): FNode {
+  return paths.reduce((current, path) => updateAt(current, fieldSegments(path), () => undefined), item);
+}
+
+/**
+ * Rename fields of an item in place; keys are field paths, values the new names
+ */
+export function renameFields(item: FNode, renames: Record<string, string>): FNode {
+  return Object.entries(renames).reduce(
+    (current, [path, name]) => updateAt(current, fieldSegments(path), node => ({ ...node, name: name.replace(/^@/, '') })),
+    item
+  );
+}
+
+/**
+ * Unwind the collection at a path into one item per element, each element taking
+ * the collection's place. With sibling indexing (XML) the elements are the repeated
+ * siblings named by the last segment; otherwise they are the children of a collection.
+ */
+export function flattenItem(item: FNode, path: string, siblings: boolean, options: FlattenOptions = {}): FNode[] {
+  const segments = fieldSegments(path);
+  const unchanged = options.preserveEmpty ? [item] : [];
+
+  if (siblings) {
+    const parentSegments = segments.slice(0, -1);
+    const name = segments[segments.length - 1];
+    const parent = lookupPath(item, parentSegments);
+    const elements = parent && !parent.attribute
+      ? (parent.node.children || []).filter(child => child.name === name && child.type !== FNodeType.COMMENT)
+      : [];
+    if (elements.length === 0) return unchanged;
+
+    return elements.map(element => updateAt(item, parentSegments, node => ({
+      ...node,
+      children: node.children!.filter(child => child === element || child.name !== name || child.type === FNodeType.COMMENT)
+    })));
+  }
+
+  const target = lookupPath(item, segments);
+  if (!target || target.attribute) return unchanged;
+  if (target.node.type !== FNodeType.COLLECTION) return [item];
+
+  const elements = (target.node.children || []).filter(child => child.type !== FNodeType.COMMENT);
+  if (elements.length === 0) return unchanged;
+
+  return elements.map(element => updateAt(item, segments, () => ({ ...element, name: target.node.name })));
+}
+
+/**
+ * Structural identity of an item, ignoring node ids and the item's own name
+ * (JSON array items are named by their index)
+ */
+export function structuralKey(node: FNode): string {
+  const describe = (current: FNode, name: string | null): unknown[] => [
+    current.type,
+    name,
+    current.ns ?? null,
+    current.value === undefined ? null : valueKey(current.value),
+    (current.attributes || []).map(child => describe(child, child.name)),
+    (current.children || []).map(child => describe(child, child.name))
+  ];
+  return JSON.stringify(describe(node, null));
+}
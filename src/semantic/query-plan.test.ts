@@ -0,0 +1,91 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { optimizePlan, runOperator } from './query-plan.js';
+import { FormatAwareOperations } from './format-aware-operations.js';
+import { createTransformationEngine } from './transformation-engine.js';
+import { FormatType } from './format-semantics.js';
+import { PipeFitter } from '../core/pipefitter.js';
+import { FNode, FNodeType } from '../core/fnode.js';
+import { JsonAdapter } from '../adapters/json-adapter.js';
+import { load } from '../test-helpers.js';
+
+const operations = new FormatAwareOperations(createTransformationEngine());
+
+function numbers(values: number[]): FNode[] {
+  return values.map((value, index) => ({ type: FNodeType.VALUE, name: String(index), value }));
+}
+
+function query(json: string) {
+  const message = load(JsonAdapter.string(json));
+  return operations.query(message, FormatType.JSON);
+}
+
+const byN = (a: FNode, b: FNode) => Number(a.children![0].value) - Number(b.children![0].value);
+
+test('fuses adjacent filters and maps and turns sort + take into a top-N', () => {
+  const plan = query('[]')
+    .filter(() => true)
+    .distinct()
+    .select(['n'])
+    .rename({ n: 'm' })
+    .sort(byN)
+    .skip(1)
+    .take(2)
+    .explain();
+
+  assert.equal(plan, [
+    'Scan(json items)',
+    'Pipeline(filter & distinct → select → rename)',
+    'TopN(limit 2, offset 1; heap of 3)',
+    'Rebuild(json container)'
+  ].join('\n'));
+});
+
+test('merges consecutive take and skip into one slice', () => {
+  const plan = optimizePlan([
+    { kind: 'skip', count: 2 },
+    { kind: 'take', count: 5 },
+    { kind: 'skip', count: 1 },
+    { kind: 'take', count: 10 }
+  ]);
+
+  assert.deepEqual(plan, [{ kind: 'slice', offset: 3, limit: 4 }]);
+});
+
+test('top-N matches a stable sort, ties in input order', () => {
+  const items = numbers([5, 1, 4, 1, 3, 9, 2, 1]);
+  const comparator = (a: FNode, b: FNode) => Number(a.value) - Number(b.value);
+
+  const top = [...runOperator(items, { kind: 'topN', comparator, offset: 1, limit: 3 })];
+
+  assert.deepEqual(top, [...items].sort(comparator).slice(1, 4));
+  assert.deepEqual(top.map(item => item.name), ['3', '7', '6']);
+});
+
+test('a slice stops pulling items once its limit is reached', () => {
+  let pulled = 0;
+  const items = (function* () {
+    for (const item of numbers([1, 2, 3, 4, 5])) {
+      pulled++;
+      yield item;
+    }
+  })();
+
+  const taken = [...runOperator(items, { kind: 'slice', offset: 1, limit: 2 })];
+
+  assert.deepEqual(taken.map(item => item.value), [2, 3]);
+  assert.equal(pulled, 3);
+});
+
+test('execute runs the plan once and records the query steps', () => {
+  const result = query('[{"n":3},{"n":1},{"n":4},{"n":1},{"n":5}]')
+    .filter(item => Number(item.children![0].value) > 1)
+    .sort(byN)
+    .take(2)
+    .execute();
+
+  assert.deepEqual(new PipeFitter().from(result.data).to(JsonAdapter.output()), [{ n: 3 }, { n: 4 }]);
+  assert.deepEqual(result.metadata.processing.steps, ['filter', 'sort', 'take']);
+  assert.equal(result.metadata.processing.originalCount, 5);
+  assert.equal(result.metadata.processing.itemCount, 2);
+});
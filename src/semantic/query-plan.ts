@@ -0,0 +1,240 @@
+import { FNode } from '../core/fnode.js';
+import { AggregateSpec } from './aggregations.js';
+
+type Comparator = (a: FNode, b: FNode) => number;
+
+/**
+ * A step recorded by FormatAwareQuery, in call order
+ */
+export type QueryStep =
+  | { kind: 'filter'; name: string; predicate: (item: FNode) => boolean }
+  | { kind: 'map'; name: string; mapper: (item: FNode) => FNode[] }
+  | { kind: 'sort'; comparator: Comparator }
+  | { kind: 'take' | 'skip'; count: number }
+  | { kind: 'aggregate'; spec: AggregateSpec };
+
+/**
+ * Run of fused filters or fused maps inside a pipeline
+ */
+export type PipelineStage =
+  | { kind: 'filter'; names: string[]; predicates: Array<(item: FNode) => boolean> }
+  | { kind: 'map'; names: string[]; mappers: Array<(item: FNode) => FNode[]> };
+
+/**
+ * Operator of an optimized query plan
+ * - pipeline: item-at-a-time filters and maps, run in a single pass
+ * - sort: full sort of the items
+ * - topN: sort fused with a following take, keeping offset + limit items in a bounded heap
+ * - slice: skip/take, which stops pulling items once the limit is reached
+ * - aggregate: grouping barrier producing new items
+ */
+export type PlanOperator =
+  | { kind: 'pipeline'; stages: PipelineStage[] }
+  | { kind: 'sort'; comparator: Comparator }
+  | { kind: 'topN'; comparator: Comparator; offset: number; limit: number }
+  | { kind: 'slice'; offset: number; limit?: number }
+  | { kind: 'aggregate'; spec: AggregateSpec };
+
+/**
+ * Build the execution plan for the recorded steps
+ */
+export function optimizePlan(steps: QueryStep[]): PlanOperator[] {
+  const plan: PlanOperator[] = [];
+
+  for (const step of steps) {
+    const last = plan[plan.length - 1];
+
+    switch (step.kind) {
+      case 'filter':
+      case 'map': {
+        const pipeline = last?.kind === 'pipeline' ? last : { kind: 'pipeline' as const, stages: [] };
+        if (pipeline !== last) plan.push(pipeline);
+        fuseStage(pipeline.stages, step);
+        break;
+      }
+
+      case 'take':
+      case 'skip': {
+        if (last?.kind === 'slice' || last?.kind === 'topN') {
+          Object.assign(last, mergeSlice(last.offset, last.limit, step));
+        } else {
+          plan.push({ kind: 'slice', ...mergeSlice(0, undefined, step) });
+        }
+
+        // A bounded slice right after a sort only needs the first offset + limit sorted items
+        const current = plan[plan.length - 1];
+        const previous = plan[plan.length - 2];
+        if (current.kind === 'slice' && current.limit !== undefined && previous?.kind === 'sort') {
+          plan.splice(-2, 2, {
+            kind: 'topN',
+            comparator: previous.comparator,
+            offset: current.offset,
+            limit: current.limit
+          });
+        }
+        break;
+      }
+
+      case 'sort':
+        plan.push({ kind: 'sort', comparator: step.comparator });
+        break;
+
+      case 'aggregate':
+        plan.push({ kind: 'aggregate', spec: step.spec });
+        break;
+    }
+  }
+
+  return plan;
+}
+
+function fuseStage(stages: PipelineStage[], step: QueryStep & { kind: 'filter' | 'map' }): void {
+  const last = stages[stages.length - 1];
+
+  if (step.kind === 'filter') {
+    if (last?.kind === 'filter') {
+      last.names.push(step.name);
+      last.predicates.push(step.predicate);
+    } else {
+      stages.push({ kind: 'filter', names: [step.name], predicates: [step.predicate] });
+    }
+  } else if (last?.kind === 'map') {
+    last.names.push(step.name);
+    last.mappers.push(step.mapper);
+  } else {
+    stages.push({ kind: 'map', names: [step.name], mappers: [step.mapper] });
+  }
+}
+
+function runStage(stage: PipelineStage, item: FNode): FNode[] {
+  if (stage.kind === 'filter') {
+    return stage.predicates.every(predicate => predicate(item)) ? [item] : [];
+  }
+  return stage.mappers.reduce<FNode[]>((items, mapper) => items.flatMap(mapper), [item]);
+}
+
+function mergeSlice(
+  offset: number,
+  limit: number | undefined,
+  step: { kind: 'take' | 'skip'; count: number }
+): { offset: number; limit?: number } {
+  const count = Math.max(0, step.count);
+  if (step.kind === 'take') {
+    return { offset, limit: limit === undefined ? count : Math.min(limit, count) };
+  }
+  return { offset: offset + count, limit: limit === undefined ? undefined : Math.max(0, limit - count) };
+}
+
+/**
+ * Apply one non-aggregate operator; pipelines and slices stay lazy
+ */
+export function runOperator(items: Iterable<FNode>, operator: Exclude<PlanOperator, { kind: 'aggregate' }>): Iterable<FNode> {
+  switch (operator.kind) {
+    case 'pipeline':
+      return (function* () {
+        for (const item of items) {
+          yield* operator.stages.reduce<FNode[]>((current, stage) => current.flatMap(next => runStage(stage, next)), [item]);
+        }
+      })();
+
+    case 'sort':
+      return [...items].sort(operator.comparator);
+
+    case 'topN':
+      return topN(items, operator.comparator, operator.offset + operator.limit).slice(operator.offset);
+
+    case 'slice':
+      return (function* () {
+        if (operator.limit === 0) return;
+        let index = 0;
+        for (const item of items) {
+          if (index++ < operator.offset) continue;
+          yield item;
+          if (operator.limit !== undefined && index >= operator.offset + operator.limit) return;
+        }
+      })();
+  }
+}
+
+/**
+ * The first n items in comparator order, via a bounded max-heap.
+ * Ties keep input order, matching a stable sort.
+ */
+function topN(items: Iterable<FNode>, comparator: Comparator, n: number): FNode[] {
+  if (n <= 0) return [];
+
+  const heap: Array<{ item: FNode; index: number }> = [];
+  const compare = (a: { item: FNode; index: number }, b: { item: FNode; index: number }) =>
+    comparator(a.item, b.item) || a.index - b.index;
+
+  const siftUp = (position: number) => {
+    while (position > 0) {
+      const parent = (position - 1) >> 1;
+      if (compare(heap[position], heap[parent]) <= 0) return;
+      [heap[position], heap[parent]] = [heap[parent], heap[position]];
+      position = parent;
+    }
+  };
+
+  const siftDown = (position: number) => {
+    for (;;) {
+      const left = position * 2 + 1;
+      const right = left + 1;
+      let largest = position;
+      if (left < heap.length && compare(heap[left], heap[largest]) > 0) largest = left;
+      if (right < heap.length && compare(heap[right], heap[largest]) > 0) largest = right;
+      if (largest === position) return;
+      [heap[position], heap[largest]] = [heap[largest], heap[position]];
+      position = largest;
+    }
+  };
+
+  let index = 0;
+  for (const item of items) {
+    const entry = { item, index: index++ };
+    if (heap.length < n) {
+      heap.push(entry);
+      siftUp(heap.length - 1);
+    } else if (compare(entry, heap[0]) < 0) {
+      heap[0] = entry;
+      siftDown(0);
+    }
+  }
+
+  return heap.sort(compare).map(entry => entry.item);
+}
+
+/**
+ * Human-readable description of a plan, one operator per line
+ */
+export function describePlan(plan: PlanOperator[], format: string): string {
+  const lines = [`Scan(${format} items)`];
+
+  for (const operator of plan) {
+    switch (operator.kind) {
+      case 'pipeline':
+        lines.push(`Pipeline(${operator.stages.map(stage => stage.names.join(stage.kind === 'filter' ? ' & ' : ' → ')).join(' → ')})`);
+        break;
+      case 'sort':
+        lines.push('Sort');
+        break;
+      case 'topN':
+        lines.push(`TopN(limit ${operator.limit}${operator.offset ? `, offset ${operator.offset}` : ''}; heap of ${operator.offset + operator.limit})`);
+        break;
+      case 'slice':
+        lines.push(operator.limit === undefined
+          ? `Slice(offset ${operator.offset})`
+          : `Slice(offset ${operator.offset}, limit ${operator.limit}; stops reading early)`);
+        break;
+      case 'aggregate': {
+        const groupBy = operator.spec.groupBy;
+        const keys = groupBy === undefined ? 'all' : typeof groupBy === 'function' ? 'key function' : [groupBy].flat().join(', ');
+        lines.push(`Aggregate(group by ${keys}; ${Object.keys(operator.spec.aggregations).join(', ')})`);
+        break;
+      }
+    }
+  }
+
+  lines.push(`Rebuild(${format} container)`);
+  return lines.join('\n');
+}
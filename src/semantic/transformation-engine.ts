@@ -1,6 +1,16 @@
-import { FNode, FNodeType } from '../core/fnode.js';
+import { FNode, FNodeType, ValueType } from '../core/fnode.js';
+import { indexById } from '../core/graph.js';
 import { Message } from '../core/message.js';
-import { FormatSemantics, FormatType, SemanticRole, TransformationStrategy } from './format-semantics.js';
+import {
+  FormatSemantics,
+  FormatType,
+  SemanticRole,
+  TransformationStrategy,
+  JSON_SEMANTICS,
+  CSV_SEMANTICS,
+  XML_SEMANTICS,
+  YAML_SEMANTICS
+} from './format-semantics.js';
 
 /**
  * Semantic node representation (format-neutral intermediate)
@@ -9,6 +19,7 @@ export interface SemanticNode {
   role: SemanticRole;
   name: string;
   value?: any;
+  valueType?: ValueType;
   id?: string;
   ns?: string;
   label?: string;
@@ -17,6 +28,16 @@ export interface SemanticNode {
   attributes?: SemanticNode[];
 }
 
+/**
+ * Converted nodes of one transformation, by identity, so that shared nodes stay shared
+ * and cycles terminate; parents are matched by id first
+ */
+interface TransformationScope {
+  byId: Map<string, FNode>;
+  semantic: Map<FNode, SemanticNode>;
+  converted: Map<SemanticNode, FNode>;
+}
+
 /**
  * Handles transformations between format semantics
  */
@@ -41,11 +62,17 @@ export class TransformationEngine {
     const sourceSemantics = this.getSemantics(sourceFormat);
     const targetSemantics = this.getSemantics(targetFormat);
     
+    const scope: TransformationScope = {
+      byId: indexById(node, ['attributes', 'children']),
+      semantic: new Map(),
+      converted: new Map()
+    };
+    
     // Convert to semantic representation
-    const semantic = this.toSemantic(node, sourceSemantics);
+    const semantic = this.toSemantic(node, sourceSemantics, scope);
     
     // Convert from semantic to target format
-    return this.fromSemantic(semantic, targetSemantics);
+    return this.fromSemantic(semantic, targetSemantics, scope);
   }
   
   /**
@@ -86,50 +113,65 @@ export class TransformationEngine {
   /**
    * Convert FNode to semantic representation
    */
-  private toSemantic(node: FNode, semantics: FormatSemantics): SemanticNode {
+  private toSemantic(node: FNode, semantics: FormatSemantics, scope: TransformationScope): SemanticNode {
+    const existing = scope.semantic.get(node);
+    if (existing) return existing;
+    
     const role = semantics.typeToRole.get(node.type) || SemanticRole.VALUE;
     
-    return {
+    // Registered before the links are converted, so that cycles lead back to it
+    const semantic: SemanticNode = {
       role,
       name: node.name,
       value: node.value,
+      valueType: node.valueType,
       id: node.id,
       ns: node.ns,
-      label: node.label,
-      children: node.children?.map(child => this.toSemantic(child, semantics)),
-      parents: node.parents?.map(parent => this.toSemantic(parent, semantics)),
-      attributes: node.attributes?.map(attr => this.toSemantic(attr, semantics))
+      label: node.label
     };
+    scope.semantic.set(node, semantic);
+    
+    semantic.children = node.children?.map(child => this.toSemantic(child, semantics, scope));
+    semantic.parents = node.parents?.map(parent =>
+      this.toSemantic((parent.id !== undefined && scope.byId.get(parent.id)) || parent, semantics, scope)
+    );
+    semantic.attributes = node.attributes?.map(attr => this.toSemantic(attr, semantics, scope));
+    return semantic;
   }
   
   /**
    * Convert semantic representation to FNode
    */
-  private fromSemantic(semantic: SemanticNode, semantics: FormatSemantics): FNode {
-    const targetType = semantics.roleToType.get(semantic.role) || FNodeType.VALUE;
-    
-    // Apply transformation rules based on semantic role
-    const transformedChildren = this.applyTransformationRules(
-      semantic.children || [],
-      semantics
-    );
+  private fromSemantic(semantic: SemanticNode, semantics: FormatSemantics, scope: TransformationScope): FNode {
+    const existing = scope.converted.get(semantic);
+    if (existing) return existing;
     
-    const transformedAttributes = this.applyAttributeTransformationRules(
-      semantic.attributes || [],
-      semantics
-    );
+    const targetType = semantics.roleToType.get(semantic.role) || FNodeType.VALUE;
     
-    return {
+    const node: FNode = {
       type: targetType,
       name: semantic.name,
       value: semantic.value,
+      valueType: semantic.valueType,
       id: semantic.id,
       ns: semantic.ns,
-      label: semantic.label,
-      children: transformedChildren,
-      parents: semantic.parents?.map(parent => this.fromSemantic(parent, semantics)),
-      attributes: transformedAttributes
+      label: semantic.label
     };
+    scope.converted.set(semantic, node);
+    
+    // Apply transformation rules based on semantic role
+    node.children = this.applyTransformationRules(
+      semantic.children || [],
+      semantics,
+      scope
+    );
+    node.parents = semantic.parents?.map(parent => this.fromSemantic(parent, semantics, scope));
+    node.attributes = this.applyAttributeTransformationRules(
+      semantic.attributes || [],
+      semantics,
+      scope
+    );
+    return node;
   }
   
   /**
@@ -137,7 +179,8 @@ export class TransformationEngine {
    */
   private applyTransformationRules(
     children: SemanticNode[],
-    semantics: FormatSemantics
+    semantics: FormatSemantics,
+    scope: TransformationScope
   ): FNode[] {
     const result: FNode[] = [];
     
@@ -146,32 +189,28 @@ export class TransformationEngine {
       
       switch (strategy) {
         case TransformationStrategy.PRESERVE:
-          result.push(this.fromSemantic(child, semantics));
+          result.push(this.fromSemantic(child, semantics, scope));
           break;
           
         case TransformationStrategy.CONVERT:
-          result.push(this.fromSemantic(child, semantics));
+          result.push(this.fromSemantic(child, semantics, scope));
           break;
           
         case TransformationStrategy.FLATTEN:
           // Flatten child's children into current level
           if (child.children) {
-            result.push(...this.applyTransformationRules(child.children, semantics));
+            result.push(...this.applyTransformationRules(child.children, semantics, scope));
           }
           break;
           
         case TransformationStrategy.PROMOTE:
-          // Convert to metadata or annotation
-          const promotedNode = this.fromSemantic(child, semantics);
-          promotedNode.type = FNodeType.COMMENT;
-          result.push(promotedNode);
+          // Convert to metadata or annotation; a copy, as the converted node may be shared
+          result.push({ ...this.fromSemantic(child, semantics, scope), type: FNodeType.COMMENT });
           break;
           
         case TransformationStrategy.DEMOTE:
           // Convert to attribute or lower-level element
-          const demotedNode = this.fromSemantic(child, semantics);
-          demotedNode.type = FNodeType.ATTRIBUTES;
-          result.push(demotedNode);
+          result.push({ ...this.fromSemantic(child, semantics, scope), type: FNodeType.ATTRIBUTES });
           break;
           
         case TransformationStrategy.DROP:
@@ -179,7 +218,7 @@ export class TransformationEngine {
           break;
           
         default:
-          result.push(this.fromSemantic(child, semantics));
+          result.push(this.fromSemantic(child, semantics, scope));
       }
     }
     
@@ -191,7 +230,8 @@ export class TransformationEngine {
    */
   private applyAttributeTransformationRules(
     attributes: SemanticNode[],
-    semantics: FormatSemantics
+    semantics: FormatSemantics,
+    scope: TransformationScope
   ): FNode[] | undefined {
     if (attributes.length === 0) return undefined;
     
@@ -199,12 +239,12 @@ export class TransformationEngine {
     
     switch (strategy) {
       case TransformationStrategy.PRESERVE:
-        return attributes.map(attr => this.fromSemantic(attr, semantics));
+        return attributes.map(attr => this.fromSemantic(attr, semantics, scope));
         
       case TransformationStrategy.CONVERT:
         // Convert attributes to fields/properties
         return attributes.map(attr => ({
-          ...this.fromSemantic(attr, semantics),
+          ...this.fromSemantic(attr, semantics, scope),
           type: FNodeType.FIELD
         }));
         
@@ -212,7 +252,7 @@ export class TransformationEngine {
         return undefined;
         
       default:
-        return attributes.map(attr => this.fromSemantic(attr, semantics));
+        return attributes.map(attr => this.fromSemantic(attr, semantics, scope));
     }
   }
   
@@ -265,4 +305,16 @@ export class TransformationEngine {
   getSupportedFormats(): FormatType[] {
     return Array.from(this.semanticsRegistry.keys());
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Create an engine with the built-in format semantics registered
+ */
+export function createTransformationEngine(): TransformationEngine {
+  const engine = new TransformationEngine();
+  engine.register(JSON_SEMANTICS);
+  engine.register(CSV_SEMANTICS);
+  engine.register(XML_SEMANTICS);
+  engine.register(YAML_SEMANTICS);
+  return engine;
+}
@@ -0,0 +1,37 @@
+import { PipeFitter } from './core/pipefitter.js';
+import { Configuration } from './core/configuration.js';
+import { Adapter } from './core/adapter.js';
+import { FNode } from './core/fnode.js';
+import { Message } from './core/message.js';
+
+/**
+ * Shared helpers for the unit tests; excluded from the build
+ */
+
+const messageTarget = { handle: (message: Message) => message };
+
+/**
+ * Run a synchronous pipeline and return the message reaching its end
+ */
+export function run(pipeline: PipeFitter): Message {
+  const message = pipeline.to<Message>(messageTarget);
+  if (message instanceof Promise) {
+    throw new Error('Pipeline is asynchronous: use runAsync()');
+  }
+
+  return message;
+}
+
+/**
+ * Run a pipeline that may be waiting on asynchronous steps
+ */
+export function runAsync(pipeline: PipeFitter): Promise<Message> {
+  return Promise.resolve(pipeline.to<Message>(messageTarget));
+}
+
+/**
+ * Read a source into a message
+ */
+export function load(source: FNode | Adapter, config: Partial<Configuration> = {}): Message {
+  return run(new PipeFitter(config).from(source));
+}